@@ -36,5 +36,6 @@ module.exports = {
     '^\\./(Config|Errors|Analysis|ObjectDetection|Providers|index)\\.js$': '<rootDir>/src/types/$1.ts',
     '^\\.{1,2}/utils/(.*)\\.js$': '<rootDir>/src/utils/$1.ts',
     '^\\./utils/(.*)\\.js$': '<rootDir>/src/utils/$1.ts',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
 };
\ No newline at end of file
@@ -2,8 +2,17 @@ import { Command } from 'commander';
 import { VisionService } from '../services/VisionService.js';
 import { OutputFormatter } from '../utils/output-formatter.js';
 import { ProgressManager } from '../utils/progress.js';
+import { StreamRenderer } from '../utils/stream-renderer.js';
 import { handleError } from '../utils/error-handler.js';
-import { CLIAnalysisResult } from '../types/index.js';
+import { formatCost } from '../utils/pricing.js';
+import { printRequestPreview } from '../utils/request-preview.js';
+import { formatParameterExplanation } from '../config/parameter-resolver.js';
+import { parseSafetyFlag } from '../config/safety-settings.js';
+import { cacheModeFromFlags } from '../utils/response-cache.js';
+import { parseDuration } from '../utils/duration.js';
+import { CLIAnalysisResult, ValidationError, type AnalysisResult } from '../types/index.js';
+
+const DEFAULT_PROMPT = 'Analyze this image';
 
 export const analyzeCommand = new Command('analyze')
   .description('Analyze images');
@@ -11,7 +20,7 @@ export const analyzeCommand = new Command('analyze')
 export const analyzeImageCommand = new Command('image')
   .description('Analyze a single image')
   .argument('<image>', 'Image file path or URL')
-  .option('-p, --prompt <prompt>', 'Analysis prompt', 'Analyze this image')
+  .option('-p, --prompt <prompt>', `Analysis prompt; repeat to ask several questions about the image (default: "${DEFAULT_PROMPT}")`, collectPrompts)
   .option('-o, --output <format>', 'Output format (json|text|table)', 'json')
   .option('-s, --save <path>', 'Save output to file')
   .option('-t, --temperature <temp>', 'AI temperature (0-1)', parseFloat)
@@ -22,9 +31,19 @@ export const analyzeImageCommand = new Command('image')
   .option('--system-instruction <instruction>', 'System instruction to guide model behavior')
   .option('--force-upload', 'Force file upload instead of inline data')
   .option('--files-threshold <bytes>', 'Custom file upload threshold', parseInt)
+  .option('--stream', 'Print the analysis as it is generated (raw text when not a terminal)')
   .option('--no-progress', 'Disable progress indicators', false)
   .option('--verbose', 'Enable detailed debug output')
+  .option('--explain-params', 'Print which flag, env var or config setting each generation parameter came from')
   .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('-m, --model <model>', 'Model to use, overriding settings.models and settings.image_model')
+  .option('--safety <settings>', 'Safety thresholds: category=threshold pairs or one threshold for all (overrides settings.safety)')
+  .option('--no-cache', 'Always call the provider and do not cache the response')
+  .option('--refresh', 'Call the provider and replace the cached response')
+  .option('--offline', 'Only serve cached responses; fail instead of calling the provider')
+  .option('--no-preprocess', 'Send images unchanged instead of orienting, downscaling and converting them')
+  .option('--dry-run', 'Show the request that would be sent and its prompt token count without generating anything')
+  .option('--context-cache [ttl]', 'Keep the image in provider-side cached content for repeated questions (TTL e.g. 30m, default 1h; Gemini API only)')
   .action(async (image, options) => {
     const progress = new ProgressManager(options.noProgress);
     const output = new OutputFormatter({
@@ -42,8 +61,17 @@ export const analyzeImageCommand = new Command('image')
         ? options.stopSequences.split(',').map((s: string) => s.trim())
         : undefined;
 
+      const prompts: string[] = options.prompt ?? [DEFAULT_PROMPT];
+      if (prompts.length > 1 && (options.stream || options.dryRun)) {
+        throw new ValidationError('--stream and --dry-run take a single --prompt', 'prompt');
+      }
+
       const analysisOptions = {
         functionName: 'analyze_image' as const,
+        model: options.model,
+        safetySettings: options.safety ? parseSafetyFlag(options.safety) : undefined,
+        cacheMode: cacheModeFromFlags(options),
+        preprocessing: options.preprocess ? undefined : (false as const),
         temperature: options.temperature,
         maxTokens: options.maxTokens,
         topP: options.topP,
@@ -52,85 +80,128 @@ export const analyzeImageCommand = new Command('image')
         systemInstruction: options.systemInstruction,
         enableFileUpload: options.forceUpload,
         filesThreshold: options.filesThreshold,
+        contextCache: typeof options.contextCache === 'string'
+          ? parseDuration(options.contextCache, 'context-cache') / 1000
+          : options.contextCache,
         includeMetadata: true,
         debugMode: options.verbose || process.env.LOG_LEVEL === 'debug',
       };
 
+      const parameters = await visionService.resolveParameters(analysisOptions);
+      if (options.explainParams) {
+        console.error(formatParameterExplanation(parameters, analysisOptions.functionName));
+      }
+
       if (options.verbose) {
         console.log('\n--- Debug Options ---');
         console.log(`Function: ${analysisOptions.functionName}`);
-        console.log(`Temperature: ${analysisOptions.temperature}`);
-        console.log(`Max Tokens: ${analysisOptions.maxTokens}`);
-        console.log(`Top P: ${analysisOptions.topP}`);
-        console.log(`Top K: ${analysisOptions.topK}`);
+        console.log(`Temperature: ${parameters.temperature.value}`);
+        console.log(`Max Tokens: ${parameters.maxTokens.value}`);
+        console.log(`Top P: ${parameters.topP.value}`);
+        console.log(`Top K: ${parameters.topK.value}`);
         console.log(`Stop Sequences: ${analysisOptions.stopSequences}`);
         console.log(`System Instruction: ${analysisOptions.systemInstruction}`);
         console.log(`Force Upload: ${analysisOptions.enableFileUpload}`);
         console.log(`Files Threshold: ${analysisOptions.filesThreshold}`);
       }
 
+      if (options.dryRun) {
+        progress.updateGlobal('Counting prompt tokens...');
+        const preview = await visionService.previewRequest(
+          [image],
+          prompts[0],
+          analysisOptions,
+          options.provider
+        );
+        progress.succeedGlobal('Dry run completed');
+        printRequestPreview(preview, options.output);
+        return;
+      }
+
       progress.updateGlobal('Connecting to AI provider...');
 
-      const result = await visionService.analyzeImage(
-        image,
-        options.prompt || 'Analyze this image',
-        analysisOptions,
-        options.provider
-      );
-
-      const processingTime = result.metadata?.processingTime || 0;
-
-      const cliResult: CLIAnalysisResult = {
-        success: true,
-        result: {
-          image: image,
-          analysis: result.text,
-          prompt: options.prompt || 'Analyze this image',
-          provider: options.provider || 'google',
-          model: result.metadata.model,
-          temperature: analysisOptions.temperature,
-          maxTokens: analysisOptions.maxTokens,
-          topP: analysisOptions.topP,
-          topK: analysisOptions.topK,
-          stopSequences: analysisOptions.stopSequences,
-          systemInstruction: analysisOptions.systemInstruction,
-          timestamp: new Date().toISOString(),
-        },
-        metadata: {
-          executionTime: processingTime,
-          timestamp: new Date().toISOString(),
-          provider: result.metadata.provider,
-          model: result.metadata.model,
-        },
-      };
-      if (result.metadata.usage) {
-        cliResult.result.usage = result.metadata.usage;
-        cliResult.result.tokens = {
-          prompt: result.metadata.usage.promptTokenCount,
-          candidates: result.metadata.usage.candidatesTokenCount,
-          total: result.metadata.usage.totalTokenCount,
+      const results: AnalysisResult[] = options.stream
+        ? [await new StreamRenderer(progress, 'Image Analysis').render(
+            visionService.analyzeImageStream(image, prompts[0], analysisOptions, options.provider)
+          )]
+        : await visionService.analyzeImagePrompts(image, prompts, analysisOptions, options.provider);
+
+      const cliResults = results.map((result, index): CLIAnalysisResult => {
+        const cliResult: CLIAnalysisResult = {
+          success: true,
+          result: {
+            image: image,
+            analysis: result.text,
+            prompt: prompts[index],
+            provider: options.provider || 'google',
+            model: result.metadata.model,
+            temperature: parameters.temperature.value,
+            maxTokens: parameters.maxTokens.value,
+            topP: parameters.topP.value,
+            topK: parameters.topK.value,
+            stopSequences: analysisOptions.stopSequences,
+            systemInstruction: analysisOptions.systemInstruction,
+            timestamp: new Date().toISOString(),
+          },
+          metadata: {
+            executionTime: result.metadata?.processingTime || 0,
+            timestamp: new Date().toISOString(),
+            provider: result.metadata.provider,
+            model: result.metadata.model,
+            usage: result.metadata.usage,
+            cost: result.metadata.cost,
+            finishReason: result.metadata.finishReason,
+            safetyRatings: result.metadata.safetyRatings,
+            cached: result.metadata.cached,
+            contextCache: result.metadata.contextCache,
+            preprocessing: result.metadata.preprocessing,
+          },
         };
-      }
+        if (result.metadata.usage) {
+          cliResult.result.usage = result.metadata.usage;
+          cliResult.result.tokens = {
+            prompt: result.metadata.usage.promptTokenCount,
+            candidates: result.metadata.usage.candidatesTokenCount,
+            total: result.metadata.usage.totalTokenCount,
+          };
+        }
+        return cliResult;
+      });
 
       progress.succeedGlobal('Image analysis completed');
 
-      output.output(cliResult.result, 'Image Analysis Results');
+      // A streamed analysis has already been printed
+      if (!options.stream) {
+        output.output(
+          cliResults.length === 1 ? cliResults[0].result : cliResults.map(cliResult => cliResult.result),
+          'Image Analysis Results'
+        );
+      }
 
       if (options.save) {
-        await saveResult(cliResult, options.save);
-        console.log(`Results saved to: ${options.save}`);
+        await saveResult(cliResults.length === 1 ? cliResults[0] : cliResults, options.save);
+        // Keep piped stdout limited to the streamed text
+        (options.stream ? console.error : console.log)(`Results saved to: ${options.save}`);
       }
 
       // Show additional info if verbose
       if (options.verbose) {
-        console.log('\n--- Debug Information ---');
-        console.log(`Provider: ${result.metadata.provider}`);
-        console.log(`Model: ${result.metadata.model}`);
-        console.log(`Processing Time: ${processingTime}ms`);
-        if (result.metadata.usage) {
-          console.log(`Prompt Tokens: ${result.metadata.usage.promptTokenCount}`);
-          console.log(`Response Tokens: ${result.metadata.usage.candidatesTokenCount}`);
-          console.log(`Total Tokens: ${result.metadata.usage.totalTokenCount}`);
+        for (const result of results) {
+          console.log('\n--- Debug Information ---');
+          console.log(`Provider: ${result.metadata.provider}`);
+          console.log(`Model: ${result.metadata.model}`);
+          console.log(`Processing Time: ${result.metadata?.processingTime || 0}ms`);
+          if (result.metadata.usage) {
+            console.log(`Prompt Tokens: ${result.metadata.usage.promptTokenCount}`);
+            console.log(`Response Tokens: ${result.metadata.usage.candidatesTokenCount}`);
+            console.log(`Total Tokens: ${result.metadata.usage.totalTokenCount}`);
+            if (result.metadata.usage.cachedTokenCount) {
+              console.log(`Cached Tokens: ${result.metadata.usage.cachedTokenCount} (${result.metadata.contextCache})`);
+            }
+          }
+          if (result.metadata.cost) {
+            console.log(`Estimated Cost: ${formatCost(result.metadata.cost.total, result.metadata.cost.currency)} (${result.metadata.cost.pricedModel} pricing)`);
+          }
         }
       }
 
@@ -142,6 +213,11 @@ export const analyzeImageCommand = new Command('image')
     }
   });
 
+// Collect repeated -p flags in order
+function collectPrompts(value: string, previous?: string[]): string[] {
+  return [...(previous ?? []), value];
+}
+
 async function saveResult(data: unknown, filePath: string): Promise<void> {
   const fs = await import('fs').then(m => m.promises);
   const path = await import('path');
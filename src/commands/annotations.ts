@@ -0,0 +1,100 @@
+import { Command } from 'commander';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { ImageAnnotator, parseAnnotationStyle } from '../utils/imageAnnotator.js';
+import { OutputFormatter } from '../utils/output-formatter.js';
+import { handleError } from '../utils/error-handler.js';
+import { isRemoteUrl } from '../utils/path-utils.js';
+import { applyFilters, parseFilterOptions, createDetectionSummary } from '../utils/detection-utils.js';
+import { exportDetections, parseExportFormat, writeDetectionExport } from '../utils/detection-export.js';
+import {
+  importDetections,
+  parseAnnotationFormat,
+  resolveImageSizes,
+  selectImageDetections,
+} from '../utils/detection-import.js';
+import { ValidationError } from '../types/index.js';
+
+export const annotationsCommand = new Command('annotations')
+  .description('Render or convert saved detections without calling a provider');
+
+// Draw saved detections onto an image
+export const annotationsRenderCommand = new Command('render')
+  .description('Draw saved detections onto an image')
+  .argument('<image>', 'Local image file the detections were made on')
+  .argument('<detections>', 'Saved detections: a detect/batch --save result, or a file or directory in --from format')
+  .option('--from <format>', 'Format of the detections (json|coco|yolo|voc|csv|labelstudio)', 'json')
+  .option('-o, --output <path>', 'Annotated image path; .svg writes an overlay, .html an interactive page (default: <image>_annotated.png next to the image)')
+  .option('--annotation-color <color>', 'Draw every bounding box in this color instead of one color per object type')
+  .option('--palette <name>', 'Per-type box colors (default|colorblind|single)')
+  .option('--fill-opacity <value>', 'Fill boxes with their color at this opacity (0-1)', parseFloat)
+  .option('--legend', 'Add a legend of object types and counts')
+  .option('--line-width <px>', 'Bounding box line width', (value: string) => parseInt(value, 10), 3)
+  .option('--font-size <px>', 'Label font size', (value: string) => parseInt(value, 10), 16)
+  .option('--no-labels', 'Draw boxes without labels')
+  .option('--no-confidence', 'Leave confidence out of labels')
+  .option('--min-confidence <value>', 'Minimum confidence threshold (0-1)', parseFloat)
+  .option('--types <list>', 'Only draw these comma-separated object types')
+  .option('--exclude-types <list>', 'Skip these comma-separated object types')
+  .action(async (image: string, detectionsPath: string, options) => {
+    try {
+      if (isRemoteUrl(image)) {
+        throw new ValidationError('render needs a local image; download it first', 'image');
+      }
+      await fs.access(image).catch(() => {
+        throw new ValidationError(`Image not found: ${image}`, 'image');
+      });
+
+      const filters = parseFilterOptions(options);
+      const imported = await importDetections(detectionsPath, parseAnnotationFormat(options.from));
+      const objects = applyFilters(selectImageDetections(imported, image), filters);
+
+      const outputPath = options.output || path.join(path.dirname(image), `${path.parse(image).name}_annotated.png`);
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+      const annotator = new ImageAnnotator({
+        ...parseAnnotationStyle(options),
+        lineWidth: options.lineWidth,
+        fontSize: options.fontSize,
+        showLabels: options.labels,
+        showConfidence: options.confidence,
+        labelBackground: true,
+      });
+      await annotator.createAnnotatedImage(image, objects, outputPath);
+
+      console.log(createDetectionSummary(objects));
+      new OutputFormatter({ format: 'text' }).success(`Annotated image saved to: ${outputPath}`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'annotations render');
+    }
+  });
+
+// Translate detections between annotation formats
+export const annotationsConvertCommand = new Command('convert')
+  .description('Convert detections between annotation formats')
+  .argument('<input>', 'Annotation file, or directory for yolo and voc')
+  .requiredOption('--from <format>', 'Input format (json|coco|yolo|voc|csv|labelstudio)')
+  .requiredOption('--to <format>', 'Output format (coco|yolo|voc|csv|labelstudio)')
+  .option('-o, --output <dir>', 'Output directory (default: <format>-export)')
+  .option('--images <dir>', 'Directory with the images, to read sizes the input format does not record (e.g. yolo)')
+  .action(async (input: string, options) => {
+    try {
+      const from = parseAnnotationFormat(options.from);
+      const to = parseExportFormat(options.to);
+
+      const images = await resolveImageSizes(await importDetections(input, from), options.images);
+      const outputDir = options.output || `${to}-export`;
+      const written = await writeDetectionExport(outputDir, exportDetections(images, to));
+
+      const objects = images.reduce((sum, image) => sum + image.detections.length, 0);
+      new OutputFormatter({ format: 'text' }).success(
+        `Converted ${objects} object(s) on ${images.length} image(s) from ${from} to ${to}: ${written.length} file(s) in ${outputDir}`
+      );
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'annotations convert');
+    }
+  });
+
+// Add subcommands to annotations command
+annotationsCommand.addCommand(annotationsRenderCommand);
+annotationsCommand.addCommand(annotationsConvertCommand);
@@ -0,0 +1,492 @@
+import { Command } from 'commander';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { VisionService } from '../services/VisionService.js';
+import { OutputFormatter, saveOutput } from '../utils/output-formatter.js';
+import { withBatchProgress } from '../utils/progress.js';
+import { handleError } from '../utils/error-handler.js';
+import { parseSafetyFlag } from '../config/safety-settings.js';
+import { cacheModeFromFlags } from '../utils/response-cache.js';
+import { getUniqueFiles } from '../utils/glob-utils.js';
+import { getPathInfo, isRemoteUrl } from '../utils/path-utils.js';
+import { ImageAnnotator, parseAnnotationStyle, ANNOTATION_IMAGE_FORMATS } from '../utils/imageAnnotator.js';
+import {
+  getDefaultSystemInstruction,
+  createDetectionSchema,
+  parseDetections,
+  mapDetectionsToOriginal,
+  applyFilters,
+  parseFilterOptions,
+  createDetectionSummary,
+  getImageDimensions,
+} from '../utils/detection-utils.js';
+import { parseExportFormat, exportDetections, writeDetectionExport } from '../utils/detection-export.js';
+import { ValidationError } from '../types/index.js';
+import type {
+  AnalysisOptions,
+  BatchOptions,
+  BatchAnalysisResult,
+  BatchObjectDetectionResult,
+  BatchSummary,
+  CLIAnalysisResult,
+  CLIDetectionWithFile,
+} from '../types/index.js';
+
+const DEFAULT_BATCH_PATTERN = '*.{png,jpg,jpeg,webp,gif,bmp,tiff}';
+const DEFAULT_PARALLEL = 3;
+
+export const batchCommand = new Command('batch')
+  .description('Run analysis or object detection over directories and glob patterns');
+
+// Batch image analysis
+export const batchAnalyzeCommand = new Command('analyze')
+  .description('Analyze every image matched by the given files, directories or globs')
+  .argument('<inputs...>', 'Image files, directories, glob patterns or URLs')
+  .option('-p, --prompt <prompt>', 'Analysis prompt', 'Analyze this image')
+  .option('--parallel <count>', 'Number of images processed concurrently', (value: string) => parseInt(value, 10), DEFAULT_PARALLEL)
+  .option('--pattern <glob>', 'File pattern used when an input is a directory', DEFAULT_BATCH_PATTERN)
+  .option('-r, --recursive', 'Descend into subdirectories of directory inputs')
+  .option('-o, --output <format>', 'Output format (json|text|table)', 'json')
+  .option('-s, --save <path>', 'Save batch results to file')
+  .option('-t, --temperature <temp>', 'AI temperature (0-1)', parseFloat)
+  .option('--max-tokens <tokens>', 'Maximum output tokens', parseInt)
+  .option('--top-p <value>', 'Top P value (0-1)', parseFloat)
+  .option('--top-k <value>', 'Top K value (1-100)', parseInt)
+  .option('--system-instruction <instruction>', 'System instruction to guide model behavior')
+  .option('--no-progress', 'Disable progress indicators')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('-m, --model <model>', 'Model to use, overriding settings.models and settings.image_model')
+  .option('--safety <settings>', 'Safety thresholds: category=threshold pairs or one threshold for all (overrides settings.safety)')
+  .option('--no-cache', 'Always call the provider and do not cache the response')
+  .option('--refresh', 'Call the provider and replace the cached response')
+  .option('--offline', 'Only serve cached responses; fail instead of calling the provider')
+  .option('--no-preprocess', 'Send images unchanged instead of orienting, downscaling and converting them')
+  .action(async (inputs: string[], options) => {
+    const output = new OutputFormatter({
+      format: options.output || 'json',
+      pretty: true,
+      colors: true
+    });
+
+    try {
+      const files = await resolveBatchInputs(inputs, options);
+      const visionService = VisionService.getInstance();
+      const prompt = options.prompt || 'Analyze this image';
+
+      const analysisOptions: AnalysisOptions = {
+        functionName: 'analyze_image',
+        model: options.model,
+        safetySettings: options.safety ? parseSafetyFlag(options.safety) : undefined,
+        cacheMode: cacheModeFromFlags(options),
+        preprocessing: options.preprocess ? undefined : (false as const),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        topP: options.topP,
+        topK: options.topK,
+        systemInstruction: options.systemInstruction,
+        includeMetadata: true,
+        debugMode: process.env.LOG_LEVEL === 'debug',
+      };
+
+      // Indexed by input position so --parallel does not reorder the output
+      const slots: Array<CLIAnalysisResult | undefined> = [];
+      const errorSlots: Array<BatchAnalysisResult['errors'][number] | undefined> = [];
+      const startTime = Date.now();
+
+      await withBatchProgress(
+        files,
+        `Analyzing ${files.length} images`,
+        async (file, index) => {
+          try {
+            const result = await visionService.analyzeImage(file, prompt, analysisOptions, options.provider);
+
+            const cliResult: CLIAnalysisResult = {
+              success: true,
+              result: {
+                image: file,
+                analysis: result.text,
+                prompt,
+                provider: options.provider || 'google',
+                model: result.metadata.model,
+                timestamp: new Date().toISOString(),
+              },
+              metadata: {
+                executionTime: result.metadata?.processingTime || 0,
+                timestamp: new Date().toISOString(),
+                provider: result.metadata.provider,
+                model: result.metadata.model,
+                usage: result.metadata.usage,
+                cost: result.metadata.cost,
+                finishReason: result.metadata.finishReason,
+                safetyRatings: result.metadata.safetyRatings,
+                cached: result.metadata.cached,
+              },
+            };
+            if (result.metadata.usage) {
+              cliResult.result.usage = result.metadata.usage;
+            }
+
+            slots[index] = cliResult;
+          } catch (error) {
+            errorSlots[index] = { file, error: error instanceof Error ? error.message : String(error) };
+          }
+        },
+        options.progress !== false,
+        normalizeParallel(options.parallel)
+      );
+      const results = compact(slots);
+      const errors = compact(errorSlots);
+
+      const batchResult: BatchAnalysisResult = {
+        results,
+        summary: createBatchSummary(
+          files.length,
+          results.map(r => r.metadata.executionTime),
+          Date.now() - startTime
+        ),
+        errors,
+      };
+
+      displayBatchResult(
+        output,
+        options.output,
+        batchResult,
+        results.map(r => ({
+          file: r.result.image,
+          status: 'ok',
+          model: r.metadata.model,
+          time: r.metadata.executionTime,
+        }))
+      );
+
+      if (options.save) {
+        await saveOutput(batchResult, options.save);
+        console.log(`Results saved to: ${options.save}`);
+      }
+
+      if (errors.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'batch analyze');
+    }
+  });
+
+// Batch object detection
+export const batchDetectCommand = new Command('detect')
+  .description('Detect objects in every image matched by the given files, directories or globs')
+  .argument('<inputs...>', 'Image files, directories, glob patterns or URLs')
+  .option('-p, --prompt <prompt>', 'Detection prompt', 'Detect all objects in this image')
+  .option('--parallel <count>', 'Number of images processed concurrently', (value: string) => parseInt(value, 10), DEFAULT_PARALLEL)
+  .option('--pattern <glob>', 'File pattern used when an input is a directory', DEFAULT_BATCH_PATTERN)
+  .option('-r, --recursive', 'Descend into subdirectories of directory inputs')
+  .option('-o, --output <format>', 'Output format (json|text|table)', 'json')
+  .option('-s, --save <path>', 'Save batch results to file')
+  .option('--save-images <dir>', 'Write annotated images for local inputs to this directory')
+  .option('--annotation-format <format>', `Annotated image format (${ANNOTATION_IMAGE_FORMATS.join('|')}); svg writes overlays, html interactive pages`, 'png')
+  .option('--annotation-color <color>', 'Draw every bounding box in this color instead of one color per object type')
+  .option('--palette <name>', 'Per-type box colors (default|colorblind|single)')
+  .option('--fill-opacity <value>', 'Fill boxes with their color at this opacity (0-1)', parseFloat)
+  .option('--legend', 'Add a legend of object types and counts')
+  .option('--export-format <format>', 'Also export all detections as one dataset (coco|yolo|voc|csv|labelstudio)')
+  .option('--export-dir <dir>', 'Directory for --export-format files (default: <format>-export)')
+  .option('--max-objects <count>', 'Maximum number of objects per image; the most confident are kept', parseInt)
+  .option('--min-confidence <value>', 'Minimum confidence threshold (0-1)', parseFloat)
+  .option('--types <list>', 'Only keep these comma-separated object types')
+  .option('--exclude-types <list>', 'Drop these comma-separated object types')
+  .option('--web-context', 'Enable web context-aware detection')
+  .option('-t, --temperature <temp>', 'AI temperature (0-1)', parseFloat)
+  .option('--max-tokens <tokens>', 'Maximum output tokens', parseInt)
+  .option('--system-instruction <instruction>', 'Custom system instruction')
+  .option('--no-progress', 'Disable progress indicators')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('-m, --model <model>', 'Model to use, overriding settings.models and settings.image_model')
+  .option('--safety <settings>', 'Safety thresholds: category=threshold pairs or one threshold for all (overrides settings.safety)')
+  .option('--no-cache', 'Always call the provider and do not cache the response')
+  .option('--refresh', 'Call the provider and replace the cached response')
+  .option('--offline', 'Only serve cached responses; fail instead of calling the provider')
+  .option('--no-preprocess', 'Send images unchanged instead of orienting, downscaling and converting them')
+  .action(async (inputs: string[], options) => {
+    const output = new OutputFormatter({
+      format: options.output || 'json',
+      pretty: true,
+      colors: true
+    });
+
+    try {
+      const filters = parseFilterOptions(options);
+      const exportFormat = options.exportFormat ? parseExportFormat(options.exportFormat) : undefined;
+      const annotationStyle = parseAnnotationStyle(options);
+      options.annotationFormat = String(options.annotationFormat).toLowerCase();
+      if (!(ANNOTATION_IMAGE_FORMATS as readonly string[]).includes(options.annotationFormat)) {
+        throw new ValidationError(
+          `Unknown annotation format "${options.annotationFormat}". Use one of: ${ANNOTATION_IMAGE_FORMATS.join(', ')}`,
+          'annotation-format'
+        );
+      }
+      const files = await resolveBatchInputs(inputs, options);
+      const visionService = VisionService.getInstance();
+      const prompt = options.prompt || 'Detect all objects in this image';
+
+      const analysisOptions: AnalysisOptions = {
+        functionName: 'detect_objects_in_image',
+        model: options.model,
+        safetySettings: options.safety ? parseSafetyFlag(options.safety) : undefined,
+        cacheMode: cacheModeFromFlags(options),
+        preprocessing: options.preprocess ? undefined : (false as const),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        systemInstruction: options.systemInstruction || getDefaultSystemInstruction(options.webContext),
+        includeMetadata: true,
+        debugMode: process.env.LOG_LEVEL === 'debug',
+        responseSchema: createDetectionSchema('google'),
+      };
+
+      const annotator = options.saveImages
+        ? new ImageAnnotator({ ...annotationStyle, showConfidence: true })
+        : null;
+
+      const annotatedPaths = options.saveImages
+        ? annotatedImagePaths(files, options.saveImages, options.annotationFormat)
+        : [];
+
+      // Indexed by input position so --parallel does not reorder the output or export ids
+      const slots: Array<CLIDetectionWithFile | undefined> = [];
+      const errorSlots: Array<BatchObjectDetectionResult['errors'][number] | undefined> = [];
+      const startTime = Date.now();
+
+      await withBatchProgress(
+        files,
+        `Detecting objects in ${files.length} images`,
+        async (file, index) => {
+          try {
+            const result = await visionService.detectObjects(file, prompt, analysisOptions, options.provider);
+            const preprocessing = result.metadata.preprocessing?.[0] ?? undefined;
+            const detections = applyFilters(mapDetectionsToOriginal(parseDetections(result.text), preprocessing), filters);
+            const dimensions = await getImageDimensions(file);
+
+            let outputPath: string | undefined;
+            if (annotator && !isRemoteUrl(file)) {
+              outputPath = annotatedPaths[index];
+              await fs.mkdir(path.dirname(outputPath), { recursive: true });
+              await annotator.createAnnotatedImage(file, detections, outputPath);
+            }
+
+            slots[index] = {
+              detections,
+              file: {
+                path: file,
+                size_bytes: dimensions.size,
+                format: dimensions.format,
+              },
+              image_metadata: {
+                width: dimensions.width,
+                height: dimensions.height,
+                original_size: dimensions.size,
+              },
+              summary: createDetectionSummary(detections),
+              metadata: {
+                model: result.metadata.model,
+                provider: result.metadata.provider,
+                usage: result.metadata.usage,
+                cost: result.metadata.cost,
+                finishReason: result.metadata.finishReason,
+                safetyRatings: result.metadata.safetyRatings,
+                cached: result.metadata.cached,
+                preprocessing,
+                processingTime: result.metadata.processingTime || 0,
+                modelVersion: result.metadata.modelVersion,
+                responseId: result.metadata.responseId,
+              },
+              cliMetadata: {
+                command: 'batch detect',
+                timestamp: new Date().toISOString(),
+                executionTime: result.metadata.processingTime || 0,
+                outputPath,
+              },
+            };
+          } catch (error) {
+            errorSlots[index] = { file, error: error instanceof Error ? error.message : String(error) };
+          }
+        },
+        options.progress !== false,
+        normalizeParallel(options.parallel)
+      );
+      const results = compact(slots);
+      const errors = compact(errorSlots);
+
+      const summary = createBatchSummary(
+        files.length,
+        results.map(r => r.cliMetadata.executionTime),
+        Date.now() - startTime
+      );
+
+      const batchResult: BatchObjectDetectionResult = {
+        results,
+        summary: {
+          ...summary,
+          totalObjects: results.reduce((sum, r) => sum + r.detections.length, 0),
+        },
+        errors,
+      };
+
+      displayBatchResult(
+        output,
+        options.output,
+        batchResult,
+        results.map(r => ({
+          file: r.file.path,
+          status: 'ok',
+          objects: r.detections.length,
+          time: r.cliMetadata.executionTime,
+        }))
+      );
+
+      if (options.save) {
+        await saveOutput(batchResult, options.save);
+        console.log(`Results saved to: ${options.save}`);
+      }
+
+      if (exportFormat) {
+        // One dataset for every successful image, with a shared category map
+        const exportDir = options.exportDir || `${exportFormat}-export`;
+        const written = await writeDetectionExport(
+          exportDir,
+          exportDetections(
+            results.map(r => ({
+              source: r.file.path,
+              width: r.image_metadata.width,
+              height: r.image_metadata.height,
+              detections: r.detections,
+            })),
+            exportFormat
+          )
+        );
+        console.log(`Exported ${batchResult.summary.totalObjects} object(s) from ${results.length} image(s) as ${exportFormat}: ${written.length} file(s) in ${exportDir}`);
+      }
+
+      if (errors.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'batch detect');
+    }
+  });
+
+// Helper functions
+
+/**
+ * Expand files, directories and glob patterns into a unique list of image sources
+ */
+async function resolveBatchInputs(inputs: string[], options: BatchOptions): Promise<string[]> {
+  const patterns: string[] = [];
+
+  for (const input of inputs) {
+    if (isRemoteUrl(input)) {
+      patterns.push(input);
+      continue;
+    }
+
+    const info = getPathInfo(input);
+    if (info.isDirectory) {
+      const pattern = options.pattern || DEFAULT_BATCH_PATTERN;
+      patterns.push(
+        options.recursive
+          ? path.join(info.absolutePath, '**', pattern)
+          : path.join(info.absolutePath, pattern)
+      );
+    } else {
+      patterns.push(input);
+    }
+  }
+
+  const files = await getUniqueFiles(patterns);
+
+  if (files.length === 0) {
+    throw new ValidationError(`No images matched: ${inputs.join(', ')}`, 'inputs');
+  }
+
+  return files;
+}
+
+/**
+ * Where each input's annotated image is written: below saveDir with the
+ * layout the images have below their common directory, so images of the same
+ * name from different directories (or with different extensions) each get
+ * their own file
+ */
+function annotatedImagePaths(files: string[], saveDir: string, format: string): string[] {
+  const directories = files.filter(file => !isRemoteUrl(file)).map(file => path.dirname(path.resolve(file)));
+  const root = directories.reduce((common, directory) => {
+    while (directory !== common && !directory.startsWith(common + path.sep) && common !== path.dirname(common)) {
+      common = path.dirname(common);
+    }
+    return common;
+  }, directories[0] ?? '');
+
+  const used = new Set<string>();
+  return files.map(file => {
+    const base = path.join(saveDir, path.relative(root, path.dirname(path.resolve(file))), `${path.parse(file).name}_annotated`);
+    let outputPath = `${base}.${format}`;
+    for (let count = 1; used.has(outputPath); count++) {
+      outputPath = `${base}_${count}.${format}`;
+    }
+    used.add(outputPath);
+    return outputPath;
+  });
+}
+
+function normalizeParallel(parallel?: number): number {
+  if (!parallel || isNaN(parallel) || parallel < 1) {
+    return DEFAULT_PARALLEL;
+  }
+  return Math.floor(parallel);
+}
+
+// Entries of an index-addressed result array, in input order, without the gaps
+function compact<T>(slots: Array<T | undefined>): T[] {
+  return slots.filter((slot): slot is T => slot !== undefined);
+}
+
+function createBatchSummary(
+  total: number,
+  executionTimes: number[],
+  totalExecutionTime: number
+): BatchSummary {
+  const successful = executionTimes.length;
+  const averageExecutionTime = successful > 0
+    ? Math.round(executionTimes.reduce((sum, time) => sum + time, 0) / successful)
+    : 0;
+
+  return {
+    total,
+    successful,
+    failed: total - successful,
+    totalExecutionTime,
+    averageExecutionTime,
+  };
+}
+
+function displayBatchResult(
+  output: OutputFormatter,
+  format: string | undefined,
+  batchResult: { summary: object; errors: Array<{ file: string; error: string }> },
+  rows: Array<Record<string, unknown>>
+): void {
+  if (!format || format === 'json') {
+    output.output(batchResult, 'Batch Results');
+    return;
+  }
+
+  if (rows.length > 0) {
+    output.output(rows, 'Batch Results');
+  }
+  output.output(batchResult.summary, 'Batch Summary');
+
+  for (const { file, error } of batchResult.errors) {
+    output.error(`${file}: ${error}`);
+  }
+}
+
+batchCommand.addCommand(batchAnalyzeCommand);
+batchCommand.addCommand(batchDetectCommand);
@@ -0,0 +1,68 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ConfigService } from '../config/ConfigService.js';
+import { ResponseCache } from '../utils/response-cache.js';
+import { OutputFormatter, formatBytes } from '../utils/output-formatter.js';
+import { formatCost } from '../utils/pricing.js';
+import { handleError } from '../utils/error-handler.js';
+
+export const cacheCommand = new Command('cache')
+  .description('Inspect and clear the local response cache');
+
+// Show cache size, hit rate and savings
+export const cacheStatsCommand = new Command('stats')
+  .description('Show cached entries, size, hit rate and estimated savings')
+  .option('--format <format>', 'Output format (table|json)', 'table')
+  .action(async (options) => {
+    try {
+      const config = await ConfigService.getInstance().getCacheConfig();
+      const stats = new ResponseCache(config).getStats();
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ ...stats, enabled: config.enabled, ttl: config.ttl, max_size: config.max_size }, null, 2));
+        return;
+      }
+
+      const lookups = stats.hits + stats.misses;
+      new OutputFormatter({ format: 'table' }).output(
+        [
+          { property: 'enabled', value: String(config.enabled) },
+          { property: 'directory', value: stats.directory },
+          { property: 'entries', value: `${stats.entries}${stats.expired > 0 ? ` (${stats.expired} expired)` : ''}` },
+          { property: 'size', value: `${formatBytes(stats.size)} of ${formatBytes(config.max_size)}` },
+          { property: 'ttl', value: config.ttl > 0 ? `${Math.round(config.ttl / 3600000)}h` : 'none' },
+          { property: 'oldest', value: stats.oldest ?? '-' },
+          { property: 'newest', value: stats.newest ?? '-' },
+          {
+            property: 'hits',
+            value: lookups > 0 ? `${stats.hits} of ${lookups} (${Math.round((stats.hits / lookups) * 100)}%)` : '0',
+          },
+          { property: 'saved', value: formatCost(stats.savedCost, stats.currency) },
+        ],
+        'Response Cache'
+      );
+
+      if (!config.enabled) {
+        console.log(chalk.gray('Caching is disabled (cache.enabled in the config file)'));
+      }
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'cache stats');
+    }
+  });
+
+// Delete every cached response
+export const cacheClearCommand = new Command('clear')
+  .description('Delete every cached response and reset the statistics')
+  .action(async () => {
+    try {
+      const cache = new ResponseCache(await ConfigService.getInstance().getCacheConfig());
+      const removed = cache.clear();
+      new OutputFormatter({ format: 'text' }).success(`Removed ${removed} cached responses (${cache.getDirectory()})`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'cache clear');
+    }
+  });
+
+// Add subcommands to cache command
+cacheCommand.addCommand(cacheStatsCommand, { isDefault: true });
+cacheCommand.addCommand(cacheClearCommand);
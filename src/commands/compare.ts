@@ -2,15 +2,36 @@ import { Command } from 'commander';
 import { VisionService } from '../services/VisionService.js';
 import { OutputFormatter } from '../utils/output-formatter.js';
 import { ProgressManager } from '../utils/progress.js';
+import { StreamRenderer } from '../utils/stream-renderer.js';
 import { handleError } from '../utils/error-handler.js';
-import { CLIAnalysisResult } from '../types/index.js';
+import { formatCost } from '../utils/pricing.js';
+import { printRequestPreview } from '../utils/request-preview.js';
+import { formatParameterExplanation } from '../config/parameter-resolver.js';
+import { parseSafetyFlag } from '../config/safety-settings.js';
+import { cacheModeFromFlags } from '../utils/response-cache.js';
+import {
+  createComparisonSchema,
+  createDiffExplanationSchema,
+  getDiffExplanationInstruction,
+  getStructuredComparisonInstruction,
+  parseComparison,
+  toDiffRows,
+} from '../utils/comparison-utils.js';
+import { createSideBySide, validateDiffOptions, DEFAULT_DIFF_THRESHOLD, type DiffAnalysis, type DiffOptions } from '../utils/image-diff.js';
+import { ImageAnnotator } from '../utils/imageAnnotator.js';
+import { CLIAnalysisResult, ValidationError } from '../types/index.js';
 import fs from 'fs/promises';
 import path from 'path';
 
+const DEFAULT_DIFF_DIR = 'compare-diff';
+
 export const compareCommand = new Command('compare')
   .description('Compare multiple images')
   .argument('[images...]', 'Image file paths or URLs (2-4 images)')
-  .option('-p, --prompt <prompt>', 'Comparison prompt', 'Compare these images and highlight their similarities and differences')
+  .option('-p, --prompt <prompt>', 'Comparison prompt')
+  .option('--mode <mode>', 'describe: explain how the images relate; diff: find and explain where two images changed', 'describe')
+  .option('--diff-dir <dir>', `Directory for the --mode diff heatmap and side-by-side images (default: ${DEFAULT_DIFF_DIR})`)
+  .option('--diff-threshold <value>', `Block change (0-1) that counts as a difference in --mode diff (default: ${DEFAULT_DIFF_THRESHOLD})`, parseFloat)
   .option('-o, --output <format>', 'Output format (json|text|table)', 'json')
   .option('-s, --save <path>', 'Save output to file')
   .option('-t, --temperature <temp>', 'AI temperature (0-1)', parseFloat)
@@ -20,9 +41,19 @@ export const compareCommand = new Command('compare')
   .option('--system-instruction <instruction>', 'Custom system instruction')
   .option('--force-upload', 'Force file upload instead of inline data')
   .option('--files-threshold <bytes>', 'Custom file upload threshold', parseInt)
+  .option('--structured', 'Return similarities, differences and a 0-1 similarity score as validated JSON')
+  .option('--stream', 'Print the comparison as it is generated (raw text when not a terminal)')
   .option('--no-progress', 'Disable progress indicators', false)
   .option('--verbose', 'Enable detailed debug output')
+  .option('--explain-params', 'Print which flag, env var or config setting each generation parameter came from')
   .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('-m, --model <model>', 'Model to use, overriding settings.models and settings.image_model')
+  .option('--safety <settings>', 'Safety thresholds: category=threshold pairs or one threshold for all (overrides settings.safety)')
+  .option('--no-cache', 'Always call the provider and do not cache the response')
+  .option('--refresh', 'Call the provider and replace the cached response')
+  .option('--offline', 'Only serve cached responses; fail instead of calling the provider')
+  .option('--no-preprocess', 'Send images unchanged instead of orienting, downscaling and converting them')
+  .option('--dry-run', 'Show the request that would be sent and its prompt token count without generating anything')
   .action(async (images, options) => {
     const progress = new ProgressManager(options.noProgress);
     const output = new OutputFormatter({
@@ -41,6 +72,27 @@ export const compareCommand = new Command('compare')
         throw new Error('Maximum 4 images can be compared at once');
       }
 
+      if (options.structured && options.stream) {
+        throw new ValidationError('--structured cannot be combined with --stream', 'structured');
+      }
+
+      const mode = String(options.mode).toLowerCase();
+      if (mode !== 'describe' && mode !== 'diff') {
+        throw new ValidationError(`Unknown comparison mode "${options.mode}". Use describe or diff`, 'mode');
+      }
+
+      let diffOptions: DiffOptions | undefined;
+      if (mode === 'diff') {
+        if (images.length !== 2) {
+          throw new ValidationError('--mode diff compares exactly 2 images', 'images');
+        }
+        if (options.structured || options.stream || options.dryRun) {
+          throw new ValidationError('--mode diff cannot be combined with --structured, --stream or --dry-run', 'mode');
+        }
+        diffOptions = { threshold: options.diffThreshold };
+        validateDiffOptions(diffOptions);
+      }
+
       progress.startGlobal('Comparing images');
 
       // Initialize vision service
@@ -48,54 +100,100 @@ export const compareCommand = new Command('compare')
 
       const analysisOptions = {
         functionName: 'compare_images' as const,
-        temperature: options.temperature || 0.2, // Slightly creative for comparison
-        maxTokens: options.maxTokens || 4096,
+        model: options.model,
+        safetySettings: options.safety ? parseSafetyFlag(options.safety) : undefined,
+        cacheMode: cacheModeFromFlags(options),
+        preprocessing: options.preprocess ? undefined : (false as const),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
         topP: options.topP,
         topK: options.topK,
-        systemInstruction: options.systemInstruction || getComparisonSystemInstruction(),
+        systemInstruction: options.systemInstruction || (diffOptions
+          ? getDiffExplanationInstruction()
+          : options.structured ? getStructuredComparisonInstruction() : getComparisonSystemInstruction()),
+        responseSchema: diffOptions ? createDiffExplanationSchema() : options.structured ? createComparisonSchema() : undefined,
         enableFileUpload: options.forceUpload,
         filesThreshold: options.filesThreshold,
         includeMetadata: true,
         debugMode: options.verbose || process.env.LOG_LEVEL === 'debug',
       };
 
+      const parameters = await visionService.resolveParameters(analysisOptions);
+      if (options.explainParams) {
+        console.error(formatParameterExplanation(parameters, analysisOptions.functionName));
+      }
+
       if (options.verbose) {
         console.log('\n--- Debug Options ---');
         console.log(`Function: ${analysisOptions.functionName}`);
         console.log(`Images: ${images.length}`);
-        console.log(`Temperature: ${analysisOptions.temperature}`);
-        console.log(`Max Tokens: ${analysisOptions.maxTokens}`);
+        console.log(`Mode: ${mode}${diffOptions ? ` (threshold ${diffOptions.threshold ?? DEFAULT_DIFF_THRESHOLD})` : ''}`);
+        console.log(`Structured: ${Boolean(options.structured)}`);
+        console.log(`Temperature: ${parameters.temperature.value}`);
+        console.log(`Max Tokens: ${parameters.maxTokens.value}`);
         console.log(`System Instruction: ${analysisOptions.systemInstruction?.substring(0, 100)}...`);
         console.log('Image Sources:');
         images.forEach((img: string, idx: number) => console.log(`  ${idx + 1}. ${img}`));
       }
 
+      const prompt = options.prompt || (diffOptions
+        ? 'Explain what changed in each region between the before and after image'
+        : 'Compare these images and highlight their similarities and differences');
+
+      if (options.dryRun) {
+        progress.updateGlobal('Counting prompt tokens...');
+        const preview = await visionService.previewRequest(images, prompt, analysisOptions, options.provider);
+        progress.succeedGlobal('Dry run completed');
+        printRequestPreview(preview, options.output);
+        return;
+      }
+
       progress.updateGlobal('Processing images...');
 
       // Perform image comparison
-      const result = await visionService.compareImages(
-        images,
-        options.prompt || 'Compare these images and highlight their similarities and differences',
-        analysisOptions,
-        options.provider
-      );
+      const diffAnalysis = diffOptions
+        ? await visionService.compareImagesDiff([images[0], images[1]], prompt, diffOptions, analysisOptions, options.provider)
+        : undefined;
+      const result = diffAnalysis
+        ? diffAnalysis.result
+        : options.stream
+        ? await new StreamRenderer(progress, 'Image Comparison').render(
+            visionService.compareImagesStream(images, prompt, analysisOptions, options.provider)
+          )
+        : await visionService.compareImages(images, prompt, analysisOptions, options.provider);
 
       const processingTime = result.metadata?.processingTime || 0;
+      const comparison = options.structured ? parseComparison(result.text) : undefined;
+
+      let diffImages: { heatmap: string; sideBySide: string } | undefined;
+      if (diffAnalysis) {
+        progress.updateGlobal('Drawing changed regions...');
+        diffImages = await saveDiffImages(diffAnalysis, options.diffDir || DEFAULT_DIFF_DIR);
+      }
 
       // Create CLI result
       const cliResult: CLIAnalysisResult = {
         success: true,
         result: {
           images: images,
-          prompt: options.prompt || 'Compare these images and highlight their similarities and differences',
+          prompt,
           provider: options.provider || 'google',
           model: result.metadata.model,
-          comparison: result.text,
+          ...(diffAnalysis && diffImages
+            ? {
+                mode: 'diff',
+                similarity: diffAnalysis.diff.similarity,
+                changedPercent: diffAnalysis.diff.changedPercent,
+                changes: diffAnalysis.changes,
+                heatmap: diffImages.heatmap,
+                sideBySide: diffImages.sideBySide,
+              }
+            : { comparison: comparison ?? result.text }),
           imageCount: images.length,
-          temperature: analysisOptions.temperature,
-          maxTokens: analysisOptions.maxTokens,
-          topP: analysisOptions.topP,
-          topK: analysisOptions.topK,
+          temperature: parameters.temperature.value,
+          maxTokens: parameters.maxTokens.value,
+          topP: parameters.topP.value,
+          topK: parameters.topK.value,
           timestamp: new Date().toISOString(),
         },
         metadata: {
@@ -103,16 +201,38 @@ export const compareCommand = new Command('compare')
           timestamp: new Date().toISOString(),
           provider: result.metadata.provider,
           model: result.metadata.model,
+          usage: result.metadata.usage,
+          cost: result.metadata.cost,
+          finishReason: result.metadata.finishReason,
+          safetyRatings: result.metadata.safetyRatings,
+          cached: result.metadata.cached,
+          preprocessing: result.metadata.preprocessing,
+          diff: result.metadata.diff,
         },
       };
 
       progress.succeedGlobal('Image comparison completed');
 
-      output.output(cliResult.result, 'Image Comparison Results');
+      // A streamed comparison has already been printed
+      if (comparison && options.output !== 'json') {
+        output.comparison(comparison, 'Image Comparison Results');
+      } else if (diffAnalysis && options.output === 'table' && diffAnalysis.changes.length > 0) {
+        // A table lists the changes, one per row
+        output.output(toDiffRows(diffAnalysis.changes), 'Image Differences');
+      } else if (!options.stream) {
+        output.output(cliResult.result, 'Image Comparison Results');
+      }
 
       if (options.save) {
         await saveResult(cliResult, options.save);
-        console.log(`Results saved to: ${options.save}`);
+        // Keep piped stdout limited to the streamed text
+        (options.stream ? console.error : console.log)(`Results saved to: ${options.save}`);
+      }
+
+      if (diffAnalysis && diffImages) {
+        console.log(`Similarity: ${Math.round(diffAnalysis.diff.similarity * 100)}%, ${diffAnalysis.diff.changedPercent}% of the image changed in ${diffAnalysis.diff.regions.length} region(s)`);
+        console.log(`Heatmap saved to: ${diffImages.heatmap}`);
+        console.log(`Side-by-side image saved to: ${diffImages.sideBySide}`);
       }
 
       // Show additional info if verbose
@@ -127,6 +247,9 @@ export const compareCommand = new Command('compare')
           console.log(`Response Tokens: ${result.metadata.usage.candidatesTokenCount}`);
           console.log(`Total Tokens: ${result.metadata.usage.totalTokenCount}`);
         }
+        if (result.metadata.cost) {
+          console.log(`Estimated Cost: ${formatCost(result.metadata.cost.total, result.metadata.cost.currency)} (${result.metadata.cost.pricedModel} pricing)`);
+        }
       }
 
     } catch (error) {
@@ -139,6 +262,22 @@ export const compareCommand = new Command('compare')
 
 // Helper functions
 
+/**
+ * Write the heatmap and the side-by-side image with the changed regions drawn in
+ */
+async function saveDiffImages(analysis: DiffAnalysis, directory: string): Promise<{ heatmap: string; sideBySide: string }> {
+  await fs.mkdir(directory, { recursive: true });
+
+  const heatmap = path.join(directory, 'heatmap.png');
+  await fs.writeFile(heatmap, analysis.diff.heatmap);
+
+  const annotator = new ImageAnnotator({ showLabels: true, labelBackground: true });
+  const sideBySide = path.join(directory, 'side-by-side.png');
+  await fs.writeFile(sideBySide, await createSideBySide(analysis.diff, analysis.changes, annotator));
+
+  return { heatmap, sideBySide };
+}
+
 function getComparisonSystemInstruction(): string {
   return `
 You are an expert image analysis assistant specializing in comparing multiple images.
@@ -1,4 +1,13 @@
 import { Command } from 'commander';
+import chalk from 'chalk';
+import { ConfigService } from '../config/ConfigService.js';
+import { VisionService } from '../services/VisionService.js';
+import { OutputFormatter } from '../utils/output-formatter.js';
+import { ProgressManager } from '../utils/progress.js';
+import { handleError } from '../utils/error-handler.js';
+
+// Configuration keys whose values must never be printed in full
+const SECRET_KEYS = ['credentials.gemini_api_key', 'credentials.vertex_credentials'];
 
 export const configCommand = new Command('config')
   .description('Manage AI Vision CLI configuration');
@@ -6,48 +15,219 @@ export const configCommand = new Command('config')
 // Get configuration value
 export const configGetCommand = new Command('get')
   .description('Get a configuration value')
-  .argument('<key>', 'Configuration key')
-  .action(async (key) => {
-    // Placeholder - will be implemented
-    console.log(`Getting config value for: ${key}`);
-    console.log('This command will be implemented in the next phase.');
+  .argument('<key>', 'Configuration key (dot notation, e.g. settings.temperature)')
+  .option('--show-secrets', 'Print credential values without masking')
+  .action(async (key, options) => {
+    try {
+      const configService = ConfigService.getInstance();
+      const value = await configService.getConfigValue(key);
+      const displayValue = options.showSecrets ? value : maskValue(key, value);
+
+      if (displayValue !== null && typeof displayValue === 'object') {
+        console.log(JSON.stringify(displayValue, null, 2));
+      } else {
+        console.log(displayValue === undefined ? '' : String(displayValue));
+      }
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'config get');
+    }
   });
 
 // Set configuration value
 export const configSetCommand = new Command('set')
   .description('Set a configuration value')
-  .argument('<key>', 'Configuration key')
-  .argument('<value>', 'Configuration value')
+  .argument('<key>', 'Configuration key (dot notation, e.g. settings.temperature)')
+  .argument('<value>', 'Configuration value (lists may be comma separated)')
   .action(async (key, value) => {
-    // Placeholder - will be implemented
-    console.log(`Setting config value: ${key} = ${value}`);
-    console.log('This command will be implemented in the next phase.');
+    const output = new OutputFormatter({ format: 'text' });
+
+    try {
+      const configService = ConfigService.getInstance();
+
+      // Coerce the raw string to the schema type, then validate and persist it
+      const typedValue = configService.coerceConfigValue(key, value);
+      await configService.setConfigValue(key, typedValue);
+
+      output.success(`Set ${key} = ${formatValue(maskValue(key, typedValue))}`);
+      output.info(`Config file: ${configService.getConfigPath()}`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'config set');
+    }
   });
 
 // List all configuration
 export const configListCommand = new Command('list')
   .description('List all configuration values')
   .option('--format <format>', 'Output format (table|json)', 'table')
+  .option('--show-secrets', 'Print credential values without masking')
   .action(async (options) => {
-    // Placeholder - will be implemented
-    console.log('Listing all configuration values');
-    console.log('Options:', options);
-    console.log('This command will be implemented in the next phase.');
+    try {
+      const configService = ConfigService.getInstance();
+      const config = await configService.loadConfig();
+      const entries = flattenConfig(config as unknown as Record<string, unknown>)
+        .map(([key, value]) => [key, options.showSecrets ? value : maskValue(key, value)] as const);
+
+      if (options.format === 'json') {
+        const masked: Record<string, unknown> = {};
+        for (const [key, value] of entries) {
+          setNested(masked, key, value);
+        }
+        console.log(JSON.stringify(masked, null, 2));
+        return;
+      }
+
+      const output = new OutputFormatter({ format: 'table' });
+      output.output(
+        entries.map(([key, value]) => ({ key, value: formatValue(value) })),
+        `Configuration (${configService.getConfigPath()})`
+      );
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'config list');
+    }
   });
 
 // Test configuration
 export const configTestCommand = new Command('test')
   .description('Test configuration and provider connections')
   .option('--provider <provider>', 'Test specific provider (google|vertex_ai)')
+  .option('--format <format>', 'Output format (table|json)', 'table')
   .action(async (options) => {
-    // Placeholder - will be implemented
-    console.log('Testing configuration');
-    console.log('Options:', options);
-    console.log('This command will be implemented in the next phase.');
+    const progress = new ProgressManager();
+
+    try {
+      progress.startGlobal('Loading configuration...');
+
+      const configService = ConfigService.getInstance();
+      await configService.loadConfig();
+
+      const visionService = VisionService.getInstance();
+      const available = await visionService.getAvailableProviders();
+      const providers = options.provider ? [options.provider] : available;
+
+      if (providers.length === 0) {
+        progress.failGlobal('No providers are configured');
+        console.log(chalk.yellow('Run "ai-vision init" or set GEMINI_API_KEY / VERTEX_CREDENTIALS to configure a provider.'));
+        process.exitCode = 1;
+        return;
+      }
+
+      const report: Array<{ provider: string; status: string; responseTime?: number; message?: string }> = [];
+
+      for (const provider of providers) {
+        progress.updateGlobal(`Testing ${provider}...`);
+        const startTime = Date.now();
+
+        try {
+          if (!available.includes(provider)) {
+            throw new Error('Provider is not configured');
+          }
+
+          const health = await visionService.healthCheck(provider);
+          report.push({
+            provider,
+            status: health.status === 'healthy' ? 'pass' : 'fail',
+            responseTime: health.responseTime ?? Date.now() - startTime,
+            message: health.message,
+          });
+        } catch (error) {
+          report.push({
+            provider,
+            status: 'fail',
+            responseTime: Date.now() - startTime,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const failed = report.filter(entry => entry.status !== 'pass').length;
+      if (failed > 0) {
+        progress.failGlobal(`${failed} of ${report.length} provider checks failed`);
+        process.exitCode = 1;
+      } else {
+        progress.succeedGlobal(`All ${report.length} provider checks passed`);
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        const output = new OutputFormatter({ format: 'table' });
+        output.output(report.map(entry => ({
+          provider: entry.provider,
+          result: entry.status === 'pass' ? 'PASS' : 'FAIL',
+          'time (ms)': entry.responseTime ?? '',
+          message: entry.message ?? '',
+        })));
+      }
+    } catch (error) {
+      progress.failGlobal('Configuration test failed');
+      handleError(error instanceof Error ? error : new Error(String(error)), 'config test');
+    } finally {
+      progress.stopAll();
+    }
   });
 
+// Helper functions
+
+/**
+ * Mask credential values, keeping only a short suffix for identification
+ */
+function maskValue(key: string, value: unknown): unknown {
+  if (typeof value === 'string' && value.length > 0 && SECRET_KEYS.includes(key)) {
+    return value.length <= 8 ? '****' : `****${value.slice(-4)}`;
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const masked: Record<string, unknown> = {};
+    for (const [childKey, childValue] of Object.entries(value)) {
+      masked[childKey] = maskValue(`${key}.${childKey}`, childValue);
+    }
+    return masked;
+  }
+
+  return value;
+}
+
+function flattenConfig(obj: Record<string, unknown>, prefix = ''): Array<[string, unknown]> {
+  const entries: Array<[string, unknown]> = [];
+
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      entries.push(...flattenConfig(value as Record<string, unknown>, fullKey));
+    } else {
+      entries.push([fullKey, value]);
+    }
+  }
+
+  return entries;
+}
+
+function setNested(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = target;
+
+  for (const key of keys.slice(0, -1)) {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return String(value);
+}
+
 // Add subcommands to config command
 configCommand.addCommand(configGetCommand);
 configCommand.addCommand(configSetCommand);
 configCommand.addCommand(configListCommand);
-configCommand.addCommand(configTestCommand);
\ No newline at end of file
+configCommand.addCommand(configTestCommand);
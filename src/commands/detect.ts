@@ -3,8 +3,25 @@ import { VisionService } from '../services/VisionService.js';
 import { OutputFormatter } from '../utils/output-formatter.js';
 import { ProgressManager } from '../utils/progress.js';
 import { handleError } from '../utils/error-handler.js';
-import { CLIAnalysisResult } from '../types/index.js';
-import { ImageAnnotator } from '../utils/imageAnnotator.js';
+import { formatCost } from '../utils/pricing.js';
+import { printRequestPreview } from '../utils/request-preview.js';
+import { formatParameterExplanation } from '../config/parameter-resolver.js';
+import { parseSafetyFlag } from '../config/safety-settings.js';
+import { cacheModeFromFlags } from '../utils/response-cache.js';
+import { CLIAnalysisResult, ValidationError, type AnalysisResult } from '../types/index.js';
+import { ImageAnnotator, parseAnnotationStyle, type AnnotationOptions } from '../utils/imageAnnotator.js';
+import {
+  getDefaultSystemInstruction,
+  createDetectionSchema,
+  parseDetections,
+  mapDetectionsToOriginal,
+  applyFilters,
+  parseFilterOptions,
+  toDetectionRows,
+  getImageDimensions,
+} from '../utils/detection-utils.js';
+import { parseExportFormat, exportDetections, writeDetectionExport } from '../utils/detection-export.js';
+import { validateTilingOptions, DEFAULT_TILE_OVERLAP, type TilingOptions } from '../utils/tiled-detection.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -18,12 +35,21 @@ export const detectObjectsCommand = new Command('objects')
   .option('-p, --prompt <prompt>', 'Detection prompt', 'Detect all objects in this image')
   .option('-o, --output <format>', 'Output format (json|text|table)', 'json')
   .option('-s, --save <path>', 'Save output to file')
-  .option('--save-image <path>', 'Save annotated image to file')
-  .option('--annotation-color <color>', 'Bounding box color (red, green, blue, yellow)', 'red')
+  .option('--save-image <path>', 'Save annotated image to file (.svg writes an overlay, .html an interactive page)')
+  .option('--annotation-color <color>', 'Draw every bounding box in this color instead of one color per object type')
+  .option('--palette <name>', 'Per-type box colors (default|colorblind|single)')
+  .option('--fill-opacity <value>', 'Fill boxes with their color at this opacity (0-1)', parseFloat)
+  .option('--legend', 'Add a legend of object types and counts')
   .option('--min-confidence <value>', 'Minimum confidence threshold (0-1)', parseFloat)
-  .option('--max-objects <count>', 'Maximum number of objects to detect', parseInt)
+  .option('--max-objects <count>', 'Maximum number of objects to detect; the most confident are kept', parseInt)
+  .option('--types <list>', 'Only keep these comma-separated object types')
+  .option('--exclude-types <list>', 'Drop these comma-separated object types')
+  .option('--tile <size>', 'Detect on overlapping tiles of this many pixels and merge the results (for high-resolution images)', parseInt)
+  .option('--overlap <px>', `Pixels shared by neighbouring tiles (default: ${DEFAULT_TILE_OVERLAP})`, parseInt)
   .option('--web-context', 'Enable web context-aware detection')
   .option('--no-annotations', 'Disable visual annotations')
+  .option('--export-format <format>', 'Also export the detections as a dataset (coco|yolo|voc|csv|labelstudio)')
+  .option('--export-dir <dir>', 'Directory for --export-format files (default: <format>-export)')
   .option('-t, --temperature <temp>', 'AI temperature (0-1)', parseFloat)
   .option('--max-tokens <tokens>', 'Maximum output tokens', parseInt)
   .option('--top-p <value>', 'Top P value (0-1)', parseFloat)
@@ -33,7 +59,15 @@ export const detectObjectsCommand = new Command('objects')
   .option('--files-threshold <bytes>', 'Custom file upload threshold', parseInt)
   .option('--no-progress', 'Disable progress indicators', false)
   .option('--verbose', 'Enable detailed debug output')
+  .option('--explain-params', 'Print which flag, env var or config setting each generation parameter came from')
   .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('-m, --model <model>', 'Model to use, overriding settings.models and settings.image_model')
+  .option('--safety <settings>', 'Safety thresholds: category=threshold pairs or one threshold for all (overrides settings.safety)')
+  .option('--no-cache', 'Always call the provider and do not cache the response')
+  .option('--refresh', 'Call the provider and replace the cached response')
+  .option('--offline', 'Only serve cached responses; fail instead of calling the provider')
+  .option('--no-preprocess', 'Send images unchanged instead of orienting, downscaling and converting them')
+  .option('--dry-run', 'Show the request that would be sent and its prompt token count without generating anything')
   .action(async (image, options) => {
     const progress = new ProgressManager(options.noProgress);
     const output = new OutputFormatter({
@@ -43,6 +77,21 @@ export const detectObjectsCommand = new Command('objects')
     });
 
     try {
+      const filters = parseFilterOptions(options);
+      const annotationStyle = parseAnnotationStyle(options);
+      const exportFormat = options.exportFormat ? parseExportFormat(options.exportFormat) : undefined;
+
+      let tiling: TilingOptions | undefined;
+      if (options.tile !== undefined) {
+        tiling = { tileSize: options.tile, overlap: options.overlap ?? DEFAULT_TILE_OVERLAP };
+        validateTilingOptions(tiling);
+        if (options.dryRun) {
+          throw new ValidationError('--dry-run previews a single request and cannot be combined with --tile', 'tile');
+        }
+      } else if (options.overlap !== undefined) {
+        throw new ValidationError('--overlap needs --tile', 'overlap');
+      }
+
       progress.startGlobal('Detecting objects');
 
       // Initialize vision service
@@ -50,8 +99,12 @@ export const detectObjectsCommand = new Command('objects')
 
       const analysisOptions = {
         functionName: 'detect_objects_in_image' as const,
-        temperature: options.temperature || 0, // Use low temperature for deterministic detection
-        maxTokens: options.maxTokens || 2048,
+        model: options.model,
+        safetySettings: options.safety ? parseSafetyFlag(options.safety) : undefined,
+        cacheMode: cacheModeFromFlags(options),
+        preprocessing: options.preprocess ? undefined : (false as const),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
         topP: options.topP,
         topK: options.topK,
         systemInstruction: options.systemInstruction || getDefaultSystemInstruction(options.webContext),
@@ -62,45 +115,66 @@ export const detectObjectsCommand = new Command('objects')
         responseSchema: createDetectionSchema('google'),
       };
 
+      const parameters = await visionService.resolveParameters(analysisOptions);
+      if (options.explainParams) {
+        console.error(formatParameterExplanation(parameters, analysisOptions.functionName));
+      }
+
       if (options.verbose) {
         console.log('\n--- Debug Options ---');
         console.log(`Function: ${analysisOptions.functionName}`);
-        console.log(`Temperature: ${analysisOptions.temperature}`);
-        console.log(`Max Tokens: ${analysisOptions.maxTokens}`);
+        console.log(`Temperature: ${parameters.temperature.value}`);
+        console.log(`Max Tokens: ${parameters.maxTokens.value}`);
         console.log(`Web Context: ${options.webContext}`);
         console.log(`Min Confidence: ${options.minConfidence}`);
+        console.log(`Object Types: ${filters.objectTypes?.join(', ') ?? 'all'}`);
+        console.log(`Excluded Types: ${filters.excludeTypes?.join(', ') ?? 'none'}`);
         console.log(`Max Objects: ${options.maxObjects}`);
-        console.log(`Annotation Color: ${options.annotationColor}`);
+        console.log(`Tiling: ${tiling ? `${tiling.tileSize}px tiles, ${tiling.overlap}px overlap` : 'off'}`);
+        console.log(`Annotation Palette: ${annotationStyle.palette}${annotationStyle.color ? ` (${annotationStyle.color})` : ''}`);
         console.log(`Save Annotations: ${!options.noAnnotations}`);
         console.log(`Save Image: ${options.saveImage}`);
         console.log(`System Instruction: ${analysisOptions.systemInstruction?.substring(0, 100)}...`);
       }
 
+      if (options.dryRun) {
+        progress.updateGlobal('Counting prompt tokens...');
+        const preview = await visionService.previewRequest(
+          [image],
+          options.prompt || 'Detect all objects in this image',
+          analysisOptions,
+          options.provider
+        );
+        progress.succeedGlobal('Dry run completed');
+        printRequestPreview(preview, options.output);
+        return;
+      }
+
       progress.updateGlobal('Connecting to AI provider...');
 
-      // Perform object detection
-      const result = await visionService.detectObjects(
-        image,
-        options.prompt || 'Detect all objects in this image',
-        analysisOptions,
-        options.provider
-      );
+      // Perform object detection, on tiles of the image when --tile is set
+      const result: AnalysisResult = tiling
+        ? await visionService.detectObjectsTiled(
+          image,
+          options.prompt || 'Detect all objects in this image',
+          tiling,
+          analysisOptions,
+          options.provider
+        )
+        : await visionService.detectObjects(
+          image,
+          options.prompt || 'Detect all objects in this image',
+          analysisOptions,
+          options.provider
+        );
 
       const processingTime = result.metadata?.processingTime || 0;
 
-      // Parse detection results
-      let detectedObjects;
-      try {
-        detectedObjects = JSON.parse(result.text);
-      } catch (parseError) {
-        throw new Error(`Failed to parse detection results: ${parseError}`);
-      }
+      // Parse detection results, mapped back onto the original image if it was preprocessed
+      const detectedObjects = mapDetectionsToOriginal(parseDetections(result.text), result.metadata.preprocessing?.[0]);
 
-      // Apply confidence and max objects filters
-      const filteredObjects = applyFilters(detectedObjects, {
-        minConfidence: options.minConfidence,
-        maxObjects: options.maxObjects,
-      });
+      // Apply type, confidence and max objects filters
+      const filteredObjects = applyFilters(detectedObjects, filters);
 
       // Create annotated image if requested
       let annotatedImagePath: string | undefined;
@@ -110,7 +184,7 @@ export const detectObjectsCommand = new Command('objects')
           annotatedImagePath = await createAnnotatedImage(
             image,
             filteredObjects,
-            options.annotationColor || 'red',
+            annotationStyle,
             options.saveImage
           );
         } catch (annotationError) {
@@ -129,13 +203,16 @@ export const detectObjectsCommand = new Command('objects')
           detectedObjects: filteredObjects,
           objectCount: filteredObjects.length,
           annotationPath: annotatedImagePath,
-          temperature: analysisOptions.temperature,
-          maxTokens: analysisOptions.maxTokens,
-          topP: analysisOptions.topP,
-          topK: analysisOptions.topK,
+          temperature: parameters.temperature.value,
+          maxTokens: parameters.maxTokens.value,
+          topP: parameters.topP.value,
+          topK: parameters.topK.value,
           webContext: options.webContext,
           minConfidence: options.minConfidence,
           maxObjects: options.maxObjects,
+          objectTypes: filters.objectTypes,
+          excludeTypes: filters.excludeTypes,
+          tiles: result.metadata.tiling?.tiles,
           annotationColor: options.annotationColor,
           timestamp: new Date().toISOString(),
         },
@@ -144,12 +221,21 @@ export const detectObjectsCommand = new Command('objects')
           timestamp: new Date().toISOString(),
           provider: result.metadata.provider,
           model: result.metadata.model,
+          usage: result.metadata.usage,
+          cost: result.metadata.cost,
+          finishReason: result.metadata.finishReason,
+          safetyRatings: result.metadata.safetyRatings,
+          cached: result.metadata.cached,
+          preprocessing: result.metadata.preprocessing,
+          tiling: result.metadata.tiling,
         },
       };
 
       progress.succeedGlobal('Object detection completed');
 
-      output.output(cliResult.result, 'Object Detection Results');
+      // A table lists the objects, one per row
+      const tableRows = options.output === 'table' && filteredObjects.length > 0 ? toDetectionRows(filteredObjects) : undefined;
+      output.output(tableRows ?? cliResult.result, 'Object Detection Results');
 
       if (options.save) {
         await saveResult(cliResult, options.save);
@@ -160,12 +246,25 @@ export const detectObjectsCommand = new Command('objects')
         console.log(`Annotated image saved to: ${annotatedImagePath}`);
       }
 
+      if (exportFormat) {
+        // Boxes are converted with the pixel size of the original image
+        const dimensions = await getImageDimensions(image);
+        const written = await writeDetectionExport(
+          options.exportDir || `${exportFormat}-export`,
+          exportDetections([{ source: image, width: dimensions.width, height: dimensions.height, detections: filteredObjects }], exportFormat)
+        );
+        console.log(`Exported ${filteredObjects.length} object(s) as ${exportFormat} to: ${written.join(', ')}`);
+      }
+
       // Show additional info if verbose
       if (options.verbose) {
         console.log('\n--- Debug Information ---');
         console.log(`Provider: ${result.metadata.provider}`);
         console.log(`Model: ${result.metadata.model}`);
         console.log(`Processing Time: ${processingTime}ms`);
+        if (result.metadata.tiling) {
+          console.log(`Tiles: ${result.metadata.tiling.tiles} (${result.metadata.tiling.detections} detections before merging)`);
+        }
         console.log(`Total Objects Detected: ${detectedObjects.length}`);
         console.log(`Filtered Objects: ${filteredObjects.length}`);
         if (result.metadata.usage) {
@@ -173,6 +272,9 @@ export const detectObjectsCommand = new Command('objects')
           console.log(`Response Tokens: ${result.metadata.usage.candidatesTokenCount}`);
           console.log(`Total Tokens: ${result.metadata.usage.totalTokenCount}`);
         }
+        if (result.metadata.cost) {
+          console.log(`Estimated Cost: ${formatCost(result.metadata.cost.total, result.metadata.cost.currency)} (${result.metadata.cost.pricedModel} pricing)`);
+        }
       }
 
     } catch (error) {
@@ -185,101 +287,10 @@ export const detectObjectsCommand = new Command('objects')
 
 // Helper functions
 
-function getDefaultSystemInstruction(webContext: boolean): string {
-  if (webContext) {
-    return `
-You are a visual detection assistant that names detected objects based on image context.
-
-STEP 1 - DETECT CONTEXT:
-Determine whether the image represents a webpage.
-
-Consider it a webpage if you detect multiple web indicators such as:
-- Browser UI (tabs, address bar, navigation buttons)
-- Web-style layouts (menus, grids, form layouts)
-- HTML controls (inputs, buttons, dropdowns)
-- Web fonts or text rendering
-- Visible URL or webpage content
-
-STEP 2 - NAME ELEMENTS:
-- If the image appears to be a webpage → use HTML element names
-  (e.g., button, input, a, nav, header, section, h1-h6, p, img, video)
-- Otherwise → use general object names based on visual meaning.
-
-STEP 3 - OUTPUT FORMAT:
-Return a valid JSON array (no text outside JSON) with bounding box coordinates.
-`;
-  }
-
-  return `
-You are an object detection assistant. Detect all visible objects in the image and provide their bounding box coordinates.
-
-Return a valid JSON array with:
-{
-  "object": "<object category>",
-  "label": "<description>",
-  "normalized_box_2d": [ymin, xmin, ymax, xmax] // normalized to 0-1000
-}
-
-Bounding box rules:
-- Tightly fit visible area (exclude shadows/whitespace)
-- Avoid overlap when separable
-- Maintain ymin < ymax and xmin < xmax
-- Differentiate duplicates by traits (e.g., color, position)
-`;
-}
-
-function createDetectionSchema(_provider: string): any {
-  return {
-    type: 'array',
-    items: {
-      type: 'object',
-      properties: {
-        object: {
-          type: 'string',
-          description: 'Generic category for detected object element.',
-        },
-        label: {
-          type: 'string',
-          description: 'Descriptive label or instance-specific detail.',
-        },
-        normalized_box_2d: {
-          type: 'array',
-          minItems: 4,
-          maxItems: 4,
-          items: {
-            type: 'integer',
-          },
-          description: 'Bounding box coordinates [ymin, xmin, ymax, xmax], normalized to 0-1000',
-        },
-      },
-      required: ['object', 'label', 'normalized_box_2d'],
-    },
-  };
-}
-
-interface FilterOptions {
-  minConfidence?: number;
-  maxObjects?: number;
-}
-
-function applyFilters(objects: any[], options: FilterOptions): any[] {
-  let filtered = objects;
-
-  // Apply max objects limit
-  if (options.maxObjects && options.maxObjects > 0) {
-    filtered = filtered.slice(0, options.maxObjects);
-  }
-
-  // Note: The current schema doesn't include confidence scores
-  // This would need to be enhanced if the provider supports confidence values
-
-  return filtered;
-}
-
 async function createAnnotatedImage(
   imagePath: string,
   objects: any[],
-  color: string,
+  style: AnnotationOptions,
   outputPath: string
 ): Promise<string> {
   try {
@@ -297,11 +308,11 @@ async function createAnnotatedImage(
 
     // Create annotator instance
     const annotator = new ImageAnnotator({
-      color,
+      ...style,
       lineWidth: 3,
       fontSize: 16,
       showLabels: true,
-      showConfidence: false,
+      showConfidence: true,
       labelBackground: true,
     });
 
@@ -0,0 +1,227 @@
+import { Command } from 'commander';
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import type { UploadedFile } from '../types/index.js';
+import { FileNotFoundError, VisionError } from '../types/index.js';
+import { VisionService } from '../services/VisionService.js';
+import { OutputFormatter, formatBytes } from '../utils/output-formatter.js';
+import { ProgressManager } from '../utils/progress.js';
+import { handleError } from '../utils/error-handler.js';
+import { DURATION_UNITS, parseDuration } from '../utils/duration.js';
+import { toFileId, selectPurgeCandidates } from '../utils/file-utils.js';
+
+export const filesCommand = new Command('files')
+  .description('Manage files uploaded to the provider Files API');
+
+// List uploaded files
+export const filesListCommand = new Command('list')
+  .description('List uploaded files')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('--format <format>', 'Output format (table|json)', 'table')
+  .option('--state <state>', 'Only show files in this state (PROCESSING|ACTIVE|FAILED)')
+  .action(async (options) => {
+    try {
+      const visionService = VisionService.getInstance();
+      let files = await visionService.listAllFiles(options.provider);
+
+      if (options.state) {
+        const state = String(options.state).toUpperCase();
+        files = files.filter(file => file.state === state);
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(files, null, 2));
+        return;
+      }
+
+      if (files.length === 0) {
+        console.log(chalk.gray('No uploaded files'));
+        return;
+      }
+
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+      const output = new OutputFormatter({ format: 'table' });
+      output.output(
+        files.map(toTableRow),
+        `Uploaded files (${files.length}, ${formatBytes(totalSize)})`
+      );
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'files list');
+    }
+  });
+
+// Show metadata for one file
+export const filesGetCommand = new Command('get')
+  .description('Show metadata for an uploaded file')
+  .argument('<id>', 'File ID (e.g. files/abc123) or URI')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('--format <format>', 'Output format (table|json)', 'table')
+  .action(async (id, options) => {
+    try {
+      const file = await findFile(id, options.provider);
+
+      const output = new OutputFormatter({
+        format: options.format === 'json' ? 'json' : 'table',
+        pretty: true,
+      });
+      output.output(file);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'files get');
+    }
+  });
+
+// Download file content
+export const filesDownloadCommand = new Command('download')
+  .description('Download the content of an uploaded file')
+  .argument('<id>', 'File ID (e.g. files/abc123) or URI')
+  .requiredOption('-o, --output <path>', 'Destination file path')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .action(async (id, options) => {
+    const output = new OutputFormatter({ format: 'text' });
+
+    try {
+      const visionService = VisionService.getInstance();
+      const buffer = await visionService.downloadFile(toFileId(id), options.provider);
+
+      const destination = path.resolve(options.output);
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.writeFile(destination, buffer);
+
+      output.success(`Downloaded ${toFileId(id)} to ${destination} (${formatBytes(buffer.length)})`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'files download');
+    }
+  });
+
+// Delete a file
+export const filesDeleteCommand = new Command('delete')
+  .description('Delete an uploaded file')
+  .argument('<id>', 'File ID (e.g. files/abc123) or URI')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .action(async (id, options) => {
+    const output = new OutputFormatter({ format: 'text' });
+
+    try {
+      const visionService = VisionService.getInstance();
+      await visionService.deleteFile(toFileId(id), options.provider);
+      output.success(`Deleted ${toFileId(id)}`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'files delete');
+    }
+  });
+
+// Delete old or failed files in bulk
+export const filesPurgeCommand = new Command('purge')
+  .description('Delete uploaded files older than a given age')
+  .requiredOption('--older-than <duration>', 'Minimum file age, e.g. 30m, 12h, 2d (0 for all files)')
+  .option('--state <state>', 'Only purge files in this state (PROCESSING|ACTIVE|FAILED)')
+  .option('--dry-run', 'List the files that would be deleted without deleting them')
+  .option('--provider <provider>', 'AI provider (google|vertex_ai)')
+  .option('--no-progress', 'Disable progress indicators')
+  .action(async (options) => {
+    const progress = new ProgressManager(options.progress !== false);
+    const output = new OutputFormatter({ format: 'text' });
+
+    try {
+      const maxAge = parseDuration(options.olderThan);
+      const state = options.state ? String(options.state).toUpperCase() : undefined;
+
+      progress.startGlobal('Listing uploaded files...');
+      const visionService = VisionService.getInstance();
+      const files = await visionService.listAllFiles(options.provider);
+
+      const candidates = selectPurgeCandidates(files, maxAge, state);
+
+      if (candidates.length === 0) {
+        progress.succeedGlobal(`No files older than ${options.olderThan} found`);
+        return;
+      }
+
+      if (options.dryRun) {
+        progress.succeedGlobal(`${candidates.length} of ${files.length} files would be deleted`);
+        new OutputFormatter({ format: 'table' }).output(candidates.map(toTableRow));
+        return;
+      }
+
+      let deleted = 0;
+      const failures: Array<{ id: string; error: string }> = [];
+
+      for (const file of candidates) {
+        progress.updateGlobal(`Deleting ${file.id} (${deleted + failures.length + 1}/${candidates.length})`);
+        try {
+          await visionService.deleteFile(file.id, options.provider);
+          deleted++;
+        } catch (error) {
+          failures.push({ id: file.id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      if (failures.length > 0) {
+        progress.failGlobal(`Deleted ${deleted} of ${candidates.length} files`);
+        for (const failure of failures) {
+          output.error(`${failure.id}: ${failure.error}`);
+        }
+        process.exitCode = 1;
+      } else {
+        progress.succeedGlobal(`Deleted ${deleted} files`);
+      }
+    } catch (error) {
+      progress.failGlobal('Purge failed');
+      handleError(error instanceof Error ? error : new Error(String(error)), 'files purge');
+    } finally {
+      progress.stopAll();
+    }
+  });
+
+// Helper functions
+
+/**
+ * Look up one file by ID or URI, reporting a missing file as FileNotFoundError
+ */
+async function findFile(id: string, provider?: 'google' | 'vertex_ai'): Promise<UploadedFile> {
+  const fileId = toFileId(id);
+
+  try {
+    return await VisionService.getInstance().getFile(fileId, provider);
+  } catch (error) {
+    if (error instanceof VisionError && error.statusCode === 404) {
+      throw new FileNotFoundError(fileId, provider);
+    }
+    throw error;
+  }
+}
+
+function toTableRow(file: UploadedFile): Record<string, string> {
+  return {
+    id: file.id,
+    name: file.displayName || file.filename,
+    type: file.mimeType,
+    size: formatBytes(file.size),
+    state: file.state || '',
+    created: file.createTime || '',
+    expires: formatExpiry(file.expirationTime),
+  };
+}
+
+function formatExpiry(expirationTime?: string): string {
+  if (!expirationTime) {
+    return '';
+  }
+
+  const remaining = new Date(expirationTime).getTime() - Date.now();
+  if (remaining <= 0) {
+    return 'expired';
+  }
+
+  const hours = Math.floor(remaining / DURATION_UNITS.h);
+  const minutes = Math.floor((remaining % DURATION_UNITS.h) / DURATION_UNITS.m);
+  return `in ${hours}h ${minutes}m`;
+}
+
+// Add subcommands to files command
+filesCommand.addCommand(filesListCommand);
+filesCommand.addCommand(filesGetCommand);
+filesCommand.addCommand(filesDownloadCommand);
+filesCommand.addCommand(filesDeleteCommand);
+filesCommand.addCommand(filesPurgeCommand);
@@ -0,0 +1,199 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { VisionService } from '../services/VisionService.js';
+import { HealthChecker, type HealthCheckResult } from '../utils/health-checker.js';
+import { OutputFormatter } from '../utils/output-formatter.js';
+import { handleError } from '../utils/error-handler.js';
+
+type OverallStatus = HealthCheckResult['status'];
+
+export const healthCommand = new Command('health')
+  .description('Check provider health (exits non-zero when a provider is unhealthy)')
+  .option('--provider <provider>', 'Check a specific provider (google|vertex_ai)')
+  .option('--watch', 'Keep checking until interrupted')
+  .option('--interval <seconds>', 'Seconds between checks in watch mode', parseFloat, 30)
+  .option('--timeout <seconds>', 'Timeout for each provider check', parseFloat, 10)
+  .option('--json', 'Output results as JSON')
+  .action(async (options) => {
+    try {
+      if (!(options.interval > 0) || !(options.timeout > 0)) {
+        throw new Error('--interval and --timeout must be positive numbers');
+      }
+
+      const checker = new HealthChecker({
+        timeout: options.timeout * 1000,
+        // Every round must hit the provider, never a cached result
+        enableCaching: false,
+      });
+      const { registered, unavailable } = await registerProviders(checker, options.provider);
+
+      if (registered.length === 0 && unavailable.size === 0) {
+        console.log(chalk.yellow('No providers are configured. Run "ai-vision init" or set GEMINI_API_KEY / VERTEX_CREDENTIALS.'));
+        process.exitCode = 1;
+        return;
+      }
+
+      const runCheck = async (): Promise<OverallStatus> => {
+        const results: HealthCheckResult[] = [];
+        for (const name of registered) {
+          results.push(await checker.checkProviderHealth(name));
+        }
+        for (const [name, reason] of unavailable) {
+          results.push(createUnavailableResult(name, reason));
+        }
+
+        const overall = getOverallStatus(results);
+        renderResults(results, overall, options);
+        return overall;
+      };
+
+      if (!options.watch) {
+        const overall = await runCheck();
+        process.exitCode = overall === 'unhealthy' ? 1 : 0;
+        return;
+      }
+
+      // Watch mode: re-check on an interval until SIGINT/SIGTERM, exiting with the last round's result
+      let stopped = false;
+      let wake: (() => void) | undefined;
+      const stop = () => {
+        stopped = true;
+        wake?.();
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+
+      let overall: OverallStatus = 'healthy';
+      while (!stopped) {
+        overall = await runCheck();
+        if (stopped) {
+          break;
+        }
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, options.interval * 1000);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+
+      process.removeListener('SIGINT', stop);
+      process.removeListener('SIGTERM', stop);
+      checker.destroy();
+      process.exitCode = overall === 'unhealthy' ? 1 : 0;
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'health');
+    }
+  });
+
+// Helper functions
+
+/**
+ * Register the configured providers with the checker. Requested providers that
+ * cannot be created are reported as unhealthy instead of aborting the check.
+ */
+async function registerProviders(
+  checker: HealthChecker,
+  requested?: 'google' | 'vertex_ai'
+): Promise<{ registered: string[]; unavailable: Map<string, string> }> {
+  const visionService = VisionService.getInstance();
+  const unavailable = new Map<string, string>();
+  let available: string[];
+
+  try {
+    available = await visionService.getAvailableProviders();
+  } catch (error) {
+    unavailable.set(requested ?? 'providers', error instanceof Error ? error.message : String(error));
+    return { registered: [], unavailable };
+  }
+
+  const names = requested ? [requested] : available;
+  const registered: string[] = [];
+
+  for (const name of names) {
+    if (!available.includes(name)) {
+      unavailable.set(name, 'Provider is not configured');
+      continue;
+    }
+    checker.addProvider(name, await visionService.getProvider(name as 'google' | 'vertex_ai'));
+    registered.push(name);
+  }
+
+  return { registered, unavailable };
+}
+
+function createUnavailableResult(provider: string, reason: string): HealthCheckResult {
+  return {
+    provider,
+    status: 'unhealthy',
+    responseTime: 0,
+    lastCheck: new Date(),
+    details: {
+      authentication: false,
+      connectivity: false,
+      endpointAvailable: false,
+      serviceSpecific: {},
+      performance: {
+        averageResponseTime: 0,
+        successRate: 0,
+        totalChecks: 0,
+        consecutiveFailures: 0,
+      },
+    },
+    error: reason,
+  };
+}
+
+function getOverallStatus(results: HealthCheckResult[]): OverallStatus {
+  if (results.some(result => result.status === 'unhealthy')) {
+    return 'unhealthy';
+  }
+  if (results.some(result => result.status === 'degraded')) {
+    return 'degraded';
+  }
+  return 'healthy';
+}
+
+function renderResults(
+  results: HealthCheckResult[],
+  overall: OverallStatus,
+  options: { json?: boolean; watch?: boolean }
+): void {
+  const timestamp = new Date().toISOString();
+
+  if (options.json) {
+    const report = { status: overall, timestamp, providers: results };
+    // One line per round in watch mode so the stream can be consumed as NDJSON
+    console.log(options.watch ? JSON.stringify(report) : JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (options.watch && process.stdout.isTTY) {
+    console.clear();
+  }
+
+  const output = new OutputFormatter({ format: 'table' });
+  output.output(results.map(result => ({
+    provider: result.provider,
+    status: result.status.toUpperCase(),
+    'time (ms)': String(result.responseTime),
+    auth: formatCheck(result.details.authentication),
+    connectivity: formatCheck(result.details.connectivity),
+    endpoint: formatCheck(result.details.endpointAvailable),
+    'rate limit': result.details.rateLimitStatus
+      ? `${result.details.rateLimitStatus.remaining}/${result.details.rateLimitStatus.limit}`
+      : '-',
+    'success rate': result.details.performance.totalChecks > 0
+      ? `${Math.round(result.details.performance.successRate * 100)}%`
+      : '-',
+    message: result.error ?? '',
+  })), `Provider health (${timestamp})`);
+
+  const color = overall === 'healthy' ? chalk.green : overall === 'degraded' ? chalk.yellow : chalk.red;
+  console.log(color(`Overall status: ${overall.toUpperCase()}`));
+}
+
+function formatCheck(passed: boolean): string {
+  return passed ? 'ok' : 'FAIL';
+}
@@ -0,0 +1,155 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import { ConfigService } from '../config/ConfigService.js';
+import { ValidationError } from '../types/index.js';
+import { MetricsStore, writeFileAtomic } from '../utils/metrics-store.js';
+import { OutputFormatter } from '../utils/output-formatter.js';
+import { handleError } from '../utils/error-handler.js';
+
+export const metricsCommand = new Command('metrics')
+  .description('Show and export request metrics recorded across invocations');
+
+// Show a summary of recorded metrics
+export const metricsShowCommand = new Command('show')
+  .description('Show request counts, latency, tokens and errors per provider')
+  .option('--provider <provider>', 'Only show one provider (google|vertex_ai)')
+  .option('--format <format>', 'Output format (table|json)', 'table')
+  .action(async (options) => {
+    try {
+      const store = await createStore();
+      const collector = store.load();
+
+      try {
+        const providers = collector.getTrackedProviders()
+          .filter(provider => !options.provider || provider === options.provider);
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(providers.map(provider => ({
+            ...collector.getProviderMetrics(provider),
+            retries: collector.getCounterValue(`retries.${provider}`),
+            errors: Object.fromEntries(
+              collector.getCounterNames(`errors.${provider}.`)
+                .map(name => [name.split('.')[2], collector.getCounterValue(name)])
+            ),
+            operations: Object.fromEntries(
+              collector.getTrackedOperations(provider)
+                .map(operation => [operation, collector.getPerformanceMetrics(provider, operation)])
+            ),
+          })), null, 2));
+          return;
+        }
+
+        if (providers.length === 0) {
+          console.log(chalk.gray(`No metrics recorded yet (${store.getFilePath()})`));
+          return;
+        }
+
+        const output = new OutputFormatter({ format: 'table' });
+        const requestRows = providers.flatMap(provider =>
+          collector.getTrackedOperations(provider).map(operation => {
+            const performance = collector.getPerformanceMetrics(provider, operation);
+            return {
+              provider,
+              operation,
+              requests: String(performance.requestCount),
+              errors: String(performance.errorCount),
+              'success rate': `${Math.round(performance.successRate * 100)}%`,
+              'avg ms': String(Math.round(performance.averageResponseTime)),
+              'p95 ms': String(Math.round(performance.p95ResponseTime)),
+              tokens: String(collector.getHistogram(`tokens.${provider}.${operation}`)?.sum ?? 0),
+            };
+          })
+        );
+        output.output(
+          requestRows,
+          `Requests since ${collector.getStartTime().toISOString()} (latency percentiles cover the retention period)`
+        );
+
+        const providerRows = providers.map(provider => {
+          const metrics = collector.getProviderMetrics(provider);
+          return {
+            provider,
+            requests: String(metrics.totalRequests),
+            tokens: String(metrics.totalTokensUsed),
+            retries: String(collector.getCounterValue(`retries.${provider}`)),
+            'rate limit hits': String(metrics.rateLimitHits),
+          };
+        });
+        output.output(providerRows, 'Providers');
+
+        const errorRows = providers.flatMap(provider =>
+          collector.getCounterNames(`errors.${provider}.`).map(name => ({
+            provider,
+            code: name.split('.')[2],
+            count: String(collector.getCounterValue(name)),
+          }))
+        );
+        if (errorRows.length > 0) {
+          output.output(errorRows, 'Errors');
+        }
+      } finally {
+        collector.destroy();
+      }
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'metrics show');
+    }
+  });
+
+// Export metrics for monitoring systems
+export const metricsExportCommand = new Command('export')
+  .description('Export metrics as Prometheus text or JSON')
+  .option('--format <format>', 'Export format (prometheus|json); defaults to metrics.export_format')
+  .option('-o, --output <path>', 'Write to a file atomically (e.g. a node_exporter textfile collector .prom file)')
+  .action(async (options) => {
+    try {
+      const configService = ConfigService.getInstance();
+      const metricsConfig = await configService.getMetricsConfig();
+      const format = options.format ?? metricsConfig.export_format;
+
+      if (format !== 'prometheus' && format !== 'json') {
+        throw new ValidationError(`Unsupported export format "${format}". Use prometheus or json`, 'format');
+      }
+
+      const store = await createStore();
+      const collector = store.load();
+      const content = format === 'prometheus' ? collector.exportPrometheus() : `${collector.exportMetrics()}\n`;
+      collector.destroy();
+
+      if (!options.output) {
+        process.stdout.write(content);
+        return;
+      }
+
+      const destination = path.resolve(options.output);
+      writeFileAtomic(destination, content);
+      new OutputFormatter({ format: 'text' }).success(`Exported ${format} metrics to ${destination}`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'metrics export');
+    }
+  });
+
+// Delete persisted metrics
+export const metricsResetCommand = new Command('reset')
+  .description('Delete all recorded metrics')
+  .action(async () => {
+    try {
+      const store = await createStore();
+      store.reset();
+      new OutputFormatter({ format: 'text' }).success(`Metrics reset (${store.getFilePath()})`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'metrics reset');
+    }
+  });
+
+// Helper functions
+
+async function createStore(): Promise<MetricsStore> {
+  const metricsConfig = await ConfigService.getInstance().getMetricsConfig();
+  return new MetricsStore(undefined, metricsConfig.retention_period);
+}
+
+// Add subcommands to metrics command
+metricsCommand.addCommand(metricsShowCommand);
+metricsCommand.addCommand(metricsExportCommand);
+metricsCommand.addCommand(metricsResetCommand);
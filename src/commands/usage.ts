@@ -0,0 +1,238 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import { ConfigService } from '../config/ConfigService.js';
+import { ValidationError } from '../types/index.js';
+import { UsageLedger, describeBudget, type LedgerEntry } from '../utils/usage-ledger.js';
+import { writeFileAtomic } from '../utils/metrics-store.js';
+import { OutputFormatter, convertToCSV } from '../utils/output-formatter.js';
+import { formatCost } from '../utils/pricing.js';
+import { handleError } from '../utils/error-handler.js';
+
+interface UsageRow {
+  period: string;
+  provider: string;
+  model: string;
+  requests: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  image_tokens: number;
+  total_tokens: number;
+  cost: number;
+  currency: string;
+}
+
+const CSV_COLUMNS: Array<keyof UsageRow> = [
+  'period', 'provider', 'model', 'requests', 'prompt_tokens', 'output_tokens',
+  'image_tokens', 'total_tokens', 'cost', 'currency',
+];
+
+export const usageCommand = new Command('usage')
+  .description('Report requests, tokens and estimated spend recorded across invocations');
+
+// Report usage per day or month, provider and model
+export const usageReportCommand = new Command('report')
+  .description('Show usage per day or month, provider and model')
+  .option('--since <date>', 'First day to include (YYYY-MM-DD or YYYY-MM)')
+  .option('--until <date>', 'Last day to include (YYYY-MM-DD or YYYY-MM)')
+  .option('--provider <provider>', 'Only include one provider (google|vertex_ai)')
+  .option('--model <model>', 'Only include one model')
+  .option('--by <period>', 'Group rows by day or month', 'day')
+  .option('--format <format>', 'Output format (table|json|csv)', 'table')
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
+  .action(async (options) => {
+    try {
+      if (options.by !== 'day' && options.by !== 'month') {
+        throw new ValidationError(`Unsupported grouping "${options.by}". Use day or month`, 'by');
+      }
+      if (!['table', 'json', 'csv'].includes(options.format)) {
+        throw new ValidationError(`Unsupported format "${options.format}". Use table, json or csv`, 'format');
+      }
+
+      const ledger = new UsageLedger();
+      const entries = ledger.read({
+        since: parseDate(options.since, 'since', 'start'),
+        until: parseDate(options.until, 'until', 'end'),
+        provider: options.provider,
+        model: options.model,
+      });
+      const rows = groupEntries(entries, options.by);
+
+      if (options.format !== 'table') {
+        const content = options.format === 'csv'
+          ? `${rows.length > 0 ? convertToCSV(rows.map(toCsvRow)) : CSV_COLUMNS.join(',')}\n`
+          : `${JSON.stringify(rows, null, 2)}\n`;
+
+        if (!options.output) {
+          process.stdout.write(content);
+          return;
+        }
+
+        const destination = path.resolve(options.output);
+        writeFileAtomic(destination, content);
+        new OutputFormatter({ format: 'text' }).success(`Wrote ${rows.length} usage rows to ${destination}`);
+        return;
+      }
+
+      if (rows.length === 0) {
+        console.log(chalk.gray(`No usage recorded yet (${ledger.getFilePath()})`));
+        return;
+      }
+
+      const totals = rows.reduce<UsageRow>(
+        (sum, row) => ({
+          ...sum,
+          requests: sum.requests + row.requests,
+          prompt_tokens: sum.prompt_tokens + row.prompt_tokens,
+          output_tokens: sum.output_tokens + row.output_tokens,
+          image_tokens: sum.image_tokens + row.image_tokens,
+          total_tokens: sum.total_tokens + row.total_tokens,
+          cost: sum.cost + row.cost,
+        }),
+        {
+          period: 'total', provider: '', model: '', requests: 0, prompt_tokens: 0, output_tokens: 0,
+          image_tokens: 0, total_tokens: 0, cost: 0, currency: rows[0].currency,
+        }
+      );
+      // Costs in different currencies cannot be summed
+      const mixedCurrencies = rows.some(row => row.currency !== totals.currency);
+
+      new OutputFormatter({ format: 'table' }).output(
+        [...rows, totals].map(row => ({
+          [options.by]: row.period,
+          provider: row.provider,
+          model: row.model,
+          requests: String(row.requests),
+          'prompt tokens': String(row.prompt_tokens),
+          'output tokens': String(row.output_tokens),
+          'image tokens': String(row.image_tokens),
+          'total tokens': String(row.total_tokens),
+          cost: row === totals && mixedCurrencies ? '-' : formatCost(row.cost, row.currency),
+        })),
+        'Usage'
+      );
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'usage report');
+    }
+  });
+
+// Show budget limits and how much of each is used
+export const usageBudgetCommand = new Command('budget')
+  .description('Show configured budgets and current usage against them')
+  .option('--format <format>', 'Output format (table|json)', 'table')
+  .action(async (options) => {
+    try {
+      const configService = ConfigService.getInstance();
+      const budgets = await configService.getBudgetConfig();
+      const { currency } = await configService.getPricingConfig();
+      const statuses = budgets.enabled ? new UsageLedger().checkBudgets(budgets) : [];
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ action: budgets.action, currency, budgets: statuses }, null, 2));
+        return;
+      }
+
+      if (statuses.length === 0) {
+        console.log(chalk.gray('No budgets configured (see budgets in the config file)'));
+        return;
+      }
+
+      new OutputFormatter({ format: 'table' }).output(
+        statuses.map(status => {
+          const format = (value: number) => (status.metric === 'cost' ? formatCost(value, currency) : String(value));
+          return {
+            period: status.period,
+            metric: status.metric,
+            used: format(status.used),
+            limit: format(status.limit),
+            'used %': `${Math.round(status.ratio * 100)}%`,
+            status: status.exceeded
+              ? (budgets.action === 'block' ? 'blocked' : 'exceeded')
+              : status.ratio >= budgets.warn_threshold ? 'warning' : 'ok',
+          };
+        }),
+        `Budgets (action when reached: ${budgets.action})`
+      );
+
+      for (const status of statuses.filter(candidate => candidate.exceeded)) {
+        console.log(chalk.yellow(describeBudget(status, currency)));
+      }
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'usage budget');
+    }
+  });
+
+// Delete the usage ledger
+export const usageResetCommand = new Command('reset')
+  .description('Delete all recorded usage')
+  .action(async () => {
+    try {
+      const ledger = new UsageLedger();
+      ledger.reset();
+      new OutputFormatter({ format: 'text' }).success(`Usage reset (${ledger.getFilePath()})`);
+    } catch (error) {
+      handleError(error instanceof Error ? error : new Error(String(error)), 'usage reset');
+    }
+  });
+
+// Helper functions
+
+/**
+ * Accept YYYY-MM-DD, or YYYY-MM meaning the first or last day of that month
+ */
+function parseDate(value: string | undefined, field: string, edge: 'start' | 'end'): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+  if (/^\d{4}-\d{2}$/.test(value)) {
+    return `${value}-${edge === 'start' ? '01' : '31'}`;
+  }
+  throw new ValidationError(`Invalid --${field} date "${value}". Use YYYY-MM-DD or YYYY-MM`, field);
+}
+
+function groupEntries(entries: LedgerEntry[], by: 'day' | 'month'): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+
+  for (const entry of entries) {
+    const period = by === 'day' ? entry.date : entry.date.slice(0, 7);
+    const key = [period, entry.provider, entry.model, entry.currency].join('\u0000');
+    const row = rows.get(key) ?? {
+      period,
+      provider: entry.provider,
+      model: entry.model,
+      requests: 0,
+      prompt_tokens: 0,
+      output_tokens: 0,
+      image_tokens: 0,
+      total_tokens: 0,
+      cost: 0,
+      currency: entry.currency,
+    };
+
+    row.requests += entry.requests;
+    row.prompt_tokens += entry.promptTokens;
+    row.output_tokens += entry.outputTokens;
+    row.image_tokens += entry.imageTokens;
+    row.total_tokens += entry.totalTokens;
+    row.cost += entry.cost;
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    a.period.localeCompare(b.period) || a.provider.localeCompare(b.provider) || a.model.localeCompare(b.model)
+  );
+}
+
+function toCsvRow(row: UsageRow): Record<string, string | number> {
+  return Object.fromEntries(
+    CSV_COLUMNS.map(column => [column, column === 'cost' ? row.cost.toFixed(6) : row[column]])
+  );
+}
+
+// Add subcommands to usage command
+usageCommand.addCommand(usageReportCommand, { isDefault: true });
+usageCommand.addCommand(usageBudgetCommand);
+usageCommand.addCommand(usageResetCommand);
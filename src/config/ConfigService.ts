@@ -6,11 +6,41 @@ import { z } from 'zod';
 import {
   CLIConfig,
   EnvironmentConfig,
+  PricingConfig,
+  BudgetConfig,
+  CacheConfig,
+  PreprocessingConfig,
   ConfigFileError,
   ConfigurationError
 } from '../types/index.js';
 import dotenv from 'dotenv';
 import { expandUser } from '../utils/path-utils.js';
+import type { GenerationSettings } from './parameter-resolver.js';
+import { DEFAULT_PRICING } from '../utils/pricing.js';
+
+const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: true,
+  ttl: 7 * 24 * 60 * 60 * 1000, // 7 days
+  max_size: 100 * 1024 * 1024, // 100MB
+};
+
+const DEFAULT_PREPROCESSING_CONFIG: PreprocessingConfig = {
+  enabled: true,
+  auto_orient: true,
+  max_dimension: 3072,
+  max_image_tokens: 0,
+  format: 'auto',
+  quality: 90,
+  strip_alpha: true,
+};
+
+const budgetLimitsSchema = z.object({
+  requests: z.number().int().positive().optional(),
+  tokens: z.number().int().positive().optional(),
+  cost: z.number().positive().optional(),
+});
+
+const blockThresholdSchema = z.enum(['block_none', 'block_only_high', 'block_medium_and_above', 'block_low_and_above', 'off']);
 
 // Configuration schema for validation
 const configSchema = z.object({
@@ -22,14 +52,31 @@ const configSchema = z.object({
     vertex_credentials: z.string().optional(),
     gcs_bucket_name: z.string().optional(),
   }),
+  vertex_ai: z.object({
+    project_id: z.string().optional(),
+    location: z.string().optional(),
+    endpoint: z.string().url().optional(),
+  }).optional(),
   settings: z.object({
     image_model: z.string().optional(),
+    models: z.object({
+      analyze_image: z.string().optional(),
+      compare_images: z.string().optional(),
+      detect_objects_in_image: z.string().optional(),
+    }).optional(),
     temperature: z.number().min(0).max(1).optional(),
     top_p: z.number().min(0).max(1).optional(),
     top_k: z.number().min(1).optional(),
     max_tokens: z.number().positive().optional(),
     output_format: z.enum(['json', 'text', 'table']).optional(),
     progress_bars: z.boolean().optional(),
+    safety: z.object({
+      harassment: blockThresholdSchema.optional(),
+      hate_speech: blockThresholdSchema.optional(),
+      sexually_explicit: blockThresholdSchema.optional(),
+      dangerous_content: blockThresholdSchema.optional(),
+      civic_integrity: blockThresholdSchema.optional(),
+    }).strict().optional(),
   }),
   limits: z.object({
     max_image_size: z.string(),
@@ -81,6 +128,36 @@ const configSchema = z.object({
     retention_period: z.number().min(60000).default(3600000), // 1 hour
     export_format: z.enum(['json', 'prometheus']).default('json'),
   }).optional(),
+  budgets: z.object({
+    enabled: z.boolean().default(true),
+    action: z.enum(['block', 'warn']).default('block'),
+    warn_threshold: z.number().min(0).max(1).default(0.8),
+    daily: budgetLimitsSchema.optional(),
+    monthly: budgetLimitsSchema.optional(),
+  }).optional(),
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    ttl: z.number().int().nonnegative().default(DEFAULT_CACHE_CONFIG.ttl),
+    max_size: z.number().int().positive().default(DEFAULT_CACHE_CONFIG.max_size),
+  }).optional(),
+  preprocessing: z.object({
+    enabled: z.boolean().default(true),
+    auto_orient: z.boolean().default(DEFAULT_PREPROCESSING_CONFIG.auto_orient),
+    max_dimension: z.number().int().nonnegative().default(DEFAULT_PREPROCESSING_CONFIG.max_dimension),
+    max_image_tokens: z.number().int().nonnegative().default(DEFAULT_PREPROCESSING_CONFIG.max_image_tokens),
+    format: z.enum(['auto', 'jpeg', 'png', 'webp']).default(DEFAULT_PREPROCESSING_CONFIG.format),
+    quality: z.number().int().min(1).max(100).default(DEFAULT_PREPROCESSING_CONFIG.quality),
+    strip_alpha: z.boolean().default(DEFAULT_PREPROCESSING_CONFIG.strip_alpha),
+  }).optional(),
+  pricing: z.object({
+    currency: z.string().default('USD'),
+    models: z.record(z.object({
+      input: z.number().nonnegative(),
+      output: z.number().nonnegative(),
+      image: z.number().nonnegative().optional(),
+      cached: z.number().nonnegative().optional(),
+    })).default({}),
+  }).optional(),
 });
 
 export class ConfigService {
@@ -291,20 +368,37 @@ export class ConfigService {
       config.credentials.gcs_bucket_name = env.GCS_BUCKET_NAME;
     }
 
+    // Vertex AI project and endpoint
+    if (env.VERTEX_PROJECT_ID || env.VERTEX_LOCATION || env.VERTEX_ENDPOINT) {
+      config.vertex_ai = { ...config.vertex_ai };
+      if (env.VERTEX_PROJECT_ID) {
+        config.vertex_ai.project_id = env.VERTEX_PROJECT_ID;
+      }
+      if (env.VERTEX_LOCATION) {
+        config.vertex_ai.location = env.VERTEX_LOCATION;
+      }
+      if (env.VERTEX_ENDPOINT) {
+        config.vertex_ai.endpoint = env.VERTEX_ENDPOINT;
+      }
+    }
+
     // Settings
     if (env.IMAGE_MODEL) {
       config.settings.image_model = env.IMAGE_MODEL;
     }
 
-    // Function-specific models (highest priority)
-    if (env.ANALYZE_IMAGE_MODEL) {
-      config.settings.image_model = env.ANALYZE_IMAGE_MODEL;
-    }
-    if (env.COMPARE_IMAGES_MODEL) {
-      config.settings.image_model = env.COMPARE_IMAGES_MODEL;
-    }
-    if (env.DETECT_OBJECTS_IN_IMAGE_MODEL) {
-      config.settings.image_model = env.DETECT_OBJECTS_IN_IMAGE_MODEL;
+    // Function-specific models, used instead of image_model for that function only
+    if (env.ANALYZE_IMAGE_MODEL || env.COMPARE_IMAGES_MODEL || env.DETECT_OBJECTS_IN_IMAGE_MODEL) {
+      config.settings.models = { ...config.settings.models };
+      if (env.ANALYZE_IMAGE_MODEL) {
+        config.settings.models.analyze_image = env.ANALYZE_IMAGE_MODEL;
+      }
+      if (env.COMPARE_IMAGES_MODEL) {
+        config.settings.models.compare_images = env.COMPARE_IMAGES_MODEL;
+      }
+      if (env.DETECT_OBJECTS_IN_IMAGE_MODEL) {
+        config.settings.models.detect_objects_in_image = env.DETECT_OBJECTS_IN_IMAGE_MODEL;
+      }
     }
 
     // AI parameters with hierarchy
@@ -510,13 +604,33 @@ export class ConfigService {
   }
 
   public async setConfigValue(path: string, value: unknown): Promise<void> {
-    const config = await this.loadConfig();
+    const schemaNode = this.getSchemaNode(path);
+    if (!schemaNode) {
+      throw new ConfigurationError(`Configuration path not found: ${path}`, path);
+    }
+    if (schemaNode instanceof z.ZodObject) {
+      throw new ConfigurationError(`Configuration path is a section, set one of its keys instead: ${path}`, path);
+    }
+
+    const validation = schemaNode.safeParse(value);
+    if (!validation.success) {
+      throw new ConfigurationError(
+        `Invalid value for ${path}: ${validation.error.errors.map(e => e.message).join(', ')}`,
+        path
+      );
+    }
+
+    // Work on the file contents only so environment overrides are never persisted
+    const config = await this.loadFileConfig();
     const keys = path.split('.');
 
-    // Navigate to the parent object
+    // Navigate to the parent object, creating optional sections that are missing from the file
     let current: Record<string, unknown> = config as unknown as Record<string, unknown>;
     for (let i = 0; i < keys.length - 1; i++) {
       const key = keys[i];
+      if (current[key] === undefined) {
+        current[key] = {};
+      }
       if (current[key] && typeof current[key] === 'object') {
         current = current[key] as Record<string, unknown>;
       } else {
@@ -526,10 +640,114 @@ export class ConfigService {
 
     // Set the value
     const finalKey = keys[keys.length - 1];
-    current[finalKey] = value;
+    current[finalKey] = validation.data;
 
     // Save the updated config
     await this.saveConfig(config);
+
+    // Drop the cached copy so the next load re-applies environment overrides
+    this.resetCache();
+  }
+
+  /**
+   * Convert a raw CLI string into the type the schema expects at the given path
+   */
+  public coerceConfigValue(path: string, rawValue: string): unknown {
+    const schemaNode = this.getSchemaNode(path);
+    if (!schemaNode) {
+      throw new ConfigurationError(`Configuration path not found: ${path}`, path);
+    }
+
+    const target = this.unwrapSchema(schemaNode);
+
+    if (target instanceof z.ZodNumber) {
+      const parsed = Number(rawValue);
+      if (rawValue.trim() === '' || isNaN(parsed)) {
+        throw new ConfigurationError(`Invalid value for ${path}: expected a number, got "${rawValue}"`, path);
+      }
+      return parsed;
+    }
+
+    if (target instanceof z.ZodBoolean) {
+      const normalized = rawValue.trim().toLowerCase();
+      if (['true', 'yes', 'on', '1'].includes(normalized)) return true;
+      if (['false', 'no', 'off', '0'].includes(normalized)) return false;
+      throw new ConfigurationError(`Invalid value for ${path}: expected true or false, got "${rawValue}"`, path);
+    }
+
+    if (target instanceof z.ZodArray) {
+      const trimmed = rawValue.trim();
+      if (trimmed.startsWith('[')) {
+        try {
+          return JSON.parse(trimmed);
+        } catch {
+          throw new ConfigurationError(`Invalid value for ${path}: malformed JSON array`, path);
+        }
+      }
+      return trimmed.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    }
+
+    return rawValue;
+  }
+
+  /**
+   * Load the configuration file as written, without environment overrides
+   */
+  private async loadFileConfig(): Promise<CLIConfig> {
+    if (!existsSync(this.configPath)) {
+      // A new file starts from the defaults without the generation parameters;
+      // written out, they would pin values that otherwise follow the defaults
+      const config = this.getDefaultConfig();
+      delete config.settings.temperature;
+      delete config.settings.top_p;
+      delete config.settings.top_k;
+      delete config.settings.max_tokens;
+      return config;
+    }
+
+    try {
+      const configData = await fs.readFile(this.configPath, 'utf-8');
+      return configSchema.parse(parseYaml(configData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ConfigFileError(
+          `Invalid configuration: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+          this.configPath,
+          error
+        );
+      }
+      throw new ConfigFileError(
+        `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+        this.configPath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private getSchemaNode(path: string): z.ZodTypeAny | null {
+    let current: z.ZodTypeAny = configSchema;
+
+    for (const key of path.split('.')) {
+      const unwrapped = this.unwrapSchema(current);
+      if (!(unwrapped instanceof z.ZodObject)) {
+        return null;
+      }
+      const shape = unwrapped.shape as Record<string, z.ZodTypeAny>;
+      if (!Object.prototype.hasOwnProperty.call(shape, key)) {
+        return null;
+      }
+      current = shape[key];
+    }
+
+    return current;
+  }
+
+  private unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+    let current = schema;
+    while (current instanceof z.ZodOptional || current instanceof z.ZodDefault) {
+      current = current instanceof z.ZodOptional ? current.unwrap() : current.removeDefault();
+    }
+    return current;
   }
 
   public getConfigPath(): string {
@@ -580,6 +798,55 @@ export class ConfigService {
     return config.metrics ?? this.getDefaultConfig().metrics!;
   }
 
+  /**
+   * Get budget configuration; without a budgets section nothing is limited
+   */
+  public async getBudgetConfig(): Promise<BudgetConfig> {
+    const config = await this.loadConfig();
+    return config.budgets ?? { enabled: false, action: 'block', warn_threshold: 0.8 };
+  }
+
+  /**
+   * Get response cache configuration with defaults
+   */
+  public async getCacheConfig(): Promise<CacheConfig> {
+    const config = await this.loadConfig();
+    return config.cache ?? DEFAULT_CACHE_CONFIG;
+  }
+
+  /**
+   * Get image preprocessing configuration with defaults
+   */
+  public async getPreprocessingConfig(): Promise<PreprocessingConfig> {
+    const config = await this.loadConfig();
+    return config.preprocessing ?? DEFAULT_PREPROCESSING_CONFIG;
+  }
+
+  /**
+   * Get the pricing table: config file entries merged over the built-in prices
+   */
+  public async getPricingConfig(): Promise<PricingConfig> {
+    const config = await this.loadConfig();
+    return {
+      currency: config.pricing?.currency ?? DEFAULT_PRICING.currency,
+      models: { ...DEFAULT_PRICING.models, ...config.pricing?.models },
+    };
+  }
+
+  /**
+   * Get the generation parameters set in the config file. Unlike loadConfig(),
+   * neither defaults nor environment variables are applied, so the parameter
+   * resolver can tell which layer a value came from.
+   */
+  public async getGenerationSettings(): Promise<GenerationSettings> {
+    if (!existsSync(this.configPath)) {
+      return {};
+    }
+
+    const { temperature, top_p, top_k, max_tokens } = (await this.loadFileConfig()).settings;
+    return { temperature, top_p, top_k, max_tokens };
+  }
+
   /**
    * Check if a Phase 5 feature is enabled
    */
@@ -614,15 +881,31 @@ credentials:
   vertex_credentials: ""  # Set via VERTEX_CREDENTIALS env var
   gcs_bucket_name: ""  # Set via GCS_BUCKET_NAME env var
 
+# Vertex AI (project defaults to the service account's project_id)
+vertex_ai:
+  location: us-central1  # Set via VERTEX_LOCATION env var
+  # project_id: my-project  # Set via VERTEX_PROJECT_ID env var
+  # endpoint: https://us-central1-aiplatform.googleapis.com  # Set via VERTEX_ENDPOINT env var
+
 # AI Model Settings
 settings:
   image_model: ""  # Set via IMAGE_MODEL env var
-  temperature: 0.4  # Set via TEMPERATURE_TEMPERATURE env var
-  top_p: 0.95  # Set via TEMPERATURE_TOP_P env var
-  top_k: 32  # Set via TEMPERATURE_TOP_K env var
-  max_tokens: 4096  # Set via TEMPERATURE_MAX_TOKENS env var
+  # models:  # Per-function overrides of image_model
+  #   analyze_image: gemini-2.5-flash-lite  # Set via ANALYZE_IMAGE_MODEL env var
+  #   compare_images: gemini-2.5-flash  # Set via COMPARE_IMAGES_MODEL env var
+  #   detect_objects_in_image: gemini-2.5-pro  # Set via DETECT_OBJECTS_IN_IMAGE_MODEL env var
+  # Left unset so compare and detect keep their own defaults; a value set here applies to every function
+  # temperature: 0.4  # Overridden by TEMPERATURE[_FOR_<FUNCTION>] env vars and CLI flags
+  # top_p: 0.95  # Overridden by TOP_P[_FOR_<FUNCTION>] env vars and CLI flags
+  # top_k: 32  # Overridden by TOP_K[_FOR_<FUNCTION>] env vars and CLI flags
+  # max_tokens: 4096  # Overridden by MAX_TOKENS[_FOR_<FUNCTION>] env vars and CLI flags
   output_format: json  # json, text, or table
   progress_bars: true
+  # safety:  # block_none, block_only_high, block_medium_and_above, block_low_and_above or off; overridden by --safety
+  #   harassment: block_only_high
+  #   hate_speech: block_only_high
+  #   sexually_explicit: block_medium_and_above
+  #   dangerous_content: block_only_high
 
 # File Processing Limits
 limits:
@@ -676,6 +959,38 @@ metrics:
   collection_interval: 10000  # ms, Set via METRICS_COLLECTION_INTERVAL env var
   retention_period: 3600000  # ms (1 hour), Set via METRICS_RETENTION_PERIOD env var
   export_format: json  # json or prometheus, Set via METRICS_EXPORT_FORMAT env var
+
+# Budgets are checked against ~/.ai-vision/usage.json before every request
+# budgets:
+#   action: block  # block or warn once a limit is reached
+#   warn_threshold: 0.8  # warn when 80% of a limit is used
+#   daily: { requests: 500, cost: 5 }
+#   monthly: { tokens: 20000000, cost: 100 }
+
+# Responses are cached in ~/.ai-vision/cache, keyed by image content, prompt,
+# model and generation parameters; bypass with --no-cache or --refresh
+# cache:
+#   enabled: true
+#   ttl: 604800000  # ms (7 days); 0 keeps entries until evicted for space
+#   max_size: 104857600  # bytes (100MB); the oldest entries are evicted first
+
+# Images are oriented, downscaled and converted before they are sent; the
+# transforms are reported in the result metadata. Disable per run with --no-preprocess
+# preprocessing:
+#   enabled: true
+#   auto_orient: true  # apply the EXIF orientation
+#   max_dimension: 3072  # px on the longest side; 0 keeps the size
+#   max_image_tokens: 0  # downscale to an estimated image token budget; 0 for none
+#   format: auto  # auto converts only formats models do not accept; or jpeg, png, webp
+#   quality: 90  # jpeg and webp quality
+#   strip_alpha: true  # flatten transparency onto white
+
+# Cost estimates use built-in list prices; add or override models here
+# (prices per million tokens; image defaults to the input price, cached to a quarter of it)
+# pricing:
+#   currency: USD
+#   models:
+#     gemini-2.5-flash: { input: 0.30, output: 2.50 }
 `;
 
       await fs.writeFile(configPath, yamlContent, 'utf-8');
@@ -0,0 +1,146 @@
+/**
+ * Generation Parameter Resolution
+ *
+ * Resolves temperature, topP, topK and maxTokens for a request. Precedence,
+ * highest first:
+ *   1. CLI flag            (--temperature, --top-p, --top-k, --max-tokens)
+ *   2. Function env var    (TEMPERATURE_FOR_ANALYZE_IMAGE, ...)
+ *   3. Task env var        (TEMPERATURE_FOR_IMAGE, ...)
+ *   4. Global env var      (TEMPERATURE, ...)
+ *   5. Config file         (settings.temperature, ...; the global default
+ *                          value does not replace a function default)
+ *   6. Built-in default    (per function where it differs)
+ */
+
+import type { AnalysisOptions, FunctionName, TaskType } from '../types/index.js';
+
+export type GenerationParameterName = 'temperature' | 'topP' | 'topK' | 'maxTokens';
+
+export type ParameterSource = 'cli' | 'function_env' | 'task_env' | 'global_env' | 'config' | 'default';
+
+export interface ResolvedParameter {
+  value: number;
+  source: ParameterSource;
+  /** The flag, env var or config key the value was read from */
+  origin: string;
+}
+
+export type ResolvedGenerationParameters = Record<GenerationParameterName, ResolvedParameter>;
+
+/**
+ * Generation settings as written in the config file
+ */
+export interface GenerationSettings {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  max_tokens?: number;
+}
+
+export interface ParameterResolutionContext {
+  taskType?: TaskType;
+  functionName?: FunctionName;
+  /** Values given on the command line */
+  options?: Pick<AnalysisOptions, GenerationParameterName>;
+  settings?: GenerationSettings;
+  env?: NodeJS.ProcessEnv;
+}
+
+interface ParameterSpec {
+  flag: string;
+  envPrefix: string;
+  setting: keyof GenerationSettings;
+  integer: boolean;
+}
+
+const PARAMETER_SPECS: Record<GenerationParameterName, ParameterSpec> = {
+  temperature: { flag: '--temperature', envPrefix: 'TEMPERATURE', setting: 'temperature', integer: false },
+  topP: { flag: '--top-p', envPrefix: 'TOP_P', setting: 'top_p', integer: false },
+  topK: { flag: '--top-k', envPrefix: 'TOP_K', setting: 'top_k', integer: true },
+  maxTokens: { flag: '--max-tokens', envPrefix: 'MAX_TOKENS', setting: 'max_tokens', integer: true },
+};
+
+export const PARAMETER_DEFAULTS: Record<GenerationParameterName, number> = {
+  temperature: 0.4,
+  topP: 0.95,
+  topK: 32,
+  maxTokens: 4096,
+};
+
+// Functions whose defaults differ from PARAMETER_DEFAULTS
+const FUNCTION_DEFAULTS: Partial<Record<FunctionName, Partial<Record<GenerationParameterName, number>>>> = {
+  compare_images: { temperature: 0.2 },
+  detect_objects_in_image: { temperature: 0, maxTokens: 2048 },
+};
+
+export function resolveGenerationParameters(context: ParameterResolutionContext = {}): ResolvedGenerationParameters {
+  return {
+    temperature: resolveParameter('temperature', context),
+    topP: resolveParameter('topP', context),
+    topK: resolveParameter('topK', context),
+    maxTokens: resolveParameter('maxTokens', context),
+  };
+}
+
+function resolveParameter(name: GenerationParameterName, context: ParameterResolutionContext): ResolvedParameter {
+  const spec = PARAMETER_SPECS[name];
+  const env = context.env ?? process.env;
+  const taskType = context.taskType ?? 'image';
+
+  const cliValue = context.options?.[name];
+  if (typeof cliValue === 'number' && !isNaN(cliValue)) {
+    return { value: cliValue, source: 'cli', origin: spec.flag };
+  }
+
+  const envLayers: Array<[ParameterSource, string | undefined]> = [
+    ['function_env', context.functionName ? `${spec.envPrefix}_FOR_${context.functionName.toUpperCase()}` : undefined],
+    ['task_env', `${spec.envPrefix}_FOR_${taskType.toUpperCase()}`],
+    ['global_env', spec.envPrefix],
+  ];
+
+  for (const [source, key] of envLayers) {
+    const value = key ? parseNumber(env[key], spec.integer) : undefined;
+    if (value !== undefined) {
+      return { value, source, origin: key! };
+    }
+  }
+
+  const functionDefault = context.functionName ? FUNCTION_DEFAULTS[context.functionName]?.[name] : undefined;
+
+  // Config files written by earlier versions of `config init` and `init` hold
+  // the global defaults; such a value does not replace a function's own default
+  const configValue = context.settings?.[spec.setting];
+  const masksFunctionDefault = functionDefault !== undefined && configValue === PARAMETER_DEFAULTS[name];
+  if (typeof configValue === 'number' && !isNaN(configValue) && !masksFunctionDefault) {
+    return { value: configValue, source: 'config', origin: `settings.${spec.setting}` };
+  }
+
+  return {
+    value: functionDefault ?? PARAMETER_DEFAULTS[name],
+    source: 'default',
+    origin: functionDefault !== undefined ? `${context.functionName} default` : 'default',
+  };
+}
+
+function parseNumber(value: string | undefined, integer: boolean): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = integer ? parseInt(value, 10) : parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Describe where each resolved value came from, one parameter per line
+ */
+export function formatParameterExplanation(
+  resolved: ResolvedGenerationParameters,
+  functionName?: FunctionName
+): string {
+  const lines = [`Generation parameters${functionName ? ` for ${functionName}` : ''}:`];
+  for (const name of Object.keys(PARAMETER_SPECS) as GenerationParameterName[]) {
+    const { value, source, origin } = resolved[name];
+    lines.push(`  ${name.padEnd(12)} ${String(value).padEnd(8)} ${source.padEnd(12)} (${origin})`);
+  }
+  return lines.join('\n');
+}
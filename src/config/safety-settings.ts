@@ -0,0 +1,99 @@
+/**
+ * Safety Settings
+ *
+ * Block thresholds per harm category, from `settings.safety` in the config
+ * file and the `--safety` flag. The flag takes precedence per category;
+ * categories set in neither place keep the provider's default.
+ */
+
+import {
+  ValidationError,
+  type BlockThresholdName,
+  type HarmCategoryName,
+  type SafetySetting,
+} from '../types/index.js';
+
+export const HARM_CATEGORIES = {
+  harassment: 'HARM_CATEGORY_HARASSMENT',
+  hate_speech: 'HARM_CATEGORY_HATE_SPEECH',
+  sexually_explicit: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  dangerous_content: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+  civic_integrity: 'HARM_CATEGORY_CIVIC_INTEGRITY',
+} satisfies Record<HarmCategoryName, string>;
+
+export const BLOCK_THRESHOLDS = {
+  block_none: 'BLOCK_NONE',
+  block_only_high: 'BLOCK_ONLY_HIGH',
+  block_medium_and_above: 'BLOCK_MEDIUM_AND_ABOVE',
+  block_low_and_above: 'BLOCK_LOW_AND_ABOVE',
+  off: 'OFF',
+} satisfies Record<BlockThresholdName, string>;
+
+/**
+ * Safety thresholds as written in the config file, e.g. { harassment: 'block_only_high' }
+ */
+export type SafetyConfig = Partial<Record<HarmCategoryName, BlockThresholdName>>;
+
+/**
+ * Parse a --safety value: comma-separated category=threshold pairs, or a bare
+ * threshold that applies to every category
+ *
+ *   --safety dangerous_content=block_only_high,harassment=block_none
+ *   --safety block_only_high
+ */
+export function parseSafetyFlag(value: string): SafetySetting[] {
+  const settings: SafetyConfig = {};
+
+  for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [category, threshold] = item.includes('=') ? item.split('=', 2) : ['all', item];
+    const thresholdName = normalizeName(threshold);
+    if (!(thresholdName in BLOCK_THRESHOLDS)) {
+      throw new ValidationError(
+        `Unknown safety threshold "${threshold}". Use one of: ${Object.keys(BLOCK_THRESHOLDS).join(', ')}`,
+        'safety'
+      );
+    }
+
+    const categoryName = normalizeName(category);
+    if (categoryName === 'all') {
+      for (const name of Object.keys(HARM_CATEGORIES) as HarmCategoryName[]) {
+        settings[name] = thresholdName as BlockThresholdName;
+      }
+    } else if (categoryName in HARM_CATEGORIES) {
+      settings[categoryName as HarmCategoryName] = thresholdName as BlockThresholdName;
+    } else {
+      throw new ValidationError(
+        `Unknown harm category "${category}". Use one of: ${Object.keys(HARM_CATEGORIES).join(', ')}, all`,
+        'safety'
+      );
+    }
+  }
+
+  return toSafetySettings(settings);
+}
+
+/**
+ * Convert config file thresholds into API safety settings
+ */
+export function toSafetySettings(config: SafetyConfig = {}): SafetySetting[] {
+  return (Object.keys(config) as HarmCategoryName[]).map(category => ({
+    category: HARM_CATEGORIES[category],
+    threshold: BLOCK_THRESHOLDS[config[category]!],
+  }));
+}
+
+/**
+ * Combine settings per category, later lists winning; undefined when none are set
+ */
+export function mergeSafetySettings(...lists: Array<SafetySetting[] | undefined>): SafetySetting[] | undefined {
+  const merged = new Map<string, SafetySetting>();
+  for (const setting of lists.flatMap(list => list ?? [])) {
+    merged.set(setting.category, setting);
+  }
+  return merged.size > 0 ? [...merged.values()] : undefined;
+}
+
+// Accept the API spellings as well, e.g. HARM_CATEGORY_HARASSMENT or BLOCK_ONLY_HIGH
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/^harm_category_/, '').replace(/-/g, '_');
+}
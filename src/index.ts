@@ -7,6 +7,13 @@ import { analyzeCommand } from './commands/analyze.js';
 import { compareCommand } from './commands/compare.js';
 import { detectCommand } from './commands/detect.js';
 import { configCommand } from './commands/config.js';
+import { batchCommand } from './commands/batch.js';
+import { filesCommand } from './commands/files.js';
+import { healthCommand } from './commands/health.js';
+import { metricsCommand } from './commands/metrics.js';
+import { usageCommand } from './commands/usage.js';
+import { cacheCommand } from './commands/cache.js';
+import { annotationsCommand } from './commands/annotations.js';
 import { handleError } from './utils/error-handler.js';
 
 const program = new Command();
@@ -33,6 +40,13 @@ program.addCommand(analyzeCommand);
 program.addCommand(compareCommand);
 program.addCommand(detectCommand);
 program.addCommand(configCommand);
+program.addCommand(batchCommand);
+program.addCommand(filesCommand);
+program.addCommand(healthCommand);
+program.addCommand(metricsCommand);
+program.addCommand(usageCommand);
+program.addCommand(cacheCommand);
+program.addCommand(annotationsCommand);
 
 program.exitOverride((err) => {
   handleError(err);
@@ -51,6 +65,13 @@ if (!process.argv.slice(2).length) {
   console.log('  compare images Compare multiple images');
   console.log('  detect objects Detect objects in an image');
   console.log('  config         Manage configuration');
+  console.log('  batch          Analyze or detect across directories and globs');
+  console.log('  files          Manage files uploaded to the provider');
+  console.log('  health         Check provider health');
+  console.log('  metrics        Show and export request metrics');
+  console.log('  usage          Report token usage and spend, check budgets');
+  console.log('  cache          Show or clear cached responses');
+  console.log('  annotations    Render or convert saved detections');
   console.log('');
   console.log('Features:');
   console.log('  • Advanced error handling with intelligent retry logic');
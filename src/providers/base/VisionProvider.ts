@@ -2,37 +2,56 @@ import type {
   VisionProvider,
   AnalysisOptions,
   AnalysisResult,
+  AnalysisStream,
+  RequestPreview,
+  ImagePreview,
+  ImagePreprocessing,
   UploadedFile,
+  FileListResult,
   HealthStatus,
   ProviderCapabilities,
   ModelCapabilities,
   ProviderInfo,
   AnalysisMetadata,
   UsageMetadata,
+  ApiUsageMetadata,
+  ApiSafetyFeedback,
+  TaskType,
+  FunctionName,
 } from '../../types/index.js';
-import type { GeminiConfig } from '../../types/index.js';
+import type { GeminiConfig, VertexAIConfig } from '../../types/index.js';
+import { resolveGenerationParameters } from '../../config/parameter-resolver.js';
+import { ContentBlockedError } from '../../types/index.js';
+
+// Finish reasons meaning the response was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
 
 export abstract class BaseVisionProvider implements VisionProvider {
-  protected config: GeminiConfig;
+  protected config: GeminiConfig | VertexAIConfig;
   protected imageModel: string;
   protected providerName: string;
 
-  constructor(config: GeminiConfig, providerName: string) {
+  constructor(config: GeminiConfig | VertexAIConfig, providerName: string) {
     this.config = config;
     this.providerName = providerName;
     this.imageModel = config.imageModel;
   }
 
-    protected buildConfigWithOptions(
-    taskType: 'image',
-    functionName?: string,
+  /**
+   * Build the generation config for a request. Parameters passed in options
+   * take precedence over env vars and defaults (see parameter-resolver).
+   */
+  protected buildConfigWithOptions(
+    taskType: TaskType,
+    functionName?: FunctionName,
     options?: AnalysisOptions
   ): any {
+    const parameters = resolveGenerationParameters({ taskType, functionName, options });
     const config: any = {
-      temperature: this.resolveTemperatureForFunction(taskType, functionName),
-      topP: this.resolveTopPForFunction(taskType, functionName),
-      topK: this.resolveTopKForFunction(taskType, functionName),
-      maxOutputTokens: this.resolveMaxTokensForFunction(taskType, functionName),
+      temperature: parameters.temperature.value,
+      topP: parameters.topP.value,
+      topK: parameters.topK.value,
+      maxOutputTokens: parameters.maxTokens.value,
       candidateCount: 1,
     };
 
@@ -52,99 +71,124 @@ export abstract class BaseVisionProvider implements VisionProvider {
     return config;
   }
 
-    protected resolveTemperatureForFunction(
-    taskType: 'image',
-    functionName?: string
-  ): number {
-    const envKey = functionName
-      ? `TEMPERATURE_FOR_${functionName.toUpperCase()}`
-      : undefined;
-
-    if (envKey && process.env[envKey]) {
-      return parseFloat(process.env[envKey]);
-    }
-
-    const taskKey = `TEMPERATURE_FOR_${taskType.toUpperCase()}`;
-    if (process.env[taskKey]) {
-      return parseFloat(process.env[taskKey]);
-    }
-
-    if (process.env.TEMPERATURE) {
-      return parseFloat(process.env.TEMPERATURE);
-    }
-    return 0.4;
+  /**
+   * Model for a request: the per-request override, else the provider's image model
+   */
+  protected resolveModel(options?: AnalysisOptions): string {
+    return options?.model || this.imageModel;
   }
 
-  protected resolveTopPForFunction(
-    taskType: 'image',
-    functionName?: string
-  ): number {
-    const envKey = functionName
-      ? `TOP_P_FOR_${functionName.toUpperCase()}`
-      : undefined;
-
-    if (envKey && process.env[envKey]) {
-      return parseFloat(process.env[envKey]);
-    }
+  /**
+   * Normalize API token counts; missing counts are reported as zero
+   */
+  protected toUsageMetadata(usage?: ApiUsageMetadata): UsageMetadata {
+    const result: UsageMetadata = {
+      promptTokenCount: usage?.promptTokenCount || 0,
+      candidatesTokenCount: usage?.candidatesTokenCount || 0,
+      totalTokenCount: usage?.totalTokenCount || 0,
+    };
 
-    const taskKey = `TOP_P_FOR_${taskType.toUpperCase()}`;
-    if (process.env[taskKey]) {
-      return parseFloat(process.env[taskKey]);
+    const imageDetails = usage?.promptTokensDetails?.filter(detail => detail.modality === 'IMAGE');
+    if (imageDetails?.length) {
+      result.imageTokenCount = imageDetails.reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
     }
 
-    if (process.env.TOP_P) {
-      return parseFloat(process.env.TOP_P);
+    if (usage?.cachedContentTokenCount) {
+      result.cachedTokenCount = usage.cachedContentTokenCount;
     }
 
-    return 0.95;
+    return result;
   }
 
-  protected resolveTopKForFunction(
-    taskType: 'image',
-    functionName?: string
-  ): number {
-    const envKey = functionName
-      ? `TOP_K_FOR_${functionName.toUpperCase()}`
-      : undefined;
-
-    if (envKey && process.env[envKey]) {
-      return parseInt(process.env[envKey]);
+  /**
+   * Throw ContentBlockedError when the prompt or the response was blocked
+   */
+  protected assertNotBlocked(response: ApiSafetyFeedback): void {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      const detail = response.promptFeedback?.blockReasonMessage;
+      throw new ContentBlockedError(
+        `Prompt was blocked by ${this.providerName} (${blockReason})${detail ? `: ${detail}` : ''}`,
+        this.providerName,
+        blockReason
+      );
     }
 
-    const taskKey = `TOP_K_FOR_${taskType.toUpperCase()}`;
-    if (process.env[taskKey]) {
-      return parseInt(process.env[taskKey]);
+    const candidate = response.candidates?.[0];
+    if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+      const ratings = candidate.safetyRatings ?? [];
+      const flagged = ratings
+        .filter(rating => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM')
+        .map(rating => `${rating.category} ${rating.probability}`);
+      throw new ContentBlockedError(
+        `Response was blocked by ${this.providerName} (${candidate.finishReason})${flagged.length ? `: ${flagged.join(', ')}` : ''}`,
+        this.providerName,
+        undefined,
+        candidate.finishReason,
+        ratings
+      );
     }
-
-    if (process.env.TOP_K) {
-      return parseInt(process.env.TOP_K);
-    }
-
-    return 32;
   }
 
-  protected resolveMaxTokensForFunction(
-    taskType: 'image',
-    functionName?: string
-  ): number {
-    const envKey = functionName
-      ? `MAX_TOKENS_FOR_${functionName.toUpperCase()}`
-      : undefined;
-
-    if (envKey && process.env[envKey]) {
-      return parseInt(process.env[envKey]);
+  /**
+   * Copy the finish reason and safety ratings of the first candidate into the result
+   */
+  protected withSafetyMetadata(result: AnalysisResult, response: ApiSafetyFeedback): AnalysisResult {
+    const candidate = response.candidates?.[0];
+    if (candidate?.finishReason) {
+      result.metadata.finishReason = candidate.finishReason;
     }
-
-    const taskKey = `MAX_TOKENS_FOR_${taskType.toUpperCase()}`;
-    if (process.env[taskKey]) {
-      return parseInt(process.env[taskKey]);
+    if (candidate?.safetyRatings?.length) {
+      result.metadata.safetyRatings = candidate.safetyRatings;
     }
+    return result;
+  }
 
-    if (process.env.MAX_TOKENS) {
-      return parseInt(process.env.MAX_TOKENS);
+  /**
+   * Record how each image was transformed before it was sent, in request order
+   */
+  protected withPreprocessing(
+    result: AnalysisResult,
+    preprocessing: Array<ImagePreprocessing | undefined>
+  ): AnalysisResult {
+    if (preprocessing.some(Boolean)) {
+      result.metadata.preprocessing = preprocessing.map(info => info ?? null);
     }
+    return result;
+  }
+
+  /**
+   * Describe a built request for --dry-run, with inline image data replaced
+   * by its size; the caller fills in the token count
+   */
+  protected createRequestPreview(
+    model: string,
+    functionName: FunctionName,
+    images: ImagePreview[],
+    contents: Array<{ role: string; parts: object[] }>,
+    generationConfig: Record<string, unknown> & { systemInstruction?: string },
+    options?: AnalysisOptions
+  ): RequestPreview {
+    const { responseSchema, systemInstruction, ...config } = generationConfig;
 
-    return 4096;
+    return {
+      provider: this.providerName,
+      model,
+      functionName,
+      images,
+      generationConfig: config,
+      systemInstruction,
+      responseSchema,
+      safetySettings: options?.safetySettings,
+      contents: contents.map(content => ({
+        role: content.role,
+        parts: content.parts.map(part =>
+          isInlineDataPart(part)
+            ? { inlineData: { mimeType: part.inlineData.mimeType, data: `<${base64Size(part.inlineData.data)} bytes of base64 elided>` } }
+            : part
+        ),
+      })),
+    };
   }
 
   protected createAnalysisResult(
@@ -182,6 +226,35 @@ export abstract class BaseVisionProvider implements VisionProvider {
     options?: AnalysisOptions
   ): Promise<AnalysisResult>;
 
+  /**
+   * Providers without a streaming API deliver the whole response as a single chunk
+   */
+  async *analyzeImageStream(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream {
+    const result = await this.analyzeImage(imageSource, prompt, options);
+    yield result.text;
+    return result;
+  }
+
+  async *compareImagesStream(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream {
+    const result = await this.compareImages(imageSources, prompt, options);
+    yield result.text;
+    return result;
+  }
+
+  abstract previewRequest(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<RequestPreview>;
+
   abstract uploadFile(
     buffer: Buffer,
     filename: string,
@@ -190,8 +263,12 @@ export abstract class BaseVisionProvider implements VisionProvider {
 
   abstract downloadFile(fileId: string): Promise<Buffer>;
 
+  abstract getFile(fileId: string): Promise<UploadedFile>;
+
   abstract deleteFile(fileId: string): Promise<void>;
 
+  abstract listFiles(pageSize?: number, pageToken?: string): Promise<FileListResult>;
+
   abstract setModel(imageModel: string): void;
   abstract getImageModel(): string;
 
@@ -199,4 +276,14 @@ export abstract class BaseVisionProvider implements VisionProvider {
   abstract getModelCapabilities(): ModelCapabilities;
   abstract getProviderInfo(): ProviderInfo;
   abstract healthCheck(): Promise<HealthStatus>;
-}
\ No newline at end of file
+}
+
+// Decoded size of base64 data
+function base64Size(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+function isInlineDataPart(part: object): part is { inlineData: { mimeType: string; data: string } } {
+  return 'inlineData' in part && typeof part.inlineData === 'object' && part.inlineData !== null;
+}
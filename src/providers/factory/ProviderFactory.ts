@@ -1,6 +1,7 @@
 import type { VisionProvider } from '../../types/index.js';
-import type { CLIConfig, GeminiConfig } from '../../types/index.js';
+import type { CLIConfig, GeminiConfig, VertexAIConfig } from '../../types/index.js';
 import { GeminiProvider } from '../gemini/GeminiProvider.js';
+import { VertexAIProvider } from '../vertex/VertexAIProvider.js';
 import {
   ConfigurationError,
   ProviderError,
@@ -53,13 +54,12 @@ export class VisionProviderFactory {
 
     return new GeminiProvider(
       geminiConfig.apiKey,
-      geminiConfig.imageModel
+      geminiConfig.imageModel,
+      config.limits?.gemini_files_api_threshold
     );
   }
 
   private static async createVertexAIProvider(config: CLIConfig): Promise<VisionProvider> {
-    // For now, we'll use the same Gemini provider but with different configuration
-    // In a full implementation, this would use the Vertex AI SDK
     if (!config.credentials.vertex_credentials) {
       throw new ConfigurationError(
         'Vertex AI credentials are required for Vertex AI provider. Please set VERTEX_CREDENTIALS environment variable or add it to your configuration.',
@@ -67,9 +67,17 @@ export class VisionProviderFactory {
       );
     }
 
-    // For simplicity, we'll use the same Gemini provider with Vertex AI configuration
-    // In a production scenario, you'd implement a separate VertexAIProvider class
-    return this.createGoogleProvider(config);
+    // Project ID falls back to the service account's project_id when not configured
+    const location = config.vertex_ai?.location || 'us-central1';
+    const vertexConfig: VertexAIConfig = {
+      projectId: config.vertex_ai?.project_id || '',
+      location,
+      endpoint: config.vertex_ai?.endpoint || '',
+      credentials: config.credentials.vertex_credentials,
+      imageModel: config.settings.image_model || 'gemini-1.5-pro',
+    };
+
+    return new VertexAIProvider(vertexConfig);
   }
 
   static async createProviderWithValidation(
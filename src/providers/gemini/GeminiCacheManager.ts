@@ -0,0 +1,237 @@
+/**
+ * Gemini cached content client - stores an image and system instruction once
+ * so later prompts about the same image reference it instead of resending it
+ */
+
+import { createHash } from 'crypto';
+import type { GeminiCachedContentMetadata } from '../../types/index.js';
+import { VisionError } from '../../types/index.js';
+import { geminiFetch, errorFromResponse } from './gemini-rest.js';
+
+export interface GeminiCacheManagerOptions {
+  /** Time to live of new entries, and what reused entries are extended to */
+  defaultTtl?: number; // seconds
+  /** Entries expiring sooner than this are extended before being referenced */
+  expirationMargin?: number; // ms
+}
+
+/**
+ * What is cached: the contents that precede every prompt and the system instruction
+ */
+export interface CachedContextRequest {
+  model: string;
+  contents: unknown[];
+  systemInstruction?: string;
+  ttl?: number; // seconds
+}
+
+export interface CachedContext {
+  name: string; // "cachedContents/abc123"
+  model: string;
+  displayName?: string;
+  expireTime: string;
+  tokenCount?: number;
+}
+
+const API_VERSION = 'v1beta';
+const API_LABEL = 'Gemini cached content API';
+const DISPLAY_NAME_PREFIX = 'ai-vision:';
+
+const DEFAULT_OPTIONS: Required<GeminiCacheManagerOptions> = {
+  defaultTtl: 3600,
+  expirationMargin: 5 * 60 * 1000,
+};
+
+export class GeminiCacheManager {
+  private readonly options: Required<GeminiCacheManagerOptions>;
+  // Entries used by this process, keyed by content digest; null when the content is too small to cache
+  private readonly entriesByKey = new Map<string, CachedContext | null>();
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string,
+    private readonly providerName = 'google',
+    options: GeminiCacheManagerOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Find or create the cached content for a request. An existing entry (from
+   * this process or an earlier one, matched by display name) is reused and its
+   * TTL extended. Resolves to undefined when the content is below the model's
+   * minimum cacheable size, in which case it has to be sent with every prompt.
+   */
+  async getOrCreate(request: CachedContextRequest): Promise<CachedContext | undefined> {
+    const key = GeminiCacheManager.computeKey(request);
+    const ttl = request.ttl ?? this.options.defaultTtl;
+
+    if (this.entriesByKey.has(key)) {
+      const known = this.entriesByKey.get(key);
+      if (!known || !this.isExpiring(known)) {
+        return known ?? undefined;
+      }
+    }
+
+    const existing = await this.findEntry(`${DISPLAY_NAME_PREFIX}${key}`);
+    if (existing) {
+      const extended = await this.updateTtl(existing.name, ttl);
+      this.entriesByKey.set(key, extended);
+      return extended;
+    }
+
+    try {
+      const created = await this.create(request, `${DISPLAY_NAME_PREFIX}${key}`, ttl);
+      this.entriesByKey.set(key, created);
+      return created;
+    } catch (error) {
+      if (error instanceof VisionError && error.code === 'INVALID_REQUEST' && /too small|min_total_token_count/i.test(error.message)) {
+        this.entriesByKey.set(key, null);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async get(name: string): Promise<CachedContext> {
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/${this.toResourceName(name)}`, { method: 'GET' });
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    return this.toCachedContext((await response.json()) as GeminiCachedContentMetadata);
+  }
+
+  /**
+   * List one page of cached content entries
+   */
+  async list(pageSize = 100, pageToken?: string): Promise<{ entries: CachedContext[]; nextPageToken?: string }> {
+    const params = new URLSearchParams({ pageSize: String(pageSize) });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/cachedContents?${params}`, { method: 'GET' });
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    const body = (await response.json()) as { cachedContents?: GeminiCachedContentMetadata[]; nextPageToken?: string };
+    return {
+      entries: (body.cachedContents || []).map(entry => this.toCachedContext(entry)),
+      nextPageToken: body.nextPageToken || undefined,
+    };
+  }
+
+  /**
+   * Set an entry to expire ttl seconds from now
+   */
+  async updateTtl(name: string, ttl: number): Promise<CachedContext> {
+    const response = await this.request(
+      `${this.baseUrl}/${API_VERSION}/${this.toResourceName(name)}?updateMask=ttl`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ttl: `${Math.round(ttl)}s` }),
+      }
+    );
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    return this.toCachedContext((await response.json()) as GeminiCachedContentMetadata);
+  }
+
+  async delete(name: string): Promise<void> {
+    const resourceName = this.toResourceName(name);
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/${resourceName}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    for (const [key, entry] of this.entriesByKey) {
+      if (entry?.name === resourceName) {
+        this.entriesByKey.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Digest of everything that is cached, so equal requests share an entry
+   */
+  static computeKey(request: CachedContextRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify([request.model, request.systemInstruction ?? '', request.contents]))
+      .digest('hex');
+  }
+
+  private async create(request: CachedContextRequest, displayName: string, ttl: number): Promise<CachedContext> {
+    const body: Record<string, unknown> = {
+      model: request.model.startsWith('models/') ? request.model : `models/${request.model}`,
+      displayName,
+      contents: request.contents,
+      ttl: `${Math.round(ttl)}s`,
+    };
+    if (request.systemInstruction) {
+      body.systemInstruction = { parts: [{ text: request.systemInstruction }] };
+    }
+
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/cachedContents`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    return this.toCachedContext((await response.json()) as GeminiCachedContentMetadata);
+  }
+
+  private async findEntry(displayName: string): Promise<CachedContext | undefined> {
+    let pageToken: string | undefined;
+    do {
+      const page = await this.list(100, pageToken);
+      const match = page.entries.find(entry => entry.displayName === displayName && !this.isExpired(entry));
+      if (match) {
+        return match;
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return undefined;
+  }
+
+  private isExpiring(entry: CachedContext): boolean {
+    return new Date(entry.expireTime).getTime() - this.options.expirationMargin <= Date.now();
+  }
+
+  private isExpired(entry: CachedContext): boolean {
+    return new Date(entry.expireTime).getTime() <= Date.now();
+  }
+
+  private request(url: string, init: RequestInit): Promise<Response> {
+    return geminiFetch(url, init, this.apiKey, API_LABEL);
+  }
+
+  /**
+   * Accepts "cachedContents/abc" or "abc"
+   */
+  private toResourceName(name: string): string {
+    return name.startsWith('cachedContents/') ? name : `cachedContents/${name}`;
+  }
+
+  private toCachedContext(metadata: GeminiCachedContentMetadata): CachedContext {
+    return {
+      name: metadata.name,
+      model: metadata.model,
+      displayName: metadata.displayName,
+      expireTime: metadata.expireTime,
+      tokenCount: metadata.usageMetadata?.totalTokenCount,
+    };
+  }
+
+  private createErrorFromResponse(response: Response): Promise<VisionError> {
+    return errorFromResponse(response, this.providerName, API_LABEL);
+  }
+}
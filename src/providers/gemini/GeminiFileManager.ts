@@ -0,0 +1,368 @@
+/**
+ * Gemini Files API client - resumable uploads, processing state polling,
+ * content-hash based reuse and expiration handling
+ */
+
+import { createHash } from 'crypto';
+import type {
+  UploadedFile,
+  FileListResult,
+  GeminiFileMetadata,
+} from '../../types/index.js';
+import { VisionError, FileUploadError, NetworkError } from '../../types/index.js';
+import { geminiFetch, errorFromResponse } from './gemini-rest.js';
+
+export interface GeminiFileManagerOptions {
+  /** Bytes sent per resumable upload request (multiple of 256 KiB) */
+  chunkSize?: number;
+  /** How many times an interrupted chunk is resumed before giving up */
+  maxResumeAttempts?: number;
+  /** Interval between state checks while a file is PROCESSING */
+  pollInterval?: number;
+  /** Maximum time to wait for a file to leave the PROCESSING state */
+  processingTimeout?: number;
+  /** Files expiring sooner than this are not reused */
+  expirationMargin?: number;
+}
+
+const API_VERSION = 'v1beta';
+const API_LABEL = 'Gemini Files API';
+const UPLOAD_GRANULARITY = 256 * 1024;
+
+const DEFAULT_OPTIONS: Required<GeminiFileManagerOptions> = {
+  chunkSize: 8 * 1024 * 1024,
+  maxResumeAttempts: 3,
+  pollInterval: 1000,
+  processingTimeout: 120000,
+  expirationMargin: 5 * 60 * 1000,
+};
+
+export class GeminiFileManager {
+  private readonly options: Required<GeminiFileManagerOptions>;
+  // Uploads made by this process, keyed by SHA-256 hex digest
+  private readonly uploadsByHash = new Map<string, UploadedFile>();
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string,
+    private readonly providerName = 'google',
+    options: GeminiFileManagerOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Upload a file, reusing an existing unexpired upload with the same content.
+   * Resolves once the file is ACTIVE and can be referenced in prompts.
+   */
+  async uploadFile(buffer: Buffer, filename: string, mimeType: string): Promise<UploadedFile> {
+    const sha256 = createHash('sha256').update(buffer).digest('hex');
+
+    const existing = await this.findReusableFile(sha256);
+    if (existing) {
+      const ready = existing.state === 'PROCESSING' ? await this.waitForActive(existing.id) : existing;
+      this.uploadsByHash.set(sha256, ready);
+      return ready;
+    }
+
+    const uploaded = await this.resumableUpload(buffer, filename, mimeType);
+    const ready = uploaded.state === 'PROCESSING' ? await this.waitForActive(uploaded.id) : uploaded;
+
+    if (ready.state === 'FAILED') {
+      throw new FileUploadError(`Gemini failed to process uploaded file ${filename}`, this.providerName);
+    }
+
+    this.uploadsByHash.set(sha256, ready);
+    return ready;
+  }
+
+  /**
+   * Fetch the metadata of a single file
+   */
+  async getFile(fileId: string): Promise<UploadedFile> {
+    const name = this.toResourceName(fileId);
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/${name}`, { method: 'GET' });
+
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response, name);
+    }
+
+    return this.toUploadedFile((await response.json()) as GeminiFileMetadata);
+  }
+
+  /**
+   * List one page of uploaded files
+   */
+  async listFiles(pageSize = 100, pageToken?: string): Promise<FileListResult> {
+    const params = new URLSearchParams({ pageSize: String(pageSize) });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/files?${params}`, { method: 'GET' });
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    const body = (await response.json()) as { files?: GeminiFileMetadata[]; nextPageToken?: string };
+    return {
+      files: (body.files || []).map(file => this.toUploadedFile(file)),
+      nextPageToken: body.nextPageToken || undefined,
+    };
+  }
+
+  /**
+   * Download file content. The Files API only serves content for some file
+   * kinds; uploaded images typically answer with an error.
+   */
+  async downloadFile(fileId: string): Promise<Buffer> {
+    const name = this.toResourceName(fileId);
+    const response = await this.request(
+      `${this.baseUrl}/${API_VERSION}/${name}:download?alt=media`,
+      { method: 'GET' }
+    );
+
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response, name);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    const name = this.toResourceName(fileId);
+    const response = await this.request(`${this.baseUrl}/${API_VERSION}/${name}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response, name);
+    }
+
+    for (const [hash, file] of this.uploadsByHash) {
+      if (file.id === name) {
+        this.uploadsByHash.delete(hash);
+      }
+    }
+  }
+
+  /**
+   * Poll a file until it leaves the PROCESSING state
+   */
+  async waitForActive(fileId: string): Promise<UploadedFile> {
+    const deadline = Date.now() + this.options.processingTimeout;
+
+    let file = await this.getFile(fileId);
+    while (file.state === 'PROCESSING') {
+      if (Date.now() >= deadline) {
+        throw new FileUploadError(
+          `Timed out after ${this.options.processingTimeout}ms waiting for ${file.id} to finish processing`,
+          this.providerName
+        );
+      }
+      await this.delay(this.options.pollInterval);
+      file = await this.getFile(fileId);
+    }
+
+    if (file.state === 'FAILED') {
+      throw new FileUploadError(`Gemini failed to process file ${file.id}`, this.providerName);
+    }
+
+    return file;
+  }
+
+  isExpired(file: UploadedFile, margin = 0): boolean {
+    if (!file.expirationTime) {
+      return false;
+    }
+    return new Date(file.expirationTime).getTime() - margin <= Date.now();
+  }
+
+  /**
+   * Look for a usable upload with the same content, first among this process's
+   * uploads and then in the remote file list
+   */
+  private async findReusableFile(sha256: string): Promise<UploadedFile | undefined> {
+    const isUsable = (file: UploadedFile) =>
+      file.state !== 'FAILED' && !this.isExpired(file, this.options.expirationMargin);
+
+    const cached = this.uploadsByHash.get(sha256);
+    if (cached && isUsable(cached)) {
+      return cached;
+    }
+    this.uploadsByHash.delete(sha256);
+
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listFiles(100, pageToken);
+      const match = page.files.find(
+        file => file.sha256Hash !== undefined && this.hashMatches(file.sha256Hash, sha256) && isUsable(file)
+      );
+      if (match) {
+        return match;
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return undefined;
+  }
+
+  /**
+   * The API reports sha256Hash as base64 of either the raw digest or its hex form
+   */
+  private hashMatches(remoteHash: string, hexDigest: string): boolean {
+    const candidates = [
+      hexDigest,
+      Buffer.from(hexDigest, 'hex').toString('base64'),
+      Buffer.from(hexDigest, 'utf8').toString('base64'),
+    ];
+    return candidates.includes(remoteHash);
+  }
+
+  /**
+   * Upload using the resumable protocol: start a session, send the content in
+   * chunks and resume from the server-acknowledged offset when a chunk fails
+   */
+  private async resumableUpload(buffer: Buffer, filename: string, mimeType: string): Promise<UploadedFile> {
+    const startResponse = await this.request(`${this.baseUrl}/upload/${API_VERSION}/files`, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': String(buffer.length),
+        'X-Goog-Upload-Header-Content-Type': mimeType,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ file: { displayName: filename } }),
+    });
+
+    if (!startResponse.ok) {
+      throw await this.createErrorFromResponse(startResponse);
+    }
+
+    const uploadUrl = startResponse.headers.get('x-goog-upload-url');
+    if (!uploadUrl) {
+      throw new FileUploadError('Gemini did not return a resumable upload URL', this.providerName);
+    }
+
+    const chunkSize = Math.max(
+      UPLOAD_GRANULARITY,
+      Math.floor(this.options.chunkSize / UPLOAD_GRANULARITY) * UPLOAD_GRANULARITY
+    );
+    let offset = 0;
+    let resumeAttempts = 0;
+
+    while (offset < buffer.length || buffer.length === 0) {
+      const end = Math.min(offset + chunkSize, buffer.length);
+      const isLast = end === buffer.length;
+
+      try {
+        const response = await fetch(uploadUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Length': String(end - offset),
+            'X-Goog-Upload-Offset': String(offset),
+            'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          },
+          body: buffer.subarray(offset, end),
+        });
+
+        if (!response.ok) {
+          throw await this.createErrorFromResponse(response);
+        }
+
+        if (isLast) {
+          const body = (await response.json()) as { file?: GeminiFileMetadata };
+          if (!body.file) {
+            throw new FileUploadError(`Upload of ${filename} finished without file metadata`, this.providerName);
+          }
+          return this.toUploadedFile(body.file);
+        }
+
+        offset = end;
+      } catch (error) {
+        if (!this.isResumable(error) || resumeAttempts >= this.options.maxResumeAttempts) {
+          throw this.wrapUploadError(error, filename);
+        }
+        resumeAttempts++;
+        offset = await this.queryUploadOffset(uploadUrl);
+      }
+    }
+
+    // Unreachable: the loop returns after the finalizing chunk
+    throw new FileUploadError(`Upload of ${filename} did not complete`, this.providerName);
+  }
+
+  /**
+   * Ask the upload session how many bytes it has persisted
+   */
+  private async queryUploadOffset(uploadUrl: string): Promise<number> {
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': 'query' },
+    });
+
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response);
+    }
+
+    const received = parseInt(response.headers.get('x-goog-upload-size-received') || '0', 10);
+    return isNaN(received) ? 0 : received;
+  }
+
+  private isResumable(error: unknown): boolean {
+    if (error instanceof NetworkError) {
+      return true;
+    }
+    if (error instanceof VisionError) {
+      return error.statusCode !== undefined && error.statusCode >= 500;
+    }
+    // fetch() rejects with a TypeError when the connection drops
+    return error instanceof TypeError;
+  }
+
+  private wrapUploadError(error: unknown, filename: string): Error {
+    if (error instanceof VisionError) {
+      return error;
+    }
+    return new FileUploadError(
+      `Failed to upload ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+      this.providerName,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  private request(url: string, init: RequestInit): Promise<Response> {
+    return geminiFetch(url, init, this.apiKey, API_LABEL);
+  }
+
+  /**
+   * Accepts "files/abc", "abc" or a full file URI
+   */
+  private toResourceName(fileId: string): string {
+    const match = fileId.match(/files\/([^/?:]+)/);
+    return `files/${match ? match[1] : fileId}`;
+  }
+
+  private toUploadedFile(metadata: GeminiFileMetadata): UploadedFile {
+    return {
+      id: metadata.name,
+      filename: metadata.displayName || metadata.name,
+      mimeType: metadata.mimeType,
+      size: parseInt(metadata.sizeBytes || '0', 10),
+      uri: metadata.uri,
+      displayName: metadata.displayName,
+      state: metadata.state || 'ACTIVE',
+      createTime: metadata.createTime,
+      updateTime: metadata.updateTime,
+      expirationTime: metadata.expirationTime,
+      sha256Hash: metadata.sha256Hash,
+    };
+  }
+
+  private createErrorFromResponse(response: Response, resource?: string): Promise<VisionError> {
+    return errorFromResponse(response, this.providerName, API_LABEL, resource);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
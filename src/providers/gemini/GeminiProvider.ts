@@ -1,13 +1,26 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type GenerateContentRequest,
+  type GenerationConfig,
+  type Part,
+} from '@google/generative-ai';
 import type {
   AnalysisOptions,
   AnalysisResult,
+  AnalysisStream,
+  FunctionName,
+  RequestPreview,
   HealthStatus,
   FileReference,
   UploadedFile,
+  FileListResult,
 } from '../../types/index.js';
 import { BaseVisionProvider } from '../base/VisionProvider.js';
-import { FileService } from '../../services/FileService.js';
+import { FileService, type FileAnalysisResult, type FileHandlingOptions } from '../../services/FileService.js';
+import { GeminiFileManager } from './GeminiFileManager.js';
+import { GeminiCacheManager } from './GeminiCacheManager.js';
 import {
   VisionError,
   ProviderError,
@@ -17,21 +30,29 @@ import {
   RateLimitExceededError,
 } from '../../types/index.js';
 
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com';
+// Shown in --dry-run previews for images that would go through the Files API
+const PENDING_UPLOAD_URI = '<uploaded to the Files API when sent>';
+
 export class GeminiProvider extends BaseVisionProvider {
   private client: GoogleGenerativeAI;
   private fileService: FileService;
+  private fileManager: GeminiFileManager;
+  private cacheManager: GeminiCacheManager;
 
-  constructor(apiKey: string, imageModel: string) {
+  constructor(apiKey: string, imageModel: string, filesThreshold?: number) {
     super(
       {
         apiKey,
-        baseUrl: 'https://generativelanguage.googleapis.com',
+        baseUrl: GEMINI_BASE_URL,
         imageModel,
       },
       'google'
     );
     this.client = new GoogleGenerativeAI(apiKey);
-    this.fileService = new FileService(this);
+    this.fileService = new FileService(this, filesThreshold);
+    this.fileManager = new GeminiFileManager(apiKey, GEMINI_BASE_URL, this.providerName);
+    this.cacheManager = new GeminiCacheManager(apiKey, GEMINI_BASE_URL, this.providerName);
   }
 
   async analyzeImage(
@@ -43,7 +64,7 @@ export class GeminiProvider extends BaseVisionProvider {
 
     try {
       // Use FileService to handle image processing
-      const fileResult = await this.fileService.handleImageSource(imageSource);
+      const fileResult = await this.fileService.handleImageSource(imageSource, this.getFileOptions(options));
 
       if (options?.debugMode) {
         console.log(`[GeminiProvider] File processing result:`, {
@@ -54,31 +75,27 @@ export class GeminiProvider extends BaseVisionProvider {
         });
       }
 
-      // Build content based on file reference type
-      const content = this.buildContentFromReference(fileResult.reference, prompt);
-
       // Get model and generate content
-      const model = this.client.getGenerativeModel({ model: this.imageModel });
+      const modelName = this.resolveModel(options);
+      const model = this.client.getGenerativeModel({ model: modelName });
       const config = this.buildConfigWithOptions('image', options?.functionName, options);
 
       if (options?.debugMode) {
-        console.log(`[GeminiProvider] Generation config:`, config);
+        console.log(`[GeminiProvider] Model: ${modelName}, generation config:`, config);
       }
 
-      const response = await model.generateContent({
-        contents: [content],
-        generationConfig: config,
-      });
-
-      const processingTime = Date.now() - startTime;
-      const responseText = response.response.text();
+      const { request, contextCache } = await this.buildImageRequest(
+        fileResult.reference,
+        prompt,
+        modelName,
+        config,
+        options
+      );
+      const response = await model.generateContent(request);
 
-      return this.createAnalysisResult(
-        responseText,
-        this.imageModel,
-        undefined, // Usage metadata not available in current API response
-        processingTime,
-        response.response.candidates?.[0]?.finishReason
+      return this.withPreprocessing(
+        this.withContextCache(this.toAnalysisResult(response.response, modelName, Date.now() - startTime), contextCache),
+        [fileResult.preprocessing]
       );
 
     } catch (error) {
@@ -95,88 +112,23 @@ export class GeminiProvider extends BaseVisionProvider {
     const startTime = Date.now();
 
     try {
-      // Validate image sources
-      if (!imageSources || imageSources.length < 2) {
-        throw new VisionError(
-          'At least 2 images are required for comparison',
-          'INVALID_INPUT'
-        );
-      }
-
-      if (imageSources.length > 4) {
-        throw new VisionError(
-          'Maximum 4 images can be compared at once',
-          'INVALID_INPUT'
-        );
-      }
-
-      // Initialize file service
-      const fileService = new FileService(
-        this,
-        options?.filesThreshold || 10485760 // 10MB default
-      );
-
-      // Process all images in parallel
-      const imageProcessingResults = await fileService.handleMultipleImages(imageSources);
-
-      // Build content parts for Gemini API
-      const contents: any[] = [];
-
-      // Add all images to content
-      for (const result of imageProcessingResults) {
-        if (result.reference.type === 'inline_data') {
-          contents.push({
-            inlineData: {
-              mimeType: result.reference.mimeType,
-              data: result.reference.data
-            }
-          });
-        } else if (result.reference.type === 'file_uri') {
-          contents.push({
-            fileData: {
-              fileUri: result.reference.uri,
-              mimeType: result.reference.mimeType
-            }
-          });
-        }
-      }
-
-      // Add the prompt as the final content part
-      contents.push({ text: prompt });
+      // Validate and process all images
+      const images = await this.processComparisonImages(imageSources, options);
+      const content = this.buildComparisonContent(images.map(image => image.reference), prompt);
 
       // Build configuration
       const config = this.buildConfigWithOptions('image', 'compare_images', options);
 
-      if (options?.debugMode) {
-        console.log('Gemini: Processing images for comparison...');
-        console.log(`Images: ${imageSources.length}`);
-        console.log(`Content parts: ${contents.length}`);
-        imageProcessingResults.forEach((result, idx) => {
-          console.log(`  Image ${idx + 1}: ${result.reference.type} (${result.processingInfo.size} bytes)`);
-        });
-      }
-
       // Get model and generate content
-      const model = this.client.getGenerativeModel({ model: this.imageModel });
+      const modelName = this.resolveModel(options);
+      const model = this.client.getGenerativeModel({ model: modelName });
 
       // Generate content with Gemini
-      const response = await model.generateContent({
-        contents: contents,
-        generationConfig: config,
-      });
+      const response = await model.generateContent(this.buildRequest(content, config, options));
 
-      const processingTime = Date.now() - startTime;
-      const responseText = response.response?.text() || '';
-
-      return this.createAnalysisResult(
-        responseText,
-        this.imageModel,
-        {
-          promptTokenCount: response.response?.usageMetadata?.promptTokenCount || 0,
-          candidatesTokenCount: response.response?.usageMetadata?.candidatesTokenCount || 0,
-          totalTokenCount: response.response?.usageMetadata?.totalTokenCount || 0,
-        },
-        processingTime
+      return this.withPreprocessing(
+        this.toAnalysisResult(response.response, modelName, Date.now() - startTime),
+        images.map(image => image.preprocessing)
       );
 
     } catch (error) {
@@ -214,28 +166,160 @@ export class GeminiProvider extends BaseVisionProvider {
     }
   }
 
+  override async *analyzeImageStream(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream {
+    const startTime = Date.now();
+
+    try {
+      const fileResult = await this.fileService.handleImageSource(imageSource, this.getFileOptions(options));
+      const modelName = this.resolveModel(options);
+      const config = this.buildConfigWithOptions('image', options?.functionName, options);
+      const { request, contextCache } = await this.buildImageRequest(
+        fileResult.reference,
+        prompt,
+        modelName,
+        config,
+        options
+      );
+
+      return this.withPreprocessing(
+        this.withContextCache(yield* this.streamContent(modelName, request, startTime), contextCache),
+        [fileResult.preprocessing]
+      );
+    } catch (error) {
+      throw this.handleError(error, 'analyzeImageStream');
+    }
+  }
+
+  override async *compareImagesStream(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream {
+    const startTime = Date.now();
+
+    try {
+      const images = await this.processComparisonImages(imageSources, options);
+      const content = this.buildComparisonContent(images.map(image => image.reference), prompt);
+      const config = this.buildConfigWithOptions('image', 'compare_images', options);
+
+      const result = yield* this.streamContent(
+        this.resolveModel(options),
+        this.buildRequest(content, config, options),
+        startTime
+      );
+      return this.withPreprocessing(result, images.map(image => image.preprocessing));
+    } catch (error) {
+      throw this.handleError(error, 'compareImagesStream');
+    }
+  }
+
+  async previewRequest(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<RequestPreview> {
+    try {
+      const functionName: FunctionName = options?.functionName ?? 'analyze_image';
+      const images = functionName === 'compare_images'
+        ? await this.processComparisonImages(imageSources, options, true)
+        : [await this.fileService.handleImageSource(imageSources[0], this.getFileOptions(options, true))];
+
+      // Tokens are counted with every image inline; an uploaded image costs the same
+      const references = images.map(image => image.reference);
+      const shownReferences = images.map((image): FileReference =>
+        image.processingInfo.method === 'file_uri' && image.reference.type !== 'file_uri'
+          ? { type: 'file_uri', uri: PENDING_UPLOAD_URI, mimeType: image.reference.mimeType }
+          : image.reference
+      );
+      const buildContent = (refs: FileReference[]) =>
+        functionName === 'compare_images'
+          ? this.buildComparisonContent(refs, prompt)
+          : this.buildContentFromReference(refs[0], prompt);
+
+      const modelName = this.resolveModel(options);
+      const config = this.buildConfigWithOptions('image', functionName, options);
+      const preview = this.createRequestPreview(
+        modelName,
+        functionName,
+        images.map((image, index) => ({
+          source: imageSources[index],
+          mimeType: image.reference.mimeType,
+          size: image.processingInfo.size,
+          method: image.processingInfo.method,
+          threshold: image.processingInfo.threshold,
+          preprocessing: image.preprocessing,
+        })),
+        [buildContent(shownReferences)],
+        config,
+        options
+      );
+
+      try {
+        const model = this.client.getGenerativeModel({ model: modelName });
+        const { totalTokens } = await model.countTokens({
+          generateContentRequest: this.buildRequest(buildContent(references), config, options),
+        });
+        preview.promptTokenCount = totalTokens;
+      } catch (error) {
+        preview.tokenCountError = this.handleError(error, 'countTokens').message;
+      }
+
+      return preview;
+    } catch (error) {
+      throw this.handleError(error, 'previewRequest');
+    }
+  }
+
+  /**
+   * Upload to the Files API, reusing an unexpired upload with identical content.
+   * Resolves once the file is ACTIVE.
+   */
   async uploadFile(
     buffer: Buffer,
     filename: string,
     mimeType: string
   ): Promise<UploadedFile> {
-    // For now, return a placeholder implementation
-    return {
-      id: filename,
-      filename,
-      mimeType,
-      size: buffer.length,
-      uri: `file://${filename}`,
-    };
+    try {
+      return await this.fileManager.uploadFile(buffer, filename, mimeType);
+    } catch (error) {
+      throw this.handleError(error, 'uploadFile');
+    }
+  }
+
+  async downloadFile(fileId: string): Promise<Buffer> {
+    try {
+      return await this.fileManager.downloadFile(fileId);
+    } catch (error) {
+      throw this.handleError(error, 'downloadFile');
+    }
+  }
+
+  async getFile(fileId: string): Promise<UploadedFile> {
+    try {
+      return await this.fileManager.getFile(fileId);
+    } catch (error) {
+      throw this.handleError(error, 'getFile');
+    }
   }
 
-  async downloadFile(_fileId: string): Promise<Buffer> {
-    // Placeholder implementation
-    return Buffer.from('placeholder');
+  async deleteFile(fileId: string): Promise<void> {
+    try {
+      await this.fileManager.deleteFile(fileId);
+    } catch (error) {
+      throw this.handleError(error, 'deleteFile');
+    }
   }
 
-  async deleteFile(_fileId: string): Promise<void> {
-    // Placeholder implementation
+  async listFiles(pageSize?: number, pageToken?: string): Promise<FileListResult> {
+    try {
+      return await this.fileManager.listFiles(pageSize, pageToken);
+    } catch (error) {
+      throw this.handleError(error, 'listFiles');
+    }
   }
 
   setModel(imageModel: string): void {
@@ -275,9 +359,12 @@ export class GeminiProvider extends BaseVisionProvider {
   async healthCheck(): Promise<HealthStatus> {
     const startTime = Date.now();
     try {
-      // Simple test with a minimal text request using a valid model
-      const model = this.client.getGenerativeModel({ model: 'gemini-1.5-pro' });
-      await model.generateContent('Hello');
+      // Minimal text request against the configured model
+      const model = this.client.getGenerativeModel({ model: this.getImageModel() });
+      await model.generateContent({
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        generationConfig: { maxOutputTokens: 1 },
+      });
 
       const responseTime = Date.now() - startTime;
 
@@ -287,9 +374,11 @@ export class GeminiProvider extends BaseVisionProvider {
         responseTime,
       };
     } catch (error) {
+      const mapped = this.handleError(error, 'healthCheck');
       return {
         status: 'unhealthy',
         message: error instanceof Error ? error.message : String(error),
+        errorCode: mapped instanceof VisionError ? mapped.code : undefined,
         lastCheck: new Date().toISOString(),
       };
     }
@@ -302,17 +391,208 @@ export class GeminiProvider extends BaseVisionProvider {
   // Helper methods
 
   /**
-   * Build content structure from file reference for Gemini API
+   * Validate the number of images in a comparison and process each of them
+   */
+  private async processComparisonImages(
+    imageSources: string[],
+    options?: AnalysisOptions,
+    dryRun = false
+  ): Promise<FileAnalysisResult[]> {
+    if (!imageSources || imageSources.length < 2) {
+      throw new VisionError(
+        'At least 2 images are required for comparison',
+        'INVALID_INPUT'
+      );
+    }
+
+    if (imageSources.length > 4) {
+      throw new VisionError(
+        'Maximum 4 images can be compared at once',
+        'INVALID_INPUT'
+      );
+    }
+
+    const imageProcessingResults = await this.fileService.handleMultipleImages(
+      imageSources,
+      this.getFileOptions(options, dryRun)
+    );
+
+    if (options?.debugMode) {
+      console.log('Gemini: Processing images for comparison...');
+      console.log(`Images: ${imageSources.length}`);
+      imageProcessingResults.forEach((result, idx) => {
+        console.log(`  Image ${idx + 1}: ${result.reference.type} (${result.processingInfo.size} bytes)`);
+      });
+    }
+
+    return imageProcessingResults;
+  }
+
+  private getFileOptions(options?: AnalysisOptions, dryRun = false): FileHandlingOptions {
+    return {
+      forceUpload: options?.enableFileUpload,
+      filesThreshold: options?.filesThreshold,
+      dryRun,
+      preprocessing: options?.preprocessing || undefined,
+    };
+  }
+
+  /**
+   * One user content with every image followed by the prompt
+   */
+  private buildComparisonContent(references: FileReference[], prompt: string): Content {
+    const parts: Part[] = [];
+    for (const reference of references) {
+      if (reference.type === 'inline_data') {
+        parts.push({
+          inlineData: {
+            mimeType: reference.mimeType,
+            data: reference.data!
+          }
+        });
+      } else if (reference.type === 'file_uri') {
+        parts.push({
+          fileData: {
+            fileUri: reference.uri!,
+            mimeType: reference.mimeType
+          }
+        });
+      }
+    }
+
+    // Add the prompt as the final content part
+    parts.push({ text: prompt });
+
+    return { role: 'user', parts };
+  }
+
+  /**
+   * Stream a generateContent request, yielding text as it arrives and
+   * returning the assembled result with usage from the aggregated response
    */
-  private buildContentFromReference(fileReference: FileReference, prompt: string): any {
-    const parts: any[] = [{ text: prompt }];
+  private async *streamContent(
+    modelName: string,
+    request: GenerateContentRequest,
+    startTime: number
+  ): AnalysisStream {
+    const model = this.client.getGenerativeModel({ model: modelName });
+    const { stream, response } = await model.generateContentStream(request);
+
+    let text = '';
+    for await (const chunk of stream) {
+      this.assertNotBlocked(chunk);
+      const chunkText = chunk.text();
+      if (chunkText) {
+        text += chunkText;
+        yield chunkText;
+      }
+    }
+
+    const aggregated = await response;
+    return this.withSafetyMetadata(
+      this.createAnalysisResult(text, modelName, this.toUsageMetadata(aggregated.usageMetadata), Date.now() - startTime),
+      aggregated
+    );
+  }
+
+  private buildRequest(
+    content: Content,
+    generationConfig: GenerationConfig & { systemInstruction?: string },
+    options?: AnalysisOptions
+  ): GenerateContentRequest {
+    // The system instruction belongs to the request, not the generation config
+    const { systemInstruction, ...config } = generationConfig;
+
+    return {
+      contents: [content],
+      generationConfig: config,
+      systemInstruction,
+      // The SDK types these as enums; the API takes the same strings
+      safetySettings: options?.safetySettings as GenerateContentRequest['safetySettings'],
+    };
+  }
+
+  /**
+   * Build the request for a prompt about one image. With options.contextCache
+   * the image and system instruction are read from cached content, created on
+   * first use, and only the prompt is sent. Content below the model's minimum
+   * cacheable size is sent with the prompt as usual.
+   */
+  private async buildImageRequest(
+    reference: FileReference,
+    prompt: string,
+    modelName: string,
+    generationConfig: GenerationConfig & { systemInstruction?: string },
+    options?: AnalysisOptions
+  ): Promise<{ request: GenerateContentRequest; contextCache?: string }> {
+    if (options?.contextCache) {
+      // Cached content takes the place of the system instruction
+      const { systemInstruction, ...config } = generationConfig;
+      const cached = await this.cacheManager.getOrCreate({
+        model: modelName,
+        contents: [this.buildContentFromReference(reference)],
+        systemInstruction,
+        ttl: typeof options.contextCache === 'number' ? options.contextCache : undefined,
+      });
+
+      if (cached) {
+        if (options.debugMode) {
+          console.log(`[GeminiProvider] Using cached content ${cached.name} (expires ${cached.expireTime})`);
+        }
+        return {
+          request: {
+            ...this.buildRequest({ role: 'user', parts: [{ text: prompt }] }, config, options),
+            cachedContent: cached.name,
+          },
+          contextCache: cached.name,
+        };
+      }
+
+      if (options.debugMode) {
+        console.log('[GeminiProvider] Image is below the minimum size for cached content; sending it inline');
+      }
+    }
+
+    return { request: this.buildRequest(this.buildContentFromReference(reference, prompt), generationConfig, options) };
+  }
+
+  private withContextCache(result: AnalysisResult, contextCache?: string): AnalysisResult {
+    if (contextCache) {
+      result.metadata.contextCache = contextCache;
+    }
+    return result;
+  }
+
+  /**
+   * Build the result of a generateContent call, reporting blocked content
+   * instead of the SDK's opaque text() error
+   */
+  private toAnalysisResult(
+    response: EnhancedGenerateContentResponse,
+    modelName: string,
+    processingTime: number
+  ): AnalysisResult {
+    this.assertNotBlocked(response);
+
+    return this.withSafetyMetadata(
+      this.createAnalysisResult(response.text(), modelName, this.toUsageMetadata(response.usageMetadata), processingTime),
+      response
+    );
+  }
+
+  /**
+   * Build content structure from file reference for Gemini API; without a
+   * prompt the content holds only the image
+   */
+  private buildContentFromReference(fileReference: FileReference, prompt?: string): Content {
+    const parts: Part[] = prompt === undefined ? [] : [{ text: prompt }];
 
     switch (fileReference.type) {
       case 'inline_data':
         parts.push({
           inlineData: {
             mimeType: fileReference.mimeType,
-            data: fileReference.data,
+            data: fileReference.data!,
           },
         });
         break;
@@ -321,7 +601,7 @@ export class GeminiProvider extends BaseVisionProvider {
         parts.push({
           fileData: {
             mimeType: fileReference.mimeType,
-            fileUri: fileReference.uri,
+            fileUri: fileReference.uri!,
           },
         });
         break;
@@ -330,7 +610,7 @@ export class GeminiProvider extends BaseVisionProvider {
         parts.push({
           inlineData: {
             mimeType: fileReference.mimeType,
-            data: fileReference.data,
+            data: fileReference.data!,
           },
         });
         break;
@@ -349,9 +629,18 @@ export class GeminiProvider extends BaseVisionProvider {
   }
 
   private handleError(error: unknown, operation: string): Error {
+    // Errors already classified (e.g. by the Files API client) pass through unchanged
+    if (error instanceof VisionError) {
+      return error;
+    }
+
     if (error instanceof Error) {
       // Handle specific error types based on error messages
-      if (error.message.includes('401') || error.message.includes('UNAUTHENTICATED')) {
+      if (
+        error.message.includes('401') ||
+        error.message.includes('UNAUTHENTICATED') ||
+        error.message.includes('API_KEY_INVALID')
+      ) {
         return new AuthenticationError(
           `Authentication failed for ${operation}: ${error.message}`,
           this.providerName
@@ -379,7 +668,11 @@ export class GeminiProvider extends BaseVisionProvider {
         );
       }
 
-      if (error.message.includes('ENOTFOUND') || error.message.includes('NETWORK')) {
+      if (
+        error.message.includes('ENOTFOUND') ||
+        error.message.includes('NETWORK') ||
+        error.message.includes('fetch failed')
+      ) {
         return new NetworkError(
           `Network error for ${operation}: ${error.message}`
         );
@@ -0,0 +1,84 @@
+/**
+ * Request and error helpers for the Gemini REST endpoints the SDK does not wrap
+ */
+
+import {
+  VisionError,
+  ProviderError,
+  AuthenticationError,
+  AuthorizationError,
+  FileNotFoundError,
+  NetworkError,
+  RateLimitExceededError,
+} from '../../types/index.js';
+
+/**
+ * fetch() with the API key header. Connection failures are reported as a
+ * NetworkError naming the API (label, e.g. "Gemini Files API").
+ */
+export async function geminiFetch(url: string, init: RequestInit, apiKey: string, label: string): Promise<Response> {
+  try {
+    return await fetch(url, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), 'x-goog-api-key': apiKey },
+    });
+  } catch (error) {
+    throw new NetworkError(
+      `Network error calling the ${label}: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Map an error response to a VisionError. A 404 becomes a FileNotFoundError
+ * when the requested resource is given.
+ */
+export async function errorFromResponse(
+  response: Response,
+  provider: string,
+  label: string,
+  resource?: string
+): Promise<VisionError> {
+  let message = `${label} request failed with status ${response.status}`;
+  let status: string | undefined;
+
+  try {
+    const body = (await response.json()) as { error?: { message?: string; status?: string } };
+    if (body.error?.message) {
+      message = body.error.message;
+    }
+    status = body.error?.status;
+  } catch {
+    // Non-JSON error body; keep the generic message
+  }
+
+  const detail = status ? `${status}: ${message}` : message;
+
+  if (response.status === 401 || status === 'UNAUTHENTICATED') {
+    return new AuthenticationError(`Gemini authentication failed: ${detail}`, provider);
+  }
+
+  if (response.status === 403 || status === 'PERMISSION_DENIED') {
+    return new AuthorizationError(`Gemini permission denied: ${detail}`, provider);
+  }
+
+  if ((response.status === 404 || status === 'NOT_FOUND') && resource) {
+    return new FileNotFoundError(resource, provider);
+  }
+
+  if (response.status === 429 || status === 'RESOURCE_EXHAUSTED') {
+    const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+    return new RateLimitExceededError(
+      `Gemini rate limit exceeded: ${detail}`,
+      provider,
+      isNaN(retryAfter) ? undefined : retryAfter
+    );
+  }
+
+  if (response.status === 400 || status === 'INVALID_ARGUMENT' || status === 'FAILED_PRECONDITION') {
+    return new VisionError(`Invalid request: ${detail}`, 'INVALID_REQUEST', provider, undefined, 400);
+  }
+
+  return new ProviderError(`${label} error: ${detail}`, provider, undefined, response.status);
+}
@@ -0,0 +1,363 @@
+import type {
+  VisionProvider,
+  AnalysisOptions,
+  AnalysisResult,
+  AnalysisStream,
+  RequestPreview,
+  UploadedFile,
+  FileListResult,
+  HealthStatus,
+  ProviderCapabilities,
+  ModelCapabilities,
+  ProviderInfo,
+  CLIConfig,
+} from '../../types/index.js';
+import {
+  VisionError,
+  CircuitOpenError,
+  RateLimitExceededError,
+} from '../../types/index.js';
+import { RetryHandler, type RetryError } from '../../utils/retry-handler.js';
+import {
+  globalCircuitBreakerManager,
+  type CircuitBreakerManager,
+} from '../../utils/circuit-breaker.js';
+import {
+  globalRateLimiter,
+  type MultiProviderRateLimiter,
+} from '../../utils/rate-limiter.js';
+import { globalMetricsCollector, type MetricsCollector } from '../../utils/metrics.js';
+import { createLogger, getLogLevelFromEnv } from '../../utils/logger.js';
+
+export interface ResilienceConfig {
+  retry: NonNullable<CLIConfig['retry']>;
+  rateLimiting: NonNullable<CLIConfig['rate_limiting']>;
+  circuitBreaker: NonNullable<CLIConfig['circuit_breaker']>;
+}
+
+// Error codes caused by the request itself rather than the provider; these never trip the circuit
+const CLIENT_ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'INVALID_INPUT',
+  'INVALID_REQUEST',
+  'CONFIG_ERROR',
+  'UNSUPPORTED_FILE_TYPE',
+  'FILE_SIZE_EXCEEDED',
+  'FILE_NOT_FOUND',
+  'QUOTA_EXHAUSTED',
+  'CIRCUIT_OPEN',
+  'CONTENT_BLOCKED',
+];
+
+const RATE_LIMIT_ERROR_CODES = ['RATE_LIMIT_EXCEEDED', 'QUOTA_EXHAUSTED', 'QUOTA_EXCEEDED'];
+
+/**
+ * Decorates a provider so every remote call is rate limited, guarded by the
+ * circuit breaker, retried according to the retry policy and recorded in metrics.
+ */
+export class ResilientVisionProvider implements VisionProvider {
+  private readonly retryHandler: RetryHandler | null;
+  private readonly logger = createLogger('resilience', { level: getLogLevelFromEnv() });
+
+  constructor(
+    private readonly provider: VisionProvider,
+    private readonly providerName: string,
+    private readonly config: ResilienceConfig,
+    private readonly rateLimiter: MultiProviderRateLimiter = globalRateLimiter,
+    private readonly circuitBreakers: CircuitBreakerManager = globalCircuitBreakerManager,
+    private readonly metrics: MetricsCollector | null = globalMetricsCollector
+  ) {
+    this.retryHandler = config.retry.enabled
+      ? new RetryHandler({
+          maxAttempts: config.retry.max_attempts,
+          baseDelay: config.retry.base_delay,
+          maxDelay: config.retry.max_delay,
+          backoffMultiplier: config.retry.backoff_multiplier,
+          jitter: config.retry.jitter,
+          retryableErrors: config.retry.retryable_errors,
+          retryOnNetworkErrors: true,
+          onRetry: (attempt, error, delay) => {
+            this.metrics?.incrementCounter(`retries.${this.providerName}`);
+            this.logger.debug(`Retrying ${this.providerName} after attempt ${attempt} failed`, {
+              error: error.message,
+              delay,
+            });
+          },
+        })
+      : null;
+
+    if (config.rateLimiting.enabled) {
+      this.rateLimiter.addProvider(providerName, {
+        requestsPerSecond: config.rateLimiting.requests_per_second,
+        burstSize: config.rateLimiting.burst_size,
+        quotaPerDay: config.rateLimiting.quota_per_day,
+        backoffOnLimit: config.rateLimiting.backoff_on_limit,
+        maxBackoffDelay: config.rateLimiting.max_backoff_delay,
+        enableAdaptiveLimiting: config.rateLimiting.enable_adaptive_limiting,
+      });
+    }
+
+    if (config.circuitBreaker.enabled) {
+      this.circuitBreakers.addProvider(providerName, {
+        failureThreshold: config.circuitBreaker.failure_threshold,
+        resetTimeout: config.circuitBreaker.recovery_timeout,
+        successThreshold: config.circuitBreaker.success_threshold,
+        // Periodic checks would keep a short-lived CLI process alive
+        enableHealthChecks: false,
+      });
+    }
+  }
+
+  async analyzeImage(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<AnalysisResult> {
+    return this.execute(
+      options?.functionName ?? 'analyze_image',
+      () => this.provider.analyzeImage(imageSource, prompt, options)
+    );
+  }
+
+  async compareImages(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<AnalysisResult> {
+    return this.execute(
+      options?.functionName ?? 'compare_images',
+      () => this.provider.compareImages(imageSources, prompt, options)
+    );
+  }
+
+  async *analyzeImageStream(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream {
+    return yield* this.executeStream(
+      options?.functionName ?? 'analyze_image',
+      () => this.provider.analyzeImageStream(imageSource, prompt, options)
+    );
+  }
+
+  async *compareImagesStream(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream {
+    return yield* this.executeStream(
+      options?.functionName ?? 'compare_images',
+      () => this.provider.compareImagesStream(imageSources, prompt, options)
+    );
+  }
+
+  /**
+   * Dry runs generate nothing, so they bypass the rate limiter, the circuit and metrics
+   */
+  async previewRequest(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<RequestPreview> {
+    return this.provider.previewRequest(imageSources, prompt, options);
+  }
+
+  async uploadFile(buffer: Buffer, filename: string, mimeType: string): Promise<UploadedFile> {
+    return this.execute('upload_file', () => this.provider.uploadFile(buffer, filename, mimeType));
+  }
+
+  async downloadFile(fileId: string): Promise<Buffer> {
+    return this.execute('download_file', () => this.provider.downloadFile(fileId));
+  }
+
+  async getFile(fileId: string): Promise<UploadedFile> {
+    return this.execute('get_file', () => this.provider.getFile(fileId));
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    return this.execute('delete_file', () => this.provider.deleteFile(fileId));
+  }
+
+  async listFiles(pageSize?: number, pageToken?: string): Promise<FileListResult> {
+    return this.execute('list_files', () => this.provider.listFiles(pageSize, pageToken));
+  }
+
+  setModel(imageModel: string): void {
+    this.provider.setModel(imageModel);
+  }
+
+  getImageModel(): string {
+    return this.provider.getImageModel();
+  }
+
+  getSupportedFormats(): ProviderCapabilities {
+    return this.provider.getSupportedFormats();
+  }
+
+  getModelCapabilities(): ModelCapabilities {
+    return this.provider.getModelCapabilities();
+  }
+
+  getProviderInfo(): ProviderInfo {
+    return this.provider.getProviderInfo();
+  }
+
+  /**
+   * Health checks bypass retries and the circuit so they report the provider's real state
+   */
+  async healthCheck(): Promise<HealthStatus> {
+    return this.provider.healthCheck();
+  }
+
+  /**
+   * Access the undecorated provider
+   */
+  getInnerProvider(): VisionProvider {
+    return this.provider;
+  }
+
+  private async execute<T>(operationName: string, operation: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await this.executeWithRetries(operation);
+      this.recordMetrics(operationName, Date.now() - startTime, result);
+      return result;
+    } catch (error) {
+      this.recordMetrics(operationName, Date.now() - startTime, undefined, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Opening a stream (up to its first chunk) is rate limited, guarded and
+   * retried like any call. Once text has been yielded a failure can no longer
+   * be retried and is passed to the caller.
+   */
+  private async *executeStream(operationName: string, open: () => AnalysisStream): AnalysisStream {
+    const startTime = Date.now();
+    try {
+      const { stream, first } = await this.executeWithRetries(async () => {
+        const stream = open();
+        return { stream, first: await stream.next() };
+      });
+
+      let next = first;
+      while (!next.done) {
+        yield next.value;
+        next = await stream.next();
+      }
+
+      this.recordMetrics(operationName, Date.now() - startTime, next.value);
+      return next.value;
+    } catch (error) {
+      this.recordMetrics(operationName, Date.now() - startTime, undefined, error);
+      throw error;
+    }
+  }
+
+  private async executeWithRetries<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.retryHandler) {
+      return this.attempt(operation);
+    }
+
+    try {
+      const { result } = await this.retryHandler.execute(() => this.attempt(operation));
+      return result;
+    } catch (error) {
+      // Surface the last underlying error so callers keep its type and status code
+      const retryError = error as RetryError;
+      if (Array.isArray(retryError.errors) && retryError.errors.length > 0) {
+        throw retryError.errors[retryError.errors.length - 1];
+      }
+      throw error;
+    }
+  }
+
+  private async attempt<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.config.circuitBreaker.enabled) {
+      const circuit = await this.circuitBreakers.canExecute(this.providerName);
+      if (!circuit.allowed) {
+        throw new CircuitOpenError(
+          this.providerName,
+          circuit.waitTime !== undefined ? Math.ceil(circuit.waitTime / 1000) : undefined
+        );
+      }
+    }
+
+    if (this.config.rateLimiting.enabled) {
+      await this.acquireSlot();
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await operation();
+      if (this.config.circuitBreaker.enabled) {
+        this.circuitBreakers.recordSuccess(this.providerName, Date.now() - startTime);
+      }
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      if (this.config.circuitBreaker.enabled && this.isProviderFailure(err)) {
+        this.circuitBreakers.recordFailure(this.providerName, err, Date.now() - startTime);
+      }
+
+      if (this.config.rateLimiting.enabled && err instanceof RateLimitExceededError) {
+        this.rateLimiter.applyPenalty(this.providerName, { retryAfter: err.retryAfter });
+      }
+
+      throw err;
+    }
+  }
+
+  /**
+   * Wait for a rate limiter slot, giving up when the wait exceeds the configured maximum backoff
+   */
+  private async acquireSlot(): Promise<void> {
+    let slot = await this.rateLimiter.checkLimit(this.providerName);
+
+    while (!slot.allowed) {
+      if (slot.waitTime > this.config.rateLimiting.max_backoff_delay) {
+        throw new VisionError(
+          `Request quota for ${this.providerName} is used up; next request allowed in ${Math.ceil(slot.waitTime / 1000)}s`,
+          'QUOTA_EXHAUSTED',
+          this.providerName,
+          undefined,
+          429,
+          Math.ceil(slot.waitTime / 1000)
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(slot.waitTime, 1000)));
+      slot = await this.rateLimiter.checkLimit(this.providerName);
+    }
+  }
+
+  /**
+   * Record latency, tokens and errors for one logical call (including its retries)
+   */
+  private recordMetrics(operationName: string, duration: number, result?: unknown, error?: unknown): void {
+    if (!this.metrics) {
+      return;
+    }
+
+    if (error === undefined) {
+      const usage = (result as AnalysisResult | undefined)?.metadata?.usage;
+      this.metrics.recordRequest(this.providerName, operationName, 200, duration, usage?.totalTokenCount);
+      return;
+    }
+
+    const code = error instanceof VisionError ? error.code : 'UNKNOWN_ERROR';
+    const statusCode = error instanceof VisionError && error.statusCode ? error.statusCode : 500;
+    this.metrics.recordRequest(this.providerName, operationName, statusCode, duration);
+    this.metrics.incrementCounter(`errors.${this.providerName}.${code}`);
+    if (RATE_LIMIT_ERROR_CODES.includes(code)) {
+      this.metrics.incrementCounter(`rate_limit.${this.providerName}`);
+    }
+  }
+
+  private isProviderFailure(error: Error): boolean {
+    return !(error instanceof VisionError && CLIENT_ERROR_CODES.includes(error.code));
+  }
+}
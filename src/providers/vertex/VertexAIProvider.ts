@@ -0,0 +1,678 @@
+import { createSign } from 'crypto';
+import { promises as fs } from 'fs';
+import type {
+  AnalysisOptions,
+  AnalysisResult,
+  FunctionName,
+  ImagePreview,
+  RequestPreview,
+  HealthStatus,
+  FileReference,
+  UploadedFile,
+  FileListResult,
+  VertexAIConfig,
+  VertexAIPart,
+  VertexAIGenerateContentRequest,
+  VertexAIGenerateContentResponse,
+  VertexAICountTokensResponse,
+  VertexAIErrorResponse,
+  VertexAIServiceAccount,
+} from '../../types/index.js';
+import { BaseVisionProvider } from '../base/VisionProvider.js';
+import { FileService } from '../../services/FileService.js';
+import { expandUser } from '../../utils/path-utils.js';
+import {
+  VisionError,
+  ProviderError,
+  ConfigurationError,
+  AuthenticationError,
+  AuthorizationError,
+  FileUploadError,
+  NetworkError,
+  RateLimitExceededError,
+} from '../../types/index.js';
+
+const OAUTH_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const TOKEN_LIFETIME_SECONDS = 3600;
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+// Vertex AI has no Files API, so images are always sent inline up to the request size limit
+const INLINE_DATA_LIMIT = 20 * 1024 * 1024;
+
+export class VertexAIProvider extends BaseVisionProvider {
+  private readonly vertexConfig: VertexAIConfig;
+  private fileService: FileService;
+  private serviceAccount: VertexAIServiceAccount | null = null;
+  private accessToken: { token: string; expiresAt: number } | null = null;
+
+  constructor(config: VertexAIConfig) {
+    super(config, 'vertex_ai');
+    this.vertexConfig = config;
+    this.fileService = new FileService(this, INLINE_DATA_LIMIT);
+  }
+
+  async analyzeImage(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const { part: imagePart, image } = await this.processImage(imageSource, options);
+      const request = this.buildRequest([{ text: prompt }, imagePart], options?.functionName, options);
+      const model = this.resolveModel(options);
+
+      if (options?.debugMode) {
+        console.log(`[VertexAIProvider] Model: ${model}, generation config:`, request.generationConfig);
+      }
+
+      const response = await this.generateContent(request, model);
+      return this.withPreprocessing(this.toAnalysisResult(response, Date.now() - startTime, model), [image.preprocessing]);
+    } catch (error) {
+      throw this.handleError(error, 'analyzeImage');
+    }
+  }
+
+  async compareImages(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      this.validateComparisonSources(imageSources);
+
+      const parts: VertexAIPart[] = [];
+      const images: ImagePreview[] = [];
+      for (const source of imageSources) {
+        const { part, image } = await this.processImage(source, options);
+        parts.push(part);
+        images.push(image);
+      }
+      parts.push({ text: prompt });
+
+      const request = this.buildRequest(parts, 'compare_images', options);
+      const model = this.resolveModel(options);
+
+      if (options?.debugMode) {
+        console.log('Vertex AI: Processing images for comparison...');
+        console.log(`Images: ${imageSources.length}, model: ${model}`);
+      }
+
+      const response = await this.generateContent(request, model);
+      return this.withPreprocessing(
+        this.toAnalysisResult(response, Date.now() - startTime, model),
+        images.map(image => image.preprocessing)
+      );
+    } catch (error) {
+      throw this.handleError(error, 'compareImages');
+    }
+  }
+
+  async previewRequest(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<RequestPreview> {
+    try {
+      const functionName: FunctionName = options?.functionName ?? 'analyze_image';
+      if (functionName === 'compare_images') {
+        this.validateComparisonSources(imageSources);
+      }
+
+      const images: ImagePreview[] = [];
+      const imageParts: VertexAIPart[] = [];
+      for (const source of imageSources) {
+        const { part, image } = await this.processImage(source, options, true);
+        images.push(image);
+        imageParts.push(part);
+      }
+
+      // Same part order as analyzeImage and compareImages
+      const parts = functionName === 'compare_images'
+        ? [...imageParts, { text: prompt }]
+        : [{ text: prompt }, imageParts[0]];
+      const request = this.buildRequest(parts, functionName, options);
+      const model = this.resolveModel(options);
+
+      const preview = this.createRequestPreview(
+        model,
+        functionName,
+        images,
+        request.contents,
+        this.buildConfigWithOptions('image', functionName, options),
+        options
+      );
+
+      try {
+        const response = await this.post<VertexAICountTokensResponse>(
+          'countTokens',
+          { contents: request.contents, systemInstruction: request.systemInstruction },
+          model
+        );
+        preview.promptTokenCount = response.totalTokens ?? 0;
+      } catch (error) {
+        preview.tokenCountError = this.handleError(error, 'countTokens').message;
+      }
+
+      return preview;
+    } catch (error) {
+      throw this.handleError(error, 'previewRequest');
+    }
+  }
+
+  async uploadFile(
+    _buffer: Buffer,
+    filename: string,
+    _mimeType: string
+  ): Promise<UploadedFile> {
+    throw new FileUploadError(
+      `Vertex AI does not provide a Files API; upload ${filename} to Cloud Storage and pass its gs:// URI instead`,
+      this.providerName
+    );
+  }
+
+  async downloadFile(fileId: string): Promise<Buffer> {
+    throw new ProviderError(
+      `Downloading files is not supported by Vertex AI: ${fileId}`,
+      this.providerName,
+      undefined,
+      501
+    );
+  }
+
+  async getFile(fileId: string): Promise<UploadedFile> {
+    throw new ProviderError(
+      `Looking up files is not supported by Vertex AI: ${fileId}`,
+      this.providerName,
+      undefined,
+      501
+    );
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    throw new ProviderError(
+      `Deleting files is not supported by Vertex AI: ${fileId}`,
+      this.providerName,
+      undefined,
+      501
+    );
+  }
+
+  async listFiles(_pageSize?: number, _pageToken?: string): Promise<FileListResult> {
+    throw new ProviderError(
+      'Listing files is not supported by Vertex AI; images are sent inline or referenced from Cloud Storage',
+      this.providerName,
+      undefined,
+      501
+    );
+  }
+
+  setModel(imageModel: string): void {
+    this.imageModel = imageModel;
+  }
+
+  getImageModel(): string {
+    return this.imageModel;
+  }
+
+  getSupportedFormats() {
+    return {
+      supportedImageFormats: ['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp', 'tiff'],
+      maxImageSize: INLINE_DATA_LIMIT,
+      supportsFileUpload: false,
+    };
+  }
+
+  getModelCapabilities() {
+    return {
+      imageAnalysis: true,
+      maxTokensForImage: 4096,
+      supportedFormats: ['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp', 'tiff'],
+    };
+  }
+
+  getProviderInfo() {
+    return {
+      name: this.providerName,
+      version: '1.0.0',
+      description: 'Google Vertex AI provider for AI vision analysis',
+      capabilities: this.getSupportedFormats(),
+      modelCapabilities: this.getModelCapabilities(),
+    };
+  }
+
+  async healthCheck(): Promise<HealthStatus> {
+    const startTime = Date.now();
+    try {
+      await this.generateContent({
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        generationConfig: { maxOutputTokens: 1 },
+      });
+
+      return {
+        status: 'healthy',
+        lastCheck: new Date().toISOString(),
+        responseTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      const mapped = this.handleError(error, 'healthCheck');
+      return {
+        status: 'unhealthy',
+        message: mapped.message,
+        errorCode: mapped instanceof VisionError ? mapped.code : undefined,
+        lastCheck: new Date().toISOString(),
+      };
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Regional aiplatform endpoint for the configured location
+   */
+  getEndpoint(): string {
+    if (this.vertexConfig.endpoint) {
+      return this.vertexConfig.endpoint.replace(/\/+$/, '');
+    }
+
+    return this.vertexConfig.location === 'global'
+      ? 'https://aiplatform.googleapis.com'
+      : `https://${this.vertexConfig.location}-aiplatform.googleapis.com`;
+  }
+
+  private async getModelUrl(method: string, model: string = this.imageModel): Promise<string> {
+    const projectId = await this.getProjectId();
+    return `${this.getEndpoint()}/v1/projects/${projectId}/locations/${this.vertexConfig.location}` +
+      `/publishers/google/models/${model}:${method}`;
+  }
+
+  private async getProjectId(): Promise<string> {
+    if (this.vertexConfig.projectId) {
+      return this.vertexConfig.projectId;
+    }
+
+    const serviceAccount = await this.loadServiceAccount();
+    if (!serviceAccount.project_id) {
+      throw new ConfigurationError(
+        'Vertex AI project ID is required. Set VERTEX_PROJECT_ID or vertex_ai.project_id in your configuration.',
+        'VERTEX_PROJECT_ID'
+      );
+    }
+    return serviceAccount.project_id;
+  }
+
+  private async generateContent(
+    request: VertexAIGenerateContentRequest,
+    model: string = this.imageModel
+  ): Promise<VertexAIGenerateContentResponse> {
+    return this.post<VertexAIGenerateContentResponse>('generateContent', request, model);
+  }
+
+  private async post<T>(method: string, body: unknown, model: string = this.imageModel): Promise<T> {
+    const url = await this.getModelUrl(method, model);
+    const token = await this.getAccessToken();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await this.createErrorFromResponse(response, model);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private buildRequest(
+    parts: VertexAIPart[],
+    functionName: FunctionName | undefined,
+    options?: AnalysisOptions
+  ): VertexAIGenerateContentRequest {
+    const { systemInstruction, ...generationConfig } = this.buildConfigWithOptions('image', functionName, options);
+
+    const request: VertexAIGenerateContentRequest = {
+      contents: [{ role: 'user', parts }],
+      generationConfig,
+    };
+
+    if (options?.safetySettings?.length) {
+      request.safetySettings = options.safetySettings;
+    }
+
+    if (systemInstruction) {
+      request.systemInstruction = { parts: [{ text: systemInstruction }] };
+    }
+
+    return request;
+  }
+
+  private validateComparisonSources(imageSources: string[]): void {
+    if (!imageSources || imageSources.length < 2) {
+      throw new VisionError(
+        'At least 2 images are required for comparison',
+        'INVALID_INPUT'
+      );
+    }
+
+    if (imageSources.length > 4) {
+      throw new VisionError(
+        'Maximum 4 images can be compared at once',
+        'INVALID_INPUT'
+      );
+    }
+  }
+
+  private async processImage(
+    imageSource: string,
+    options?: AnalysisOptions,
+    dryRun = false
+  ): Promise<{ part: VertexAIPart; image: ImagePreview }> {
+    // Cloud Storage objects are read by Vertex AI directly
+    if (imageSource.startsWith('gs://')) {
+      const mimeType = this.getMimeTypeForUri(imageSource);
+      return {
+        part: { fileData: { fileUri: imageSource, mimeType } },
+        image: { source: imageSource, mimeType, method: 'file_uri' },
+      };
+    }
+
+    const fileResult = await this.fileService.handleImageSource(imageSource, {
+      dryRun,
+      preprocessing: options?.preprocessing || undefined,
+    });
+    return {
+      part: this.buildPartFromReference(fileResult.reference),
+      image: {
+        source: imageSource,
+        mimeType: fileResult.reference.mimeType,
+        size: fileResult.processingInfo.size,
+        method: fileResult.processingInfo.method,
+        threshold: fileResult.processingInfo.threshold,
+        preprocessing: fileResult.preprocessing,
+      },
+    };
+  }
+
+  private buildPartFromReference(fileReference: FileReference): VertexAIPart {
+    switch (fileReference.type) {
+      case 'inline_data':
+      case 'base64':
+        return {
+          inlineData: {
+            mimeType: fileReference.mimeType,
+            data: fileReference.data!,
+          },
+        };
+
+      case 'file_uri':
+        return {
+          fileData: {
+            mimeType: fileReference.mimeType,
+            fileUri: fileReference.uri!,
+          },
+        };
+
+      default:
+        throw new VisionError(
+          `Unsupported file reference type: ${fileReference.type}`,
+          'UNSUPPORTED_FILE_TYPE'
+        );
+    }
+  }
+
+  private getMimeTypeForUri(uri: string): string {
+    const extension = uri.split('.').pop()?.toLowerCase() || '';
+    const mimeTypes: Record<string, string> = {
+      jpg: 'image/jpeg',
+      jpeg: 'image/jpeg',
+      png: 'image/png',
+      gif: 'image/gif',
+      webp: 'image/webp',
+      bmp: 'image/bmp',
+      tiff: 'image/tiff',
+    };
+    return mimeTypes[extension] || 'image/jpeg';
+  }
+
+  private toAnalysisResult(
+    response: VertexAIGenerateContentResponse,
+    processingTime: number,
+    model: string
+  ): AnalysisResult {
+    this.assertNotBlocked(response);
+
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+      throw new VisionError('Vertex AI returned no candidates', 'INVALID_RESPONSE', this.providerName);
+    }
+
+    const text = (candidate.content?.parts || [])
+      .map(part => ('text' in part ? part.text : ''))
+      .join('');
+
+    const usage = this.toUsageMetadata(response.usageMetadata);
+    const result = this.createAnalysisResult(text, model, usage, processingTime, response.responseId);
+    if (response.modelVersion) {
+      result.metadata.modelVersion = response.modelVersion;
+    }
+    return this.withSafetyMetadata(result, response);
+  }
+
+  /**
+   * Exchange a service-account signed JWT for an OAuth access token, cached until shortly before expiry
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return this.accessToken.token;
+    }
+
+    const serviceAccount = await this.loadServiceAccount();
+    const tokenUri = serviceAccount.token_uri || DEFAULT_TOKEN_URI;
+    const assertion = this.createSignedJwt(serviceAccount, tokenUri);
+
+    const response = await fetch(tokenUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(),
+    });
+
+    const body = await response.json().catch(() => ({})) as {
+      access_token?: string;
+      expires_in?: number;
+      error?: string;
+      error_description?: string;
+    };
+
+    if (!response.ok || !body.access_token) {
+      const detail = body.error_description || body.error || `status ${response.status}`;
+      if (response.status >= 500) {
+        throw new ProviderError(`OAuth token exchange failed: ${detail}`, this.providerName, undefined, response.status);
+      }
+      throw new AuthenticationError(`Vertex AI authentication failed: ${detail}`, this.providerName);
+    }
+
+    this.accessToken = {
+      token: body.access_token,
+      expiresAt: Date.now() + (body.expires_in ?? TOKEN_LIFETIME_SECONDS) * 1000,
+    };
+
+    return this.accessToken.token;
+  }
+
+  private createSignedJwt(serviceAccount: VertexAIServiceAccount, audience: string): string {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const header: Record<string, string> = { alg: 'RS256', typ: 'JWT' };
+    if (serviceAccount.private_key_id) {
+      header.kid = serviceAccount.private_key_id;
+    }
+
+    const claims = {
+      iss: serviceAccount.client_email,
+      scope: OAUTH_SCOPE,
+      aud: audience,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_LIFETIME_SECONDS,
+    };
+
+    const unsigned = `${this.base64Url(JSON.stringify(header))}.${this.base64Url(JSON.stringify(claims))}`;
+
+    try {
+      const signature = createSign('RSA-SHA256').update(unsigned).sign(serviceAccount.private_key);
+      return `${unsigned}.${this.base64Url(signature)}`;
+    } catch (error) {
+      throw new ConfigurationError(
+        `Invalid service account private key: ${error instanceof Error ? error.message : String(error)}`,
+        'VERTEX_CREDENTIALS'
+      );
+    }
+  }
+
+  private base64Url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  }
+
+  /**
+   * Read the service account from inline JSON or a key file path
+   */
+  private async loadServiceAccount(): Promise<VertexAIServiceAccount> {
+    if (this.serviceAccount) {
+      return this.serviceAccount;
+    }
+
+    const credentials = this.vertexConfig.credentials?.trim();
+    if (!credentials) {
+      throw new ConfigurationError(
+        'Vertex AI credentials are required. Set VERTEX_CREDENTIALS to a service account JSON file.',
+        'VERTEX_CREDENTIALS'
+      );
+    }
+
+    let raw: string;
+    if (credentials.startsWith('{')) {
+      raw = credentials;
+    } else {
+      try {
+        raw = await fs.readFile(expandUser(credentials), 'utf-8');
+      } catch (error) {
+        throw new ConfigurationError(
+          `Unable to read Vertex AI credentials file ${credentials}: ${error instanceof Error ? error.message : String(error)}`,
+          'VERTEX_CREDENTIALS'
+        );
+      }
+    }
+
+    let parsed: Partial<VertexAIServiceAccount>;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new ConfigurationError('Vertex AI credentials are not valid JSON', 'VERTEX_CREDENTIALS');
+    }
+
+    if (!parsed.client_email || !parsed.private_key) {
+      throw new ConfigurationError(
+        'Vertex AI credentials must be a service account key with client_email and private_key',
+        'VERTEX_CREDENTIALS'
+      );
+    }
+
+    this.serviceAccount = parsed as VertexAIServiceAccount;
+    return this.serviceAccount;
+  }
+
+  /**
+   * Map a Vertex AI error payload ({ error: { code, message, status } }) into the VisionError hierarchy
+   */
+  private async createErrorFromResponse(response: Response, model: string = this.imageModel): Promise<VisionError> {
+    let message = `Vertex AI request failed with status ${response.status}`;
+    let status: string | undefined;
+
+    try {
+      const body = (await response.json()) as Partial<VertexAIErrorResponse>;
+      if (body.error?.message) {
+        message = body.error.message;
+      }
+      status = body.error?.status;
+    } catch {
+      // Non-JSON error body; keep the generic message
+    }
+
+    const detail = status ? `${status}: ${message}` : message;
+
+    if (response.status === 401 || status === 'UNAUTHENTICATED') {
+      // Force a fresh token on the next attempt
+      this.accessToken = null;
+      return new AuthenticationError(`Vertex AI authentication failed: ${detail}`, this.providerName);
+    }
+
+    if (response.status === 403 || status === 'PERMISSION_DENIED') {
+      return new AuthorizationError(`Vertex AI permission denied: ${detail}`, this.providerName);
+    }
+
+    if (response.status === 429 || status === 'RESOURCE_EXHAUSTED') {
+      const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+      return new RateLimitExceededError(
+        `Vertex AI rate limit exceeded: ${detail}`,
+        this.providerName,
+        isNaN(retryAfter) ? undefined : retryAfter
+      );
+    }
+
+    if (response.status === 404 || status === 'NOT_FOUND') {
+      return new VisionError(
+        `Vertex AI resource not found (check model "${model}", project and location): ${detail}`,
+        'NOT_FOUND',
+        this.providerName,
+        undefined,
+        404
+      );
+    }
+
+    if (response.status === 400 || status === 'INVALID_ARGUMENT' || status === 'FAILED_PRECONDITION') {
+      return new VisionError(
+        `Invalid request: ${detail}`,
+        'INVALID_REQUEST',
+        this.providerName,
+        undefined,
+        400
+      );
+    }
+
+    return new ProviderError(`Vertex AI error: ${detail}`, this.providerName, undefined, response.status);
+  }
+
+  private handleError(error: unknown, operation: string): Error {
+    if (error instanceof VisionError) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      // fetch() rejects with a TypeError for DNS, TLS and connection failures
+      if (error.name === 'TypeError' || error.message.includes('ENOTFOUND') || error.message.includes('ECONNREFUSED')) {
+        return new NetworkError(`Network error for ${operation}: ${error.message}`, error);
+      }
+
+      return new ProviderError(
+        `Provider error during ${operation}: ${error.message}`,
+        this.providerName,
+        error
+      );
+    }
+
+    return new VisionError(
+      `Unknown error during ${operation}: ${String(error)}`,
+      'PROVIDER_ERROR',
+      this.providerName
+    );
+  }
+}
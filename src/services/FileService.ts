@@ -3,11 +3,14 @@
  * for URLs, local files, and base64 data - ported from MCP with CLI enhancements
  */
 
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import type {
   VisionProvider,
   FileReference,
+  ImagePreprocessing,
+  PreprocessingConfig,
 } from '../types/index.js';
 import {
   FileUploadError,
@@ -16,6 +19,7 @@ import {
   FileNotFoundError,
   NetworkError,
 } from '../types/index.js';
+import { preprocessImage } from '../utils/image-preprocessing.js';
 
 export interface FileProcessingResult {
   buffer: Buffer;
@@ -31,6 +35,22 @@ export interface FileAnalysisResult {
     method: 'inline_data' | 'file_uri';
     threshold: number;
   };
+  /** Set when the image was transformed before being sent */
+  preprocessing?: ImagePreprocessing;
+}
+
+export interface FileHandlingOptions {
+  /** Always upload through the provider's Files API regardless of size */
+  forceUpload?: boolean;
+  /** Override the size above which images are uploaded instead of sent inline */
+  filesThreshold?: number;
+  /**
+   * Decide between inline data and upload without uploading (--dry-run).
+   * Images that would be uploaded keep their data inline so tokens can still be counted.
+   */
+  dryRun?: boolean;
+  /** Orient, downscale and convert the image before it is sent */
+  preprocessing?: PreprocessingConfig;
 }
 
 export class FileService {
@@ -46,14 +66,11 @@ export class FileService {
    * Main entry point for handling image sources
    * Detects input type and processes accordingly
    */
-  async handleImageSource(imageSource: string): Promise<FileAnalysisResult> {
-    const { buffer, mimeType, filename } = await this.getImageData(imageSource);
-
-    // Validate file size
-    const maxSize = this.getMaxFileSize();
-    if (buffer.length > maxSize) {
-      throw new FileSizeExceededError(buffer.length, maxSize);
-    }
+  async handleImageSource(
+    imageSource: string,
+    options: FileHandlingOptions = {}
+  ): Promise<FileAnalysisResult> {
+    let { buffer, mimeType, filename } = await this.getImageData(imageSource);
 
     // Validate file type
     if (!this.isSupportedFileType(mimeType)) {
@@ -63,10 +80,25 @@ export class FileService {
       );
     }
 
+    // Transform before the size check, so downscaling can bring large photos under the limit
+    const preprocessed = options.preprocessing ? await preprocessImage(buffer, mimeType, options.preprocessing) : undefined;
+    if (preprocessed) {
+      buffer = preprocessed.buffer;
+      mimeType = preprocessed.mimeType;
+      filename = filename && `${path.parse(filename).name}.${this.getFileExtension(mimeType)}`;
+    }
+
+    // Validate file size
+    const maxSize = this.getMaxFileSize();
+    if (buffer.length > maxSize) {
+      throw new FileSizeExceededError(buffer.length, maxSize);
+    }
+
     // Choose processing method based on size threshold
-    const shouldUpload = buffer.length > this.filesThreshold;
+    const threshold = options.filesThreshold ?? this.filesThreshold;
+    const shouldUpload = options.forceUpload === true || buffer.length > threshold;
 
-    if (shouldUpload) {
+    if (shouldUpload && !options.dryRun) {
       // Upload to Files API for large images
       const uploadedFile = await this.provider.uploadFile(buffer, filename || `image.${this.getFileExtension(mimeType)}`, mimeType);
       const reference: FileReference = {
@@ -80,11 +112,12 @@ export class FileService {
         processingInfo: {
           size: buffer.length,
           method: 'file_uri',
-          threshold: this.filesThreshold,
+          threshold,
         },
+        preprocessing: preprocessed?.info,
       };
     } else {
-      // Use inline data for small images
+      // Use inline data for small images (and for would-be uploads in a dry run)
       const reference: FileReference = {
         type: 'inline_data',
         data: buffer.toString('base64'),
@@ -95,9 +128,10 @@ export class FileService {
         reference,
         processingInfo: {
           size: buffer.length,
-          method: 'inline_data',
-          threshold: this.filesThreshold,
+          method: shouldUpload ? 'file_uri' : 'inline_data',
+          threshold,
         },
+        preprocessing: preprocessed?.info,
       };
     }
   }
@@ -106,12 +140,15 @@ export class FileService {
   /**
    * Process multiple images for comparison
    */
-  async handleMultipleImages(imageSources: string[]): Promise<FileAnalysisResult[]> {
+  async handleMultipleImages(
+    imageSources: string[],
+    options: FileHandlingOptions = {}
+  ): Promise<FileAnalysisResult[]> {
     const results: FileAnalysisResult[] = [];
 
     for (const source of imageSources) {
       try {
-        const result = await this.handleImageSource(source);
+        const result = await this.handleImageSource(source, options);
         results.push(result);
       } catch (error) {
         throw new FileUploadError(
@@ -123,6 +160,21 @@ export class FileService {
     return results;
   }
 
+  /**
+   * SHA-256 of an image's bytes, read exactly as for analysis (response cache key)
+   */
+  async getImageDigest(imageSource: string): Promise<string> {
+    const { buffer } = await this.getImageData(imageSource);
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Read an image's bytes and type exactly as for analysis, before preprocessing
+   */
+  async loadImage(imageSource: string): Promise<FileProcessingResult> {
+    return this.getImageData(imageSource);
+  }
+
   /**
    * Direct file reading (used for object detection with temp files)
    */
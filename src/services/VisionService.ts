@@ -1,17 +1,58 @@
-import type { VisionProvider } from '../types/index.js';
+import type {
+  VisionProvider,
+  AnalysisOptions,
+  AnalysisResult,
+  AnalysisStream,
+  CostEstimate,
+  DiffMetadata,
+  FunctionName,
+  FileListResult,
+  PreprocessingConfig,
+  RequestPreview,
+  UploadedFile,
+  UsageMetadata,
+} from '../types/index.js';
 import { ConfigService } from '../config/ConfigService.js';
+import { resolveGenerationParameters, type ResolvedGenerationParameters } from '../config/parameter-resolver.js';
+import { mergeSafetySettings, toSafetySettings } from '../config/safety-settings.js';
 import { VisionProviderFactory } from '../providers/factory/ProviderFactory.js';
+import { ResilientVisionProvider } from '../providers/resilient/ResilientVisionProvider.js';
+import { globalCircuitBreakerManager } from '../utils/circuit-breaker.js';
+import { globalRateLimiter } from '../utils/rate-limiter.js';
+import { globalMetricsCollector } from '../utils/metrics.js';
+import { MetricsStore, enableMetricsPersistence } from '../utils/metrics-store.js';
+import { estimateCost } from '../utils/pricing.js';
+import { UsageLedger, describeBudget, type BudgetStatus } from '../utils/usage-ledger.js';
+import { ResponseCache } from '../utils/response-cache.js';
+import { withBatchProgress } from '../utils/progress.js';
+import { parseDetections } from '../utils/detection-utils.js';
+import {
+  splitImage,
+  mergeTileDetections,
+  DEFAULT_TILE_CONCURRENCY,
+  type TilingOptions,
+} from '../utils/tiled-detection.js';
+import { diffImages, type DiffAnalysis, type DiffOptions } from '../utils/image-diff.js';
+import { buildDiffPrompt, explainDiffRegions } from '../utils/comparison-utils.js';
+import { FileService } from './FileService.js';
+import chalk from 'chalk';
+import sharp from 'sharp';
 import {
   VisionError,
+  BudgetExceededError,
+  CacheMissError,
 } from '../types/index.js';
 
 export class VisionService {
   private static instance: VisionService;
   private providers: Map<string, VisionProvider> | null = null;
   private configService: ConfigService;
+  private ledger: UsageLedger;
+  private warnedBudgets = new Set<string>();
 
   private constructor() {
     this.configService = ConfigService.getInstance();
+    this.ledger = new UsageLedger();
     this.providers = null;
   }
 
@@ -29,7 +70,31 @@ export class VisionService {
 
     try {
       const config = await this.configService.loadConfig();
-      this.providers = await VisionProviderFactory.initializeDefaultProviders(config);
+      const providers = await VisionProviderFactory.initializeDefaultProviders(config);
+
+      // Route every provider call through rate limiting, the circuit breaker and retries
+      const resilience = {
+        retry: await this.configService.getRetryConfig(),
+        rateLimiting: await this.configService.getRateLimitingConfig(),
+        circuitBreaker: await this.configService.getCircuitBreakerConfig(),
+      };
+
+      // Latency, tokens and errors of every call are kept across invocations
+      const metricsConfig = await this.configService.getMetricsConfig();
+      const metrics = metricsConfig.enabled ? globalMetricsCollector : null;
+      if (metrics) {
+        enableMetricsPersistence(metrics, new MetricsStore(undefined, metricsConfig.retention_period));
+      }
+
+      this.providers = new Map();
+      for (const [name, provider] of providers) {
+        this.providers.set(
+          name,
+          new ResilientVisionProvider(provider, name, resilience, globalRateLimiter, globalCircuitBreakerManager, metrics)
+        );
+        // rate_limiting.quota_per_day counts today's requests from every invocation
+        globalRateLimiter.restoreQuotaUsage(name, this.ledger.getTotals('daily', new Date(), name).requests);
+      }
     } catch (error) {
       throw new VisionError(
         `Failed to initialize vision providers: ${error instanceof Error ? error.message : String(error)}`,
@@ -93,25 +158,325 @@ export class VisionService {
     this.providers = null;
   }
 
-    public async analyzeImage(
+  /**
+   * Resolve generation parameters from CLI options, env vars and the config file
+   */
+  public async resolveParameters(
+    options: AnalysisOptions = {},
+    functionName: FunctionName = 'analyze_image'
+  ): Promise<ResolvedGenerationParameters> {
+    return resolveGenerationParameters({
+      taskType: options.taskType,
+      functionName: options.functionName ?? functionName,
+      options,
+      settings: await this.configService.getGenerationSettings(),
+    });
+  }
+
+  /**
+   * Model for a function: the --model override, then settings.models.<function>.
+   * Undefined means the provider's image model (settings.image_model).
+   */
+  public async resolveModel(
+    options: AnalysisOptions = {},
+    functionName: FunctionName = 'analyze_image'
+  ): Promise<string | undefined> {
+    if (options.model) {
+      return options.model;
+    }
+    const config = await this.configService.loadConfig();
+    return config.settings.models?.[options.functionName ?? functionName];
+  }
+
+  /**
+   * Fill in the resolved parameters, model and safety settings so providers
+   * send exactly what resolveParameters() and resolveModel() report
+   */
+  private async withResolvedParameters(
+    options: AnalysisOptions | undefined,
+    functionName: FunctionName
+  ): Promise<AnalysisOptions> {
+    const parameters = await this.resolveParameters(options, functionName);
+    const config = await this.configService.loadConfig();
+    return {
+      ...options,
+      functionName: options?.functionName ?? functionName,
+      model: await this.resolveModel(options, functionName),
+      // --safety overrides settings.safety per category
+      safetySettings: mergeSafetySettings(toSafetySettings(config.settings.safety), options?.safetySettings),
+      // --no-preprocess sends images unchanged
+      preprocessing: options?.preprocessing ?? await this.resolvePreprocessing(),
+      temperature: parameters.temperature.value,
+      topP: parameters.topP.value,
+      topK: parameters.topK.value,
+      maxTokens: parameters.maxTokens.value,
+    };
+  }
+
+  private async resolvePreprocessing(): Promise<PreprocessingConfig | false> {
+    const preprocessing = await this.configService.getPreprocessingConfig();
+    return preprocessing.enabled ? preprocessing : false;
+  }
+
+  /**
+   * Check the usage ledger against the configured budgets before a request.
+   * Throws once a limit is reached with action "block"; otherwise warns once
+   * per limit when usage passes the warning threshold.
+   */
+  public async enforceBudgets(): Promise<BudgetStatus[]> {
+    const budgets = await this.configService.getBudgetConfig();
+    if (!budgets.enabled) {
+      return [];
+    }
+
+    const statuses = this.ledger.checkBudgets(budgets);
+    const { currency } = await this.configService.getPricingConfig();
+
+    const exceeded = statuses.find(status => status.exceeded);
+    if (exceeded && budgets.action === 'block') {
+      throw new BudgetExceededError(`${describeBudget(exceeded, currency)}; request not sent`);
+    }
+
+    for (const status of statuses) {
+      const key = `${status.period}.${status.metric}`;
+      if (status.ratio >= budgets.warn_threshold && !this.warnedBudgets.has(key)) {
+        this.warnedBudgets.add(key);
+        console.error(chalk.yellow(`⚠️  ${describeBudget(status, currency)}`));
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Attach the estimated cost of a request to its metadata and add it to the usage ledger
+   */
+  private async recordUsage(result: AnalysisResult): Promise<AnalysisResult> {
+    if (result.metadata?.usage) {
+      result.metadata.cost = estimateCost(
+        result.metadata.usage,
+        result.metadata.model,
+        await this.configService.getPricingConfig()
+      );
+    }
+
+    try {
+      this.ledger.record(result.metadata);
+    } catch (error) {
+      // A ledger that cannot be written must not fail a request that already succeeded
+      if (process.env.LOG_LEVEL === 'debug') {
+        console.error('Failed to record usage:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Look up a request in the response cache. Returns the cache key to store
+   * the result under (none when caching is off) and the cached result on a hit.
+   */
+  private async readCache(
+    provider: VisionProvider,
+    imageSources: string[],
+    prompt: string,
+    options: AnalysisOptions
+  ): Promise<{ key?: string; hit?: AnalysisResult }> {
+    const mode = options.cacheMode ?? 'use';
+    const config = await this.configService.getCacheConfig();
+    if (mode === 'off' || !config.enabled) {
+      if (mode === 'offline') {
+        throw new CacheMissError('--offline needs the response cache, which is disabled in the config file');
+      }
+      return {};
+    }
+
+    const fileService = new FileService(provider);
+    const key = ResponseCache.computeKey({
+      provider: provider.getProviderInfo().name,
+      model: options.model || provider.getImageModel(),
+      functionName: options.functionName ?? 'analyze_image',
+      // Cloud Storage objects are not downloaded; their URI stands in for the content
+      images: await Promise.all(imageSources.map(source =>
+        source.startsWith('gs://') ? source : fileService.getImageDigest(source)
+      )),
+      prompt,
+      systemInstruction: options.systemInstruction,
+      responseSchema: options.responseSchema,
+      temperature: options.temperature,
+      topP: options.topP,
+      topK: options.topK,
+      maxTokens: options.maxTokens,
+      stopSequences: options.stopSequences,
+      safetySettings: options.safetySettings,
+      preprocessing: options.preprocessing || undefined,
+    });
+
+    const cache = new ResponseCache(config);
+    const hit = mode === 'refresh' ? undefined : cache.get(key);
+    if (mode !== 'refresh') {
+      cache.recordLookup(hit);
+    }
+
+    if (hit) {
+      // Nothing was spent on this request
+      return { key, hit: { ...hit, metadata: { ...hit.metadata, cost: undefined, cached: true } } };
+    }
+    if (mode === 'offline') {
+      // Tiles and base64 input are data URLs; naming them would print the whole image
+      const names = imageSources.map(source => (source.startsWith('data:') ? 'inline image data' : source));
+      throw new CacheMissError(`No cached response for ${names.join(', ')} with this prompt, model and parameters`);
+    }
+    return { key };
+  }
+
+  private async writeCache(key: string | undefined, result: AnalysisResult): Promise<AnalysisResult> {
+    if (!key) {
+      return result;
+    }
+
+    try {
+      new ResponseCache(await this.configService.getCacheConfig()).set(key, result);
+    } catch (error) {
+      // Like the usage ledger, an unwritable cache must not fail a successful request
+      if (process.env.LOG_LEVEL === 'debug') {
+        console.error('Failed to cache response:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Serve a request from the cache, or check budgets, call the provider,
+   * record usage and cache the result
+   */
+  private async generate(
+    imageSources: string[],
+    prompt: string,
+    options: AnalysisOptions | undefined,
+    functionName: FunctionName,
+    providerType: 'google' | 'vertex_ai' | undefined,
+    call: (provider: VisionProvider, options: AnalysisOptions) => Promise<AnalysisResult>
+  ): Promise<AnalysisResult> {
+    const provider = await this.getProvider(providerType);
+    const resolved = await this.withResolvedParameters(options, functionName);
+    const { key, hit } = await this.readCache(provider, imageSources, prompt, resolved);
+    if (hit) {
+      return hit;
+    }
+
+    await this.enforceBudgets();
+    return this.writeCache(key, await this.recordUsage(await call(provider, resolved)));
+  }
+
+  /**
+   * Streaming counterpart of generate(); a cached result arrives as a single chunk
+   */
+  private async *generateStream(
+    imageSources: string[],
+    prompt: string,
+    options: AnalysisOptions | undefined,
+    functionName: FunctionName,
+    providerType: 'google' | 'vertex_ai' | undefined,
+    call: (provider: VisionProvider, options: AnalysisOptions) => AnalysisStream
+  ): AnalysisStream {
+    const provider = await this.getProvider(providerType);
+    const resolved = await this.withResolvedParameters(options, functionName);
+    const { key, hit } = await this.readCache(provider, imageSources, prompt, resolved);
+    if (hit) {
+      yield hit.text;
+      return hit;
+    }
+
+    await this.enforceBudgets();
+    const result = yield* call(provider, resolved);
+    return this.writeCache(key, await this.recordUsage(result));
+  }
+
+  public async analyzeImage(
     imageSource: string,
     prompt: string,
     options?: any,
     providerType?: 'google' | 'vertex_ai'
   ): Promise<any> {
-    const provider = await this.getProvider(providerType);
-    return provider.analyzeImage(imageSource, prompt, options);
+    return this.generate([imageSource], prompt, options, 'analyze_image', providerType,
+      (provider, resolved) => provider.analyzeImage(imageSource, prompt, resolved));
+  }
+
+  /**
+   * Ask several questions about one image, one request per prompt. The image
+   * is read from provider-side cached content unless options.contextCache is false.
+   */
+  public async analyzeImagePrompts(
+    imageSource: string,
+    prompts: string[],
+    options?: AnalysisOptions,
+    providerType?: 'google' | 'vertex_ai'
+  ): Promise<AnalysisResult[]> {
+    const results: AnalysisResult[] = [];
+    const promptOptions = { ...options, contextCache: options?.contextCache ?? prompts.length > 1 };
+
+    for (const prompt of prompts) {
+      results.push(await this.analyzeImage(imageSource, prompt, promptOptions, providerType));
+    }
+    return results;
   }
 
-  
   public async compareImages(
     imageSources: string[],
     prompt: string,
     options?: any,
     providerType?: 'google' | 'vertex_ai'
   ): Promise<any> {
+    return this.generate(imageSources, prompt, options, 'compare_images', providerType,
+      (provider, resolved) => provider.compareImages(imageSources, prompt, resolved));
+  }
+
+  public async *analyzeImageStream(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions,
+    providerType?: 'google' | 'vertex_ai'
+  ): AnalysisStream {
+    return yield* this.generateStream([imageSource], prompt, options, 'analyze_image', providerType,
+      (provider, resolved) => provider.analyzeImageStream(imageSource, prompt, resolved));
+  }
+
+  public async *compareImagesStream(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions,
+    providerType?: 'google' | 'vertex_ai'
+  ): AnalysisStream {
+    return yield* this.generateStream(imageSources, prompt, options, 'compare_images', providerType,
+      (provider, resolved) => provider.compareImagesStream(imageSources, prompt, resolved));
+  }
+
+  /**
+   * Build the request an analysis, comparison or detection would send and
+   * count its prompt tokens, without generating anything (--dry-run).
+   * Budgets are not checked and nothing is added to the usage ledger.
+   */
+  public async previewRequest(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions,
+    providerType?: 'google' | 'vertex_ai'
+  ): Promise<RequestPreview> {
     const provider = await this.getProvider(providerType);
-    return provider.compareImages(imageSources, prompt, options);
+    const preview = await provider.previewRequest(
+      imageSources,
+      prompt,
+      await this.withResolvedParameters(options, options?.functionName ?? 'analyze_image')
+    );
+
+    if (preview.promptTokenCount !== undefined) {
+      preview.cost = estimateCost(
+        { promptTokenCount: preview.promptTokenCount, candidatesTokenCount: 0, totalTokenCount: preview.promptTokenCount },
+        preview.model,
+        await this.configService.getPricingConfig()
+      );
+    }
+    return preview;
   }
 
   public async uploadFile(
@@ -132,6 +497,14 @@ export class VisionService {
     return provider.downloadFile(fileId);
   }
 
+  public async getFile(
+    fileId: string,
+    providerType?: 'google' | 'vertex_ai'
+  ): Promise<UploadedFile> {
+    const provider = await this.getProvider(providerType);
+    return provider.getFile(fileId);
+  }
+
   public async deleteFile(
     fileId: string,
     providerType?: 'google' | 'vertex_ai'
@@ -140,13 +513,200 @@ export class VisionService {
     return provider.deleteFile(fileId);
   }
 
+  public async listFiles(
+    pageSize?: number,
+    pageToken?: string,
+    providerType?: 'google' | 'vertex_ai'
+  ): Promise<FileListResult> {
+    const provider = await this.getProvider(providerType);
+    return provider.listFiles(pageSize, pageToken);
+  }
+
+  /**
+   * Collect every uploaded file by following list pagination
+   */
+  public async listAllFiles(providerType?: 'google' | 'vertex_ai'): Promise<UploadedFile[]> {
+    const files: UploadedFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.listFiles(100, pageToken, providerType);
+      files.push(...page.files);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  }
+
     public async detectObjects(
     imageSource: string,
     prompt: string,
     options?: any,
     providerType?: 'google' | 'vertex_ai'
   ): Promise<any> {
+    return this.generate([imageSource], prompt, options, 'detect_objects_in_image', providerType,
+      (provider, resolved) => provider.analyzeImage(imageSource, prompt, resolved));
+  }
+
+  /**
+   * Detect objects on overlapping tiles of a high-resolution image, one request
+   * per tile, and merge the boxes into one result for the whole image. Each
+   * tile is cached, budgeted and recorded like any other detection request.
+   */
+  public async detectObjectsTiled(
+    imageSource: string,
+    prompt: string,
+    tiling: TilingOptions,
+    options?: AnalysisOptions,
+    providerType?: 'google' | 'vertex_ai'
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const provider = await this.getProvider(providerType);
+    const image = await new FileService(provider).loadImage(imageSource);
+    const preprocessing = options?.preprocessing ?? await this.resolvePreprocessing();
+    const split = await splitImage(image.buffer, tiling, preprocessing ? preprocessing.auto_orient : false);
+
+    const tileResults: AnalysisResult[] = [];
+    await withBatchProgress(
+      split.tiles,
+      `Detecting objects in ${split.tiles.length} tiles`,
+      async (tile, index) => {
+        tileResults[index] = await this.detectObjects(tile.source, prompt, options, providerType);
+      },
+      false,
+      tiling.concurrency ?? DEFAULT_TILE_CONCURRENCY
+    );
+
+    const tileDetections = split.tiles.map((tile, index) => ({ tile, objects: parseDetections(tileResults[index].text) }));
+    const merged = mergeTileDetections(tileDetections, split.width, split.height, tiling.iouThreshold);
+
+    const result: AnalysisResult = {
+      text: JSON.stringify(merged),
+      metadata: {
+        model: tileResults[0].metadata.model,
+        provider: tileResults[0].metadata.provider,
+        usage: sumUsage(tileResults),
+        cost: sumCost(tileResults),
+        processingTime: Date.now() - startTime,
+        modelVersion: tileResults[0].metadata.modelVersion,
+        finishReason: tileResults.find(tile => tile.metadata.finishReason !== 'STOP')?.metadata.finishReason
+          ?? tileResults[0].metadata.finishReason,
+        cached: tileResults.every(tile => tile.metadata.cached) || undefined,
+        tiling: {
+          tileSize: tiling.tileSize,
+          overlap: tiling.overlap,
+          width: split.width,
+          height: split.height,
+          tiles: split.tiles.length,
+          detections: tileDetections.reduce((sum, tile) => sum + tile.objects.length, 0),
+        },
+      },
+    };
+
+    // Boxes are on the oriented image; callers map them back with the orientation
+    if (split.orientation) {
+      const metadata = await sharp(image.buffer).metadata();
+      result.metadata.preprocessing = [{
+        originalWidth: metadata.width ?? split.height,
+        originalHeight: metadata.height ?? split.width,
+        originalMimeType: image.mimeType,
+        originalSize: image.buffer.length,
+        width: split.width,
+        height: split.height,
+        mimeType: 'image/png',
+        size: image.buffer.length,
+        orientation: split.orientation,
+        transforms: [`auto-orient (EXIF orientation ${split.orientation})`],
+      }];
+    }
+
+    return result;
+  }
+
+  /**
+   * Find where two images differ with a local pixel and SSIM comparison, then
+   * ask the model to explain each changed region in one comparison request.
+   * No request is made when nothing changed.
+   */
+  public async compareImagesDiff(
+    imageSources: [string, string],
+    prompt: string,
+    diffOptions: DiffOptions,
+    options?: AnalysisOptions,
+    providerType?: 'google' | 'vertex_ai'
+  ): Promise<DiffAnalysis> {
+    const startTime = Date.now();
     const provider = await this.getProvider(providerType);
-    return provider.analyzeImage(imageSource, prompt, options);
+    const fileService = new FileService(provider);
+    const [before, after] = await Promise.all(imageSources.map(source => fileService.loadImage(source)));
+    const preprocessing = options?.preprocessing ?? await this.resolvePreprocessing();
+    const diff = await diffImages(before.buffer, after.buffer, diffOptions, preprocessing ? preprocessing.auto_orient : false);
+
+    const metadata: DiffMetadata = {
+      width: diff.width,
+      height: diff.height,
+      similarity: diff.similarity,
+      changedPercent: diff.changedPercent,
+      regions: diff.regions.length,
+    };
+
+    if (diff.regions.length === 0) {
+      const result: AnalysisResult = {
+        text: '[]',
+        metadata: {
+          model: options?.model || provider.getImageModel(),
+          provider: provider.getProviderInfo().name,
+          processingTime: Date.now() - startTime,
+          diff: metadata,
+        },
+      };
+      return { result, diff, changes: [] };
+    }
+
+    const result: AnalysisResult = await this.compareImages(imageSources, buildDiffPrompt(prompt, diff.regions), options, providerType);
+    const changes = explainDiffRegions(diff.regions, result.text);
+
+    result.text = JSON.stringify(changes);
+    result.metadata.processingTime = Date.now() - startTime;
+    result.metadata.diff = metadata;
+    return { result, diff, changes };
   }
-}
\ No newline at end of file
+}
+
+// Token counts of several requests added up
+function sumUsage(results: AnalysisResult[]): UsageMetadata | undefined {
+  const usages = results.map(result => result.metadata.usage).filter((usage): usage is UsageMetadata => !!usage);
+  if (usages.length === 0) {
+    return undefined;
+  }
+
+  const total = (pick: (usage: UsageMetadata) => number | undefined) => usages.reduce((sum, usage) => sum + (pick(usage) || 0), 0);
+  const usage: UsageMetadata = {
+    promptTokenCount: total(usage => usage.promptTokenCount),
+    candidatesTokenCount: total(usage => usage.candidatesTokenCount),
+    totalTokenCount: total(usage => usage.totalTokenCount),
+  };
+  if (usages.some(usage => usage.imageTokenCount !== undefined)) {
+    usage.imageTokenCount = total(usage => usage.imageTokenCount);
+  }
+  if (usages.some(usage => usage.cachedTokenCount !== undefined)) {
+    usage.cachedTokenCount = total(usage => usage.cachedTokenCount);
+  }
+  return usage;
+}
+
+// Estimated cost of several requests added up; cached responses cost nothing
+function sumCost(results: AnalysisResult[]): CostEstimate | undefined {
+  const costs = results.map(result => result.metadata.cost).filter((cost): cost is CostEstimate => !!cost);
+  if (costs.length === 0) {
+    return undefined;
+  }
+
+  return costs.slice(1).reduce((sum, cost) => ({
+    ...sum,
+    input: sum.input + cost.input,
+    output: sum.output + cost.output,
+    image: sum.image + cost.image,
+    total: sum.total + cost.total,
+  }), costs[0]);
+}
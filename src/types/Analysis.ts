@@ -2,6 +2,8 @@
  * Analysis types for AI Vision CLI
  */
 
+import type { PreprocessingConfig } from './Config.js';
+
 export type TaskType = 'image';
 export type FunctionName = 'analyze_image' | 'compare_images' | 'detect_objects_in_image';
 
@@ -17,12 +19,23 @@ export interface AnalysisOptions {
   // Task specification
   taskType?: TaskType;
   functionName?: FunctionName;
+  model?: string; // Model override for this request; defaults to the provider's image model
 
   // Advanced AI features
   responseSchema?: any; // Structured output schema for object detection
   systemInstruction?: string; // System instruction to guide model behavior
+  safetySettings?: SafetySetting[]; // Block thresholds per harm category; provider defaults otherwise
+
+  // Response cache
+  cacheMode?: CacheMode; // 'use' when unset
+
+  // Provider-side context cache: the image and system instruction are stored
+  // once and referenced by later prompts. true uses the default TTL; a number
+  // sets the TTL in seconds. Only the Gemini API supports it.
+  contextCache?: boolean | number;
 
   // File processing options
+  preprocessing?: PreprocessingConfig | false; // false sends images unchanged; unset uses the config file
   enableFileUpload?: boolean; // Force Files API usage
   filesThreshold?: number; // Custom threshold for file uploads
 
@@ -31,11 +44,22 @@ export interface AnalysisOptions {
   debugMode?: boolean; // Enable debug logging
 }
 
+/**
+ * How a request uses the local response cache:
+ * use (read and write), refresh (write only), off, or offline (read only, never call the provider)
+ */
+export type CacheMode = 'use' | 'refresh' | 'off' | 'offline';
+
 export interface AnalysisResult {
   text: string;
   metadata: AnalysisMetadata;
 }
 
+/**
+ * Incremental analysis output: yields text chunks, returns the assembled result
+ */
+export type AnalysisStream = AsyncGenerator<string, AnalysisResult, undefined>;
+
 export interface AnalysisMetadata {
   model: string;
   provider: string;
@@ -45,12 +69,110 @@ export interface AnalysisMetadata {
   fileSize?: number;
   modelVersion?: string; // "gemini-2.5-flash-lite"
   responseId?: string; // "abc123..."
+  cost?: CostEstimate; // Estimated from usage and the pricing table
+  finishReason?: string; // "STOP", "MAX_TOKENS", ...
+  safetyRatings?: SafetyRating[];
+  cached?: boolean; // Served from the response cache; usage is that of the original request
+  contextCache?: string; // Provider-side cached content the image was read from, e.g. "cachedContents/abc"
+  preprocessing?: Array<ImagePreprocessing | null>; // Per image in request order; null when sent unchanged
+  tiling?: TilingMetadata; // Set when detection ran on tiles of the image
+  diff?: DiffMetadata; // Set by compare --mode diff
+}
+
+/**
+ * How an image was split for tiled detection. Usage and cost cover every tile.
+ */
+export interface TilingMetadata {
+  tileSize: number; // pixels
+  overlap: number; // pixels
+  width: number; // Image size the tiles were cut from, after the EXIF orientation is applied
+  height: number;
+  tiles: number;
+  detections: number; // Before duplicates across tile seams were merged
+}
+
+/**
+ * What the local pixel comparison of compare --mode diff found
+ */
+export interface DiffMetadata {
+  width: number; // Size both images were compared at, that of the first image
+  height: number;
+  similarity: number; // Mean SSIM, 0-1
+  changedPercent: number; // Percent of the image that changed
+  regions: number; // Changed regions sent to the model
+}
+
+/**
+ * How an image was transformed before it was sent. Sizes are the original
+ * file's stored pixel dimensions, before the EXIF orientation is applied.
+ */
+export interface ImagePreprocessing {
+  originalWidth: number;
+  originalHeight: number;
+  originalMimeType: string;
+  originalSize: number; // Bytes
+  width: number; // As sent, after orientation and resizing
+  height: number;
+  mimeType: string;
+  size: number;
+  orientation?: number; // EXIF orientation (2-8) applied to the pixels
+  transforms: string[]; // Steps in order, e.g. "resize 6000x4000 -> 3072x2048"
+}
+
+/**
+ * A request as --dry-run shows it: built exactly as it would be sent, with
+ * inline image data elided, plus the provider's prompt token count
+ */
+export interface RequestPreview {
+  provider: string;
+  model: string;
+  functionName: FunctionName;
+  images: ImagePreview[];
+  generationConfig: Record<string, unknown>; // Without responseSchema and systemInstruction
+  systemInstruction?: string;
+  responseSchema?: unknown;
+  safetySettings?: SafetySetting[];
+  contents: Array<{ role: string; parts: unknown[] }>;
+  promptTokenCount?: number; // Undefined when the provider could not count tokens
+  tokenCountError?: string;
+  cost?: CostEstimate; // Prompt tokens only; output is unknown until generation
+}
+
+export interface ImagePreview {
+  source: string;
+  mimeType: string;
+  size?: number; // Bytes; unknown for Cloud Storage URIs
+  method: 'inline_data' | 'file_uri';
+  threshold?: number; // Size above which images are uploaded instead of sent inline
+  preprocessing?: ImagePreprocessing;
+}
+
+export interface SafetySetting {
+  category: string; // "HARM_CATEGORY_HARASSMENT", ...
+  threshold: string; // "BLOCK_ONLY_HIGH", ...
+}
+
+export interface SafetyRating {
+  category: string;
+  probability: string; // "NEGLIGIBLE", "LOW", "MEDIUM" or "HIGH"
+  blocked?: boolean;
 }
 
 export interface UsageMetadata {
   promptTokenCount: number;
   candidatesTokenCount: number;
   totalTokenCount: number;
+  imageTokenCount?: number; // Part of promptTokenCount, when the API reports a modality breakdown
+  cachedTokenCount?: number; // Part of promptTokenCount, read from provider-side cached content
+}
+
+export interface CostEstimate {
+  currency: string;
+  input: number;
+  output: number;
+  image: number;
+  total: number;
+  pricedModel: string; // Pricing table entry the estimate was based on
 }
 
 export interface UploadedFile {
@@ -68,6 +190,11 @@ export interface UploadedFile {
   sha256Hash?: string;
 }
 
+export interface FileListResult {
+  files: UploadedFile[];
+  nextPageToken?: string;
+}
+
 export interface FileReference {
   type: 'file_uri' | 'public_url' | 'base64' | 'inline_data';
   uri?: string;
@@ -79,6 +206,7 @@ export interface FileReference {
 export interface HealthStatus {
   status: 'healthy' | 'unhealthy' | 'degraded';
   message?: string;
+  errorCode?: string; // VisionError code of the failed check, when known
   lastCheck: string;
   responseTime?: number;
 }
@@ -123,6 +251,15 @@ export interface CLIAnalysisResult {
     timestamp: string;
     provider?: string;
     model?: string;
+    usage?: UsageMetadata;
+    cost?: CostEstimate;
+    finishReason?: string;
+    safetyRatings?: SafetyRating[];
+    cached?: boolean;
+    contextCache?: string;
+    preprocessing?: Array<ImagePreprocessing | null>;
+    tiling?: TilingMetadata;
+    diff?: DiffMetadata;
   };
 }
 
@@ -15,15 +15,30 @@ export interface CLIConfig {
     gcs_bucket_name?: string;
   };
 
+  // Vertex AI project and endpoint (credentials hold the service account)
+  vertex_ai?: {
+    project_id?: string;
+    location?: string;
+    endpoint?: string;
+  };
+
   // Model configuration
   settings: {
     image_model?: string;
+    // Per-function models, used instead of image_model
+    models?: {
+      analyze_image?: string;
+      compare_images?: string;
+      detect_objects_in_image?: string;
+    };
     temperature?: number;
     top_p?: number;
     top_k?: number;
     max_tokens?: number;
     output_format?: 'json' | 'text' | 'table';
     progress_bars?: boolean;
+    // Block threshold per harm category, e.g. harassment: block_only_high
+    safety?: Partial<Record<HarmCategoryName, BlockThresholdName>>;
   };
 
   // Limits and thresholds
@@ -86,6 +101,78 @@ export interface CLIConfig {
     retention_period: number; // ms
     export_format: 'json' | 'prometheus';
   };
+
+  // Cost estimation; entries are merged over the built-in table
+  pricing?: PricingConfig;
+
+  // Spend and quota limits checked against the usage ledger before each request
+  budgets?: BudgetConfig;
+
+  // Local cache of responses keyed by image content and request parameters
+  cache?: CacheConfig;
+
+  // Image transforms applied before an image is sent
+  preprocessing?: PreprocessingConfig;
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  ttl: number; // ms; 0 keeps entries until they are evicted for space
+  max_size: number; // bytes across all entries; the oldest are evicted first
+}
+
+export interface PreprocessingConfig {
+  enabled: boolean;
+  auto_orient: boolean; // Apply the EXIF orientation to the pixels
+  max_dimension: number; // px on the longest side; 0 keeps the size
+  max_image_tokens: number; // Estimated image token budget to downscale to; 0 for none
+  format: 'auto' | 'jpeg' | 'png' | 'webp'; // auto converts only formats models do not accept
+  quality: number; // 1-100, for jpeg and webp output
+  strip_alpha: boolean; // Flatten transparency onto white
+}
+
+export interface BudgetLimits {
+  requests?: number;
+  tokens?: number;
+  cost?: number; // In the pricing currency
+}
+
+export interface BudgetConfig {
+  enabled: boolean;
+  action: 'block' | 'warn'; // What happens once a limit is reached
+  warn_threshold: number; // Fraction of a limit that prints a warning, e.g. 0.8
+  daily?: BudgetLimits;
+  monthly?: BudgetLimits;
+}
+
+export type HarmCategoryName =
+  | 'harassment'
+  | 'hate_speech'
+  | 'sexually_explicit'
+  | 'dangerous_content'
+  | 'civic_integrity';
+
+export type BlockThresholdName =
+  | 'block_none'
+  | 'block_only_high'
+  | 'block_medium_and_above'
+  | 'block_low_and_above'
+  | 'off';
+
+/**
+ * Price per million tokens for one model
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  image?: number; // Defaults to the input price
+  cached?: number; // Prompt tokens read from cached content; defaults to a quarter of the input price
+}
+
+export interface PricingConfig {
+  currency: string;
+  // Keyed by model name; a key also matches models it is a prefix of
+  models: Record<string, ModelPricing>;
 }
 
 export interface GeminiConfig {
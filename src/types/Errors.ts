@@ -2,6 +2,8 @@
  * Error types for the AI Vision CLI
  */
 
+import type { SafetyRating } from './Analysis.js';
+
 export class VisionError extends Error {
   constructor(
     message: string,
@@ -136,6 +138,57 @@ export class AuthorizationError extends VisionError {
   }
 }
 
+export class CircuitOpenError extends VisionError {
+  constructor(provider: string, retryAfter?: number) {
+    const wait = retryAfter !== undefined ? ` Retry in ${retryAfter}s.` : '';
+    super(
+      `Provider "${provider}" is temporarily unavailable after repeated failures (circuit open).${wait}`,
+      'CIRCUIT_OPEN',
+      provider,
+      undefined,
+      503,
+      retryAfter
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class BudgetExceededError extends VisionError {
+  constructor(message: string) {
+    super(message, 'BUDGET_EXCEEDED', undefined, undefined, 402);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class CacheMissError extends VisionError {
+  constructor(message: string) {
+    super(message, 'CACHE_MISS', undefined, undefined, 404);
+    this.name = 'CacheMissError';
+  }
+}
+
+export class ContentBlockedError extends VisionError {
+  constructor(
+    message: string,
+    provider: string,
+    public blockReason?: string,
+    public finishReason?: string,
+    public safetyRatings: SafetyRating[] = []
+  ) {
+    super(message, 'CONTENT_BLOCKED', provider);
+    this.name = 'ContentBlockedError';
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      blockReason: this.blockReason,
+      finishReason: this.finishReason,
+      safetyRatings: this.safetyRatings,
+    };
+  }
+}
+
 export class NetworkError extends VisionError {
   constructor(message: string, originalError?: Error) {
     super(message, 'NETWORK_ERROR', undefined, originalError);
@@ -217,6 +270,8 @@ export type ErrorType =
   | 'UNSUPPORTED_FILE_TYPE'
   | 'FILE_SIZE_EXCEEDED'
   | 'RATE_LIMIT_EXCEEDED'
+  | 'QUOTA_EXHAUSTED'
+  | 'CIRCUIT_OPEN'
   | 'AUTHENTICATION_ERROR'
   | 'AUTHORIZATION_ERROR'
   | 'NETWORK_ERROR'
@@ -2,7 +2,7 @@
  * Object detection types for AI Vision CLI
  */
 
-import type { AnalysisOptions } from './Analysis';
+import type { AnalysisOptions, CostEstimate, ImagePreprocessing, SafetyRating, UsageMetadata } from './Analysis';
 
 export interface DetectedObject {
   object: string; // Generic category for detected object
@@ -36,11 +36,12 @@ export interface ObjectDetectionArgs {
 export interface ObjectDetectionMetadata {
   model: string; // "gemini-2.5-flash-lite"
   provider: string; // "google" | "vertex_ai"
-  usage?: {
-    promptTokenCount: number;
-    candidatesTokenCount: number;
-    totalTokenCount: number;
-  };
+  usage?: UsageMetadata;
+  cost?: CostEstimate;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  cached?: boolean;
+  preprocessing?: ImagePreprocessing; // Boxes are already mapped back onto the original image
   processingTime: number; // milliseconds
   fileType?: string; // "image/png"
   fileSize?: number; // bytes
@@ -138,9 +139,12 @@ export interface DetectionFilterOptions {
   maxResults?: number; // Maximum number of detections to return
 }
 
+// Dataset formats detections can be exported to
+export type DetectionExportFormat = 'coco' | 'yolo' | 'voc' | 'csv' | 'labelstudio';
+
 // Output formatting options
 export interface DetectionOutputOptions {
-  format: 'json' | 'csv' | 'coco' | 'yolo'; // Output format
+  format: 'json' | DetectionExportFormat; // Output format
   includeMetadata: boolean; // Include detailed metadata
   includeSummary: boolean; // Include human-readable summary
   generateAnnotations: boolean; // Generate annotated image files
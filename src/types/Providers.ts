@@ -5,7 +5,10 @@
 import type {
   AnalysisOptions,
   AnalysisResult,
+  AnalysisStream,
+  RequestPreview,
   UploadedFile,
+  FileListResult,
   FileReference,
   HealthStatus,
   ProviderCapabilities,
@@ -16,7 +19,10 @@ import type {
 export type {
   AnalysisOptions,
   AnalysisResult,
+  AnalysisStream,
+  RequestPreview,
   UploadedFile,
+  FileListResult,
   FileReference,
   HealthStatus,
   ProviderCapabilities,
@@ -37,6 +43,25 @@ export interface VisionProvider {
     options?: AnalysisOptions
   ): Promise<AnalysisResult>;
 
+  // Streaming variants: yield text chunks as they are generated and return the complete result
+  analyzeImageStream(
+    imageSource: string,
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream;
+  compareImagesStream(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): AnalysisStream;
+
+  // Build a request without generating: run file handling, count prompt tokens (--dry-run)
+  previewRequest(
+    imageSources: string[],
+    prompt: string,
+    options?: AnalysisOptions
+  ): Promise<RequestPreview>;
+
   // File operations
   uploadFile(
     buffer: Buffer,
@@ -44,7 +69,9 @@ export interface VisionProvider {
     mimeType: string
   ): Promise<UploadedFile>;
   downloadFile(fileId: string): Promise<Buffer>;
+  getFile(fileId: string): Promise<UploadedFile>;
   deleteFile(fileId: string): Promise<void>;
+  listFiles(pageSize?: number, pageToken?: string): Promise<FileListResult>;
 
   // Model configuration
   setModel(imageModel: string): void;
@@ -158,6 +185,16 @@ export interface GeminiFileMetadata {
   state: 'PROCESSING' | 'ACTIVE' | 'FAILED';
 }
 
+export interface GeminiCachedContentMetadata {
+  name: string; // "cachedContents/abc123"
+  displayName?: string;
+  model: string; // "models/gemini-2.5-flash"
+  createTime?: string;
+  updateTime?: string;
+  expireTime: string;
+  usageMetadata?: { totalTokenCount?: number };
+}
+
 export interface GeminiGenerateContentRequest {
   contents: GeminiContent[];
   generationConfig?: GeminiGenerationConfig;
@@ -192,14 +229,37 @@ export interface GeminiSafetySetting {
 
 export interface GeminiGenerateContentResponse {
   candidates: GeminiCandidate[];
-  usageMetadata: {
-    promptTokenCount: number;
-    candidatesTokenCount: number;
-    totalTokenCount: number;
-  };
+  usageMetadata: ApiUsageMetadata;
   modelVersion?: string;
 }
 
+/**
+ * Block and safety details as returned by the Gemini and Vertex AI APIs
+ */
+export interface ApiSafetyFeedback {
+  promptFeedback?: {
+    blockReason?: string;
+    blockReasonMessage?: string;
+  };
+  candidates?: Array<{
+    finishReason?: string;
+    safetyRatings?: Array<{ category: string; probability: string; blocked?: boolean }>;
+  }>;
+}
+
+/**
+ * Token counts as returned by the Gemini and Vertex AI APIs
+ */
+export interface ApiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+  // Prompt tokens per modality (TEXT, IMAGE, ...)
+  promptTokensDetails?: Array<{ modality?: string; tokenCount?: number }>;
+  // Prompt tokens read from cached content
+  cachedContentTokenCount?: number;
+}
+
 export interface GeminiCandidate {
   content: GeminiContent;
   finishReason: string;
@@ -225,6 +285,7 @@ export interface VertexAIConfig {
 
 export interface VertexAIGenerateContentRequest {
   contents: VertexAIContent[];
+  systemInstruction?: { parts: { text: string }[] };
   generationConfig?: VertexAIGenerationConfig;
   safetySettings?: VertexAISafetySetting[];
 }
@@ -256,13 +317,36 @@ export interface VertexAISafetySetting {
 }
 
 export interface VertexAIGenerateContentResponse {
-  candidates: VertexAICandidate[];
-  usageMetadata: {
-    promptTokenCount: number;
-    candidatesTokenCount: number;
-    totalTokenCount: number;
+  candidates?: VertexAICandidate[];
+  usageMetadata?: ApiUsageMetadata;
+  promptFeedback?: {
+    blockReason?: string;
+    blockReasonMessage?: string;
   };
   modelVersion?: string;
+  responseId?: string;
+}
+
+export interface VertexAICountTokensResponse {
+  totalTokens?: number;
+  totalBillableCharacters?: number;
+}
+
+export interface VertexAIErrorResponse {
+  error: {
+    code: number;
+    message: string;
+    status?: string;
+  };
+}
+
+export interface VertexAIServiceAccount {
+  type?: string;
+  project_id?: string;
+  private_key_id?: string;
+  private_key: string;
+  client_email: string;
+  token_uri?: string;
 }
 
 export interface VertexAICandidate {
@@ -15,6 +15,14 @@ export type {
   FileUploadConfig,
   ApiConfig,
   FileProcessingConfig,
+  ModelPricing,
+  PricingConfig,
+  BudgetLimits,
+  BudgetConfig,
+  CacheConfig,
+  PreprocessingConfig,
+  HarmCategoryName,
+  BlockThresholdName,
 } from './Config.js';
 
 // Export Analysis types
@@ -23,9 +31,20 @@ export type {
   FunctionName,
   AnalysisOptions,
   AnalysisResult,
+  AnalysisStream,
   AnalysisMetadata,
+  CacheMode,
   UsageMetadata,
+  CostEstimate,
+  SafetySetting,
+  SafetyRating,
+  RequestPreview,
+  ImagePreview,
+  ImagePreprocessing,
+  TilingMetadata,
+  DiffMetadata,
   UploadedFile,
+  FileListResult,
   FileReference,
   HealthStatus,
   RateLimitInfo,
@@ -56,6 +75,7 @@ export type {
   BatchObjectDetectionResult,
   DetectionFilterOptions,
   DetectionOutputOptions,
+  DetectionExportFormat,
   WebElementDetection,
   WebPageDetectionResult,
 } from './ObjectDetection.js';
@@ -73,6 +93,7 @@ export type {
   ProviderStatus,
   GeminiConfig as GeminiProviderConfig,
   GeminiFileMetadata,
+  GeminiCachedContentMetadata,
   GeminiGenerateContentRequest,
   GeminiContent,
   GeminiPart,
@@ -80,6 +101,8 @@ export type {
   GeminiSafetySetting,
   GeminiGenerateContentResponse,
   GeminiCandidate,
+  ApiUsageMetadata,
+  ApiSafetyFeedback,
   GeminiSafetyRating,
   VertexAIConfig as VertexAIProviderConfig,
   VertexAIGenerateContentRequest,
@@ -88,6 +111,9 @@ export type {
   VertexAIGenerationConfig,
   VertexAISafetySetting,
   VertexAIGenerateContentResponse,
+  VertexAIErrorResponse,
+  VertexAICountTokensResponse,
+  VertexAIServiceAccount,
   VertexAICandidate,
   VertexAISafetyRating,
 } from './Providers.js';
@@ -104,6 +130,10 @@ export {
   RateLimitExceededError,
   AuthenticationError,
   AuthorizationError,
+  CircuitOpenError,
+  BudgetExceededError,
+  CacheMissError,
+  ContentBlockedError,
   NetworkError,
   ValidationError,
   StorageError,
@@ -0,0 +1,40 @@
+/**
+ * Box Geometry
+ *
+ * Helpers shared by the modules that read, convert and draw detection boxes.
+ * Boxes are normalized [ymin, xmin, ymax, xmax] on a 0-1000 scale.
+ */
+
+import type { DetectedObject } from '../types/ObjectDetection.js';
+
+// Normalized coordinates run from 0 to this value
+export const NORMALIZED_SCALE = 1000;
+
+/**
+ * Overlap area of two [ymin, xmin, ymax, xmax] boxes; 0 when they do not overlap
+ */
+export function intersectionArea(a: DetectedObject['normalized_box_2d'], b: DetectedObject['normalized_box_2d']): number {
+  const height = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const width = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  return height > 0 && width > 0 ? height * width : 0;
+}
+
+/**
+ * Round to a fixed number of decimals
+ */
+export function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Escape text for XML and HTML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
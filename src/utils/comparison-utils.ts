@@ -0,0 +1,211 @@
+/**
+ * Structured image comparison helpers used by compare --structured and --mode diff
+ */
+
+import { z } from 'zod';
+import type { ComparisonResult } from '../types/index.js';
+import { VisionError } from '../types/index.js';
+import { parseDetections } from './detection-utils.js';
+import type { DiffChange, DiffRegion } from './image-diff.js';
+
+// Models sometimes answer the score in percent; it is brought into 0-1 before
+// validation, while scores outside 0-100 are still rejected
+const comparisonResultSchema = z.object({
+  similarities: z.array(z.string()),
+  differences: z.array(z.string()),
+  overallScore: z.preprocess(
+    value => (typeof value === 'number' && value > 1 && value <= 100 ? value / 100 : value),
+    z.number().min(0).max(1)
+  ),
+  detailedAnalysis: z.string(),
+});
+
+/**
+ * System instruction for structured comparisons
+ */
+export function getStructuredComparisonInstruction(): string {
+  return `
+You are an expert image analysis assistant specializing in comparing multiple images.
+
+Return a JSON object (no text outside JSON) with:
+{
+  "similarities": ["<one thing the images have in common>", ...],
+  "differences": ["<one thing that differs, naming the image it applies to>", ...],
+  "overallScore": <0-1>, // how similar the images are overall
+  "detailedAnalysis": "<a short summary of how the images relate>"
+}
+
+Rules:
+- One observation per list entry, each a single sentence
+- Refer to images by position: "image 1", "image 2", ...
+- overallScore is 1 for identical images and 0 for unrelated ones
+- Consider content, composition, colors, style, technical quality and mood
+`;
+}
+
+/**
+ * Structured output schema for comparison responses
+ */
+export function createComparisonSchema(): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      similarities: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'What the images have in common, one observation per entry.',
+      },
+      differences: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'What differs between the images, one observation per entry.',
+      },
+      overallScore: {
+        type: 'number',
+        description: 'Overall similarity from 0 (unrelated) to 1 (identical).',
+      },
+      detailedAnalysis: {
+        type: 'string',
+        description: 'Summary of how the images relate.',
+      },
+    },
+    required: ['similarities', 'differences', 'overallScore', 'detailedAnalysis'],
+  };
+}
+
+/**
+ * Parse and validate the raw model response of a structured comparison
+ */
+export function parseComparison(text: string): ComparisonResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    throw new VisionError(
+      `Failed to parse comparison results: ${parseError}`,
+      'INVALID_RESPONSE'
+    );
+  }
+
+  const validation = comparisonResultSchema.safeParse(parsed);
+  if (!validation.success) {
+    throw new VisionError(
+      `Invalid comparison results: ${validation.error.errors.map(e => `${e.path.join('.') || 'response'}: ${e.message}`).join(', ')}`,
+      'INVALID_RESPONSE'
+    );
+  }
+
+  return validation.data as ComparisonResult;
+}
+
+/**
+ * System instruction for explaining the regions a pixel diff found
+ */
+export function getDiffExplanationInstruction(): string {
+  return `
+You are an expert at spotting differences between two versions of an image,
+such as before/after screenshots or photos of the same scene.
+
+The first image is "before" and the second is "after". A pixel comparison has
+already located the changed regions; their boxes are listed in the prompt.
+
+Return a valid JSON array (no text outside JSON) with one entry per change:
+{
+  "region": <number of the region the change is in>,
+  "object": "<what changed, e.g. button, text, person, logo>",
+  "label": "<what is different, e.g. 'Submit button moved 20px down and turned blue'>",
+  "normalized_box_2d": [ymin, xmin, ymax, xmax] // normalized to 0-1000, tightened around the change
+}
+
+Rules:
+- Explain every listed region; a region may hold several changes
+- Say how the "after" image differs from the "before" image
+- Name rendering noise (compression, anti-aliasing, slight shifts) as such instead of inventing a change
+`;
+}
+
+/**
+ * Structured output schema for diff explanations
+ */
+export function createDiffExplanationSchema(): Record<string, unknown> {
+  return {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        region: {
+          type: 'integer',
+          description: 'Number of the changed region the explanation belongs to.',
+        },
+        object: {
+          type: 'string',
+          description: 'What changed.',
+        },
+        label: {
+          type: 'string',
+          description: 'How the after image differs from the before image.',
+        },
+        normalized_box_2d: {
+          type: 'array',
+          minItems: 4,
+          maxItems: 4,
+          items: { type: 'integer' },
+          description: 'Box around the change [ymin, xmin, ymax, xmax], normalized to 0-1000',
+        },
+      },
+      required: ['region', 'object', 'label', 'normalized_box_2d'],
+    },
+  };
+}
+
+/**
+ * Prompt listing the changed regions for the model to explain
+ */
+export function buildDiffPrompt(prompt: string, regions: DiffRegion[]): string {
+  const lines = regions.map(region =>
+    `Region ${region.id}: [${region.normalized_box_2d.join(', ')}] (change ${Math.round(region.score * 100)}%)`
+  );
+  return `${prompt}\n\nChanged regions as [ymin, xmin, ymax, xmax] on a 0-1000 scale:\n${lines.join('\n')}`;
+}
+
+/**
+ * Pair the model's explanations with the regions they belong to. Regions the
+ * model skipped are kept with their pixel-diff box; explanations of unknown
+ * regions are dropped.
+ */
+export function explainDiffRegions(regions: DiffRegion[], text: string): DiffChange[] {
+  const explanations = parseDetections(text) as Array<DiffChange>;
+
+  return regions.flatMap(region => {
+    const matches = explanations.filter(explanation => Number(explanation.region) === region.id);
+    if (matches.length === 0) {
+      return [{ region: region.id, object: 'change', label: 'unexplained change', normalized_box_2d: region.normalized_box_2d, score: region.score }];
+    }
+
+    return matches.map(explanation => ({
+      region: region.id,
+      object: explanation.object || 'change',
+      label: explanation.label || explanation.object || 'change',
+      normalized_box_2d: isBox(explanation.normalized_box_2d) ? explanation.normalized_box_2d : region.normalized_box_2d,
+      score: region.score,
+    }));
+  });
+}
+
+/**
+ * Table rows for diff changes, one per change
+ */
+export function toDiffRows(changes: DiffChange[]): Array<Record<string, string | number>> {
+  return changes.map(change => ({
+    region: change.region,
+    object: change.object,
+    label: change.label,
+    change: `${Math.round(change.score * 100)}%`,
+    box: `[${change.normalized_box_2d.join(', ')}]`,
+  }));
+}
+
+function isBox(box: unknown): box is [number, number, number, number] {
+  return Array.isArray(box) && box.length === 4 && box.every(value => typeof value === 'number' && Number.isFinite(value))
+    && box[0] < box[2] && box[1] < box[3];
+}
@@ -0,0 +1,299 @@
+/**
+ * Detection Export
+ *
+ * Converts detections into the annotation formats of common labeling and
+ * training tools: COCO, YOLO, Pascal VOC, CSV and Label Studio. Boxes arrive
+ * as normalized [ymin, xmin, ymax, xmax] on a 0-1000 scale and are converted
+ * with each image's pixel dimensions. All images of an export share one
+ * category map, so a batch run produces a single dataset.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DetectedObject, DetectionExportFormat } from '../types/ObjectDetection.js';
+import { ValidationError } from '../types/index.js';
+import { NORMALIZED_SCALE, escapeXml, round } from './box-geometry.js';
+
+export const DETECTION_EXPORT_FORMATS: DetectionExportFormat[] = ['coco', 'yolo', 'voc', 'csv', 'labelstudio'];
+
+export interface ExportImage {
+  source: string; // Path or URL as given on the command line
+  width: number; // Stored pixel dimensions
+  height: number;
+  detections: DetectedObject[];
+}
+
+export interface ExportFile {
+  path: string; // Relative to the export directory
+  content: string;
+}
+
+interface PixelBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Validate an --export-format value
+ */
+export function parseExportFormat(value: string): DetectionExportFormat {
+  const format = value.toLowerCase() as DetectionExportFormat;
+  if (!DETECTION_EXPORT_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `Unknown export format "${value}". Use one of: ${DETECTION_EXPORT_FORMATS.join(', ')}`,
+      'export-format'
+    );
+  }
+  return format;
+}
+
+/**
+ * Sorted categories of every image, so ids are stable across runs over the same labels
+ */
+export function buildCategoryMap(images: ExportImage[]): string[] {
+  return [...new Set(images.flatMap(image => image.detections.map(obj => obj.object)))].sort();
+}
+
+/**
+ * Convert a normalized box into pixel corners, clamped to the image
+ */
+export function toPixelBox(box: [number, number, number, number], width: number, height: number): PixelBox {
+  const [ymin, xmin, ymax, xmax] = box;
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, (value / NORMALIZED_SCALE) * max));
+  return {
+    x1: clamp(Math.min(xmin, xmax), width),
+    y1: clamp(Math.min(ymin, ymax), height),
+    x2: clamp(Math.max(xmin, xmax), width),
+    y2: clamp(Math.max(ymin, ymax), height),
+  };
+}
+
+/**
+ * Build the files of an export
+ */
+export function exportDetections(images: ExportImage[], format: DetectionExportFormat): ExportFile[] {
+  const categories = buildCategoryMap(images);
+  const stems = uniqueStems(images.map(image => image.source));
+
+  switch (format) {
+    case 'coco':
+      return [{ path: 'annotations.json', content: toCoco(images, categories) }];
+    case 'yolo':
+      return [
+        { path: 'classes.txt', content: categories.map(category => `${category}\n`).join('') },
+        ...images.map((image, index) => ({ path: `labels/${stems[index]}.txt`, content: toYolo(image, categories) })),
+      ];
+    case 'voc':
+      return images.map((image, index) => ({ path: `Annotations/${stems[index]}.xml`, content: toVoc(image, fileName(image.source)) }));
+    case 'csv':
+      return [{ path: 'detections.csv', content: toCsv(images) }];
+    case 'labelstudio':
+      return [{ path: 'tasks.json', content: toLabelStudio(images) }];
+  }
+}
+
+/**
+ * Write export files below a directory, creating subdirectories as needed.
+ * Returns the written paths.
+ */
+export async function writeDetectionExport(directory: string, files: ExportFile[]): Promise<string[]> {
+  const written: string[] = [];
+  for (const file of files) {
+    const filePath = path.join(directory, file.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.content, 'utf-8');
+    written.push(filePath);
+  }
+  return written;
+}
+
+/**
+ * COCO object detection: one file, [x, y, width, height] boxes in pixels, 1-based ids
+ */
+function toCoco(images: ExportImage[], categories: string[]): string {
+  let annotationId = 0;
+  const dataset = {
+    info: {
+      description: 'Exported by ai-vision detect',
+      date_created: new Date().toISOString(),
+    },
+    images: images.map((image, index) => ({
+      id: index + 1,
+      file_name: fileName(image.source),
+      width: image.width,
+      height: image.height,
+    })),
+    annotations: images.flatMap((image, index) =>
+      image.detections.map(obj => {
+        const { x1, y1, x2, y2 } = toPixelBox(obj.normalized_box_2d, image.width, image.height);
+        return {
+          id: ++annotationId,
+          image_id: index + 1,
+          category_id: categories.indexOf(obj.object) + 1,
+          bbox: [round(x1, 2), round(y1, 2), round(x2 - x1, 2), round(y2 - y1, 2)],
+          area: round((x2 - x1) * (y2 - y1), 2),
+          iscrowd: 0,
+          ...(obj.confidence !== undefined ? { score: obj.confidence } : {}),
+        };
+      })
+    ),
+    categories: categories.map((name, index) => ({ id: index + 1, name, supercategory: 'none' })),
+  };
+  return JSON.stringify(dataset, null, 2);
+}
+
+/**
+ * YOLO: one line per object, "class x_center y_center width height" normalized to 0-1,
+ * class indexes into classes.txt
+ */
+function toYolo(image: ExportImage, categories: string[]): string {
+  return image.detections
+    .map(obj => {
+      const { x1, y1, x2, y2 } = toPixelBox(obj.normalized_box_2d, image.width, image.height);
+      const values = [
+        (x1 + x2) / 2 / image.width,
+        (y1 + y2) / 2 / image.height,
+        (x2 - x1) / image.width,
+        (y2 - y1) / image.height,
+      ];
+      return `${categories.indexOf(obj.object)} ${values.map(value => value.toFixed(6)).join(' ')}\n`;
+    })
+    .join('');
+}
+
+/**
+ * Pascal VOC: one XML file per image with 1-based pixel corners
+ */
+function toVoc(image: ExportImage, name: string): string {
+  const objects = image.detections.map(obj => {
+    const { x1, y1, x2, y2 } = toPixelBox(obj.normalized_box_2d, image.width, image.height);
+    return [
+      '  <object>',
+      `    <name>${escapeXml(obj.object)}</name>`,
+      '    <pose>Unspecified</pose>',
+      '    <truncated>0</truncated>',
+      '    <difficult>0</difficult>',
+      '    <bndbox>',
+      `      <xmin>${Math.round(x1) + 1}</xmin>`,
+      `      <ymin>${Math.round(y1) + 1}</ymin>`,
+      `      <xmax>${Math.max(Math.round(x1) + 1, Math.round(x2))}</xmax>`,
+      `      <ymax>${Math.max(Math.round(y1) + 1, Math.round(y2))}</ymax>`,
+      '    </bndbox>',
+      '  </object>',
+    ].join('\n');
+  });
+
+  return [
+    '<annotation>',
+    `  <folder>${escapeXml(path.basename(path.dirname(image.source)))}</folder>`,
+    `  <filename>${escapeXml(name)}</filename>`,
+    `  <path>${escapeXml(image.source)}</path>`,
+    '  <source><database>Unknown</database></source>',
+    '  <size>',
+    `    <width>${image.width}</width>`,
+    `    <height>${image.height}</height>`,
+    '    <depth>3</depth>',
+    '  </size>',
+    '  <segmented>0</segmented>',
+    ...objects,
+    '</annotation>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * CSV: one row per object with pixel corners
+ */
+function toCsv(images: ExportImage[]): string {
+  const rows = [['image', 'width', 'height', 'object', 'label', 'confidence', 'xmin', 'ymin', 'xmax', 'ymax']];
+  for (const image of images) {
+    for (const obj of image.detections) {
+      const { x1, y1, x2, y2 } = toPixelBox(obj.normalized_box_2d, image.width, image.height);
+      rows.push([
+        image.source,
+        String(image.width),
+        String(image.height),
+        obj.object,
+        obj.label,
+        obj.confidence !== undefined ? String(obj.confidence) : '',
+        String(Math.round(x1)),
+        String(Math.round(y1)),
+        String(Math.round(x2)),
+        String(Math.round(y2)),
+      ]);
+    }
+  }
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Label Studio: tasks with pre-annotations as predictions, boxes in percent.
+ * Matches a labeling config with <RectangleLabels name="label" toName="image">.
+ */
+function toLabelStudio(images: ExportImage[]): string {
+  const tasks = images.map(image => {
+    const scores = image.detections.map(obj => obj.confidence).filter((score): score is number => score !== undefined);
+    return {
+      data: { image: image.source },
+      predictions: [{
+        model_version: 'ai-vision',
+        ...(scores.length ? { score: scores.reduce((sum, score) => sum + score, 0) / scores.length } : {}),
+        result: image.detections.map((obj, index) => {
+          const { x1, y1, x2, y2 } = toPixelBox(obj.normalized_box_2d, image.width, image.height);
+          return {
+            id: `result${index + 1}`,
+            type: 'rectanglelabels',
+            from_name: 'label',
+            to_name: 'image',
+            original_width: image.width,
+            original_height: image.height,
+            image_rotation: 0,
+            value: {
+              x: round((x1 / image.width) * 100, 2),
+              y: round((y1 / image.height) * 100, 2),
+              width: round(((x2 - x1) / image.width) * 100, 2),
+              height: round(((y2 - y1) / image.height) * 100, 2),
+              rotation: 0,
+              rectanglelabels: [obj.object],
+            },
+            ...(obj.confidence !== undefined ? { score: obj.confidence } : {}),
+          };
+        }),
+      }],
+    };
+  });
+  return JSON.stringify(tasks, null, 2);
+}
+
+/**
+ * File name of a path or URL
+ */
+function fileName(source: string): string {
+  if (/^https?:\/\//.test(source)) {
+    try {
+      return path.posix.basename(new URL(source).pathname) || 'image';
+    } catch {
+      // Fall through to the plain basename
+    }
+  }
+  return path.basename(source);
+}
+
+/**
+ * File names without extension, suffixed where two images share a name
+ */
+function uniqueStems(sources: string[]): string[] {
+  const seen = new Map<string, number>();
+  return sources.map(source => {
+    const stem = path.parse(fileName(source)).name || 'image';
+    const count = seen.get(stem) ?? 0;
+    seen.set(stem, count + 1);
+    return count === 0 ? stem : `${stem}_${count}`;
+  });
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
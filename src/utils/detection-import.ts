@@ -0,0 +1,443 @@
+/**
+ * Detection Import
+ *
+ * Reads saved detections back: the JSON written by `detect --save` and
+ * `batch detect --save`, and the dataset formats written by detection export
+ * (COCO, YOLO, Pascal VOC, CSV and Label Studio). Boxes are converted to
+ * normalized [ymin, xmin, ymax, xmax] on a 0-1000 scale, so imported images
+ * can be rendered or exported to another format.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DetectedObject, DetectionExportFormat } from '../types/ObjectDetection.js';
+import { ValidationError, FileNotFoundError } from '../types/index.js';
+import { DETECTION_EXPORT_FORMATS, type ExportImage } from './detection-export.js';
+import { normalizeConfidence, getImageDimensions } from './detection-utils.js';
+import { NORMALIZED_SCALE, round } from './box-geometry.js';
+
+// 'json' is the result saved by detect --save or batch detect --save
+export type AnnotationFormat = DetectionExportFormat | 'json';
+
+export const ANNOTATION_FORMATS: AnnotationFormat[] = ['json', ...DETECTION_EXPORT_FORMATS];
+
+// Tried in order when a YOLO label only names the image stem
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.bmp', '.tiff', '.heic'];
+
+// Parsed JSON inputs. Fields are optional because nothing guarantees the file
+// was written by this tool; each one is checked before it is used.
+
+// One image of a saved result: batch detect --save entries, or a single one
+interface SavedImageResult {
+  file?: { path?: string };
+  tempFile?: { path?: string };
+  image_metadata?: { width?: number; height?: number };
+  detections?: unknown;
+}
+
+interface SavedResult extends SavedImageResult {
+  result?: { image?: string; detectedObjects?: unknown }; // detect --save
+  results?: SavedImageResult[]; // batch detect --save
+}
+
+interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+interface CocoAnnotation {
+  image_id: number;
+  category_id: number;
+  bbox?: [number, number, number, number]; // [x, y, width, height] in pixels
+  score?: number;
+}
+
+interface CocoCategory {
+  id: number;
+  name: string;
+}
+
+interface CocoDataset {
+  images?: CocoImage[];
+  annotations?: CocoAnnotation[];
+  categories?: CocoCategory[];
+}
+
+interface LabelStudioResult {
+  type?: string;
+  original_width?: number;
+  original_height?: number;
+  value?: { x: number; y: number; width: number; height: number; rectanglelabels?: string[] }; // Percent of the image
+  score?: number;
+}
+
+interface LabelStudioTask {
+  data?: Record<string, string>;
+  annotations?: Array<{ result?: LabelStudioResult[] }>;
+  predictions?: Array<{ result?: LabelStudioResult[] }>;
+}
+
+/**
+ * Validate a --from value
+ */
+export function parseAnnotationFormat(value: string): AnnotationFormat {
+  const format = value.toLowerCase() as AnnotationFormat;
+  if (!ANNOTATION_FORMATS.includes(format)) {
+    throw new ValidationError(`Unknown annotation format "${value}". Use one of: ${ANNOTATION_FORMATS.join(', ')}`, 'from');
+  }
+  return format;
+}
+
+/**
+ * Read detections in the given format. YOLO and VOC read a directory (or a
+ * single file); the others read one file. Width and height are 0 where the
+ * format does not record the image size.
+ */
+export async function importDetections(inputPath: string, format: AnnotationFormat): Promise<ExportImage[]> {
+  switch (format) {
+    case 'json':
+      return fromSavedResult(JSON.parse(await readInput(inputPath)));
+    case 'coco':
+      return fromCoco(JSON.parse(await readInput(inputPath)));
+    case 'yolo':
+      return fromYolo(inputPath);
+    case 'voc':
+      return Promise.all((await listFiles(inputPath, 'Annotations', '.xml')).map(async file => fromVoc(await readInput(file))));
+    case 'csv':
+      return fromCsv(await readInput(inputPath));
+    case 'labelstudio':
+      return fromLabelStudio(JSON.parse(await readInput(inputPath)));
+  }
+}
+
+/**
+ * Detections of one image from an import. With several images, the one whose
+ * source has the same file name as the image is used.
+ */
+export function selectImageDetections(images: ExportImage[], image: string): DetectedObject[] {
+  if (images.length === 1) {
+    return images[0].detections;
+  }
+
+  const match = images.find(entry => path.resolve(entry.source) === path.resolve(image))
+    ?? images.find(entry => path.basename(entry.source) === path.basename(image))
+    ?? images.find(entry => path.parse(entry.source).name === path.parse(image).name);
+  if (!match) {
+    throw new ValidationError(`The saved detections cover ${images.length} images, none of them ${path.basename(image)}`, 'detections');
+  }
+  return match.detections;
+}
+
+/**
+ * Fill in the pixel size of images whose format does not record it, reading
+ * each image from its source path or from imagesDir. Images found by stem
+ * alone take the found file as their source.
+ */
+export async function resolveImageSizes(images: ExportImage[], imagesDir?: string): Promise<ExportImage[]> {
+  return Promise.all(images.map(async image => {
+    if (image.width > 0 && image.height > 0) {
+      return image;
+    }
+
+    const candidates = [image.source, ...(imagesDir ? [path.join(imagesDir, path.basename(image.source))] : [])];
+    const paths = candidates.flatMap(candidate =>
+      path.extname(candidate) ? [candidate] : IMAGE_EXTENSIONS.map(extension => `${candidate}${extension}`)
+    );
+
+    for (const imagePath of paths) {
+      try {
+        const { width, height } = await getImageDimensions(imagePath);
+        return { ...image, source: path.extname(image.source) ? image.source : imagePath, width, height };
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    throw new ValidationError(
+      `The image size of ${image.source} is not recorded in the annotations and the image was not found${imagesDir ? ` in ${imagesDir}` : '; pass --images <dir>'}`,
+      'images'
+    );
+  }));
+}
+
+/**
+ * detect --save ({ result: { image, detectedObjects } }), batch detect --save
+ * ({ results: [{ file, image_metadata, detections }] }) or a plain array of detections
+ */
+function fromSavedResult(json: unknown): ExportImage[] {
+  if (Array.isArray(json)) {
+    return [{ source: '', width: 0, height: 0, detections: toDetections(json) }];
+  }
+
+  const data = isObject(json) ? (json as SavedResult) : {};
+  if (Array.isArray(data.result?.detectedObjects)) {
+    return [{ source: data.result.image ?? '', width: 0, height: 0, detections: toDetections(data.result.detectedObjects) }];
+  }
+  if (Array.isArray(data.results)) {
+    return data.results.filter(isObject).map((result: SavedImageResult) => ({
+      source: result.file?.path ?? result.tempFile?.path ?? '',
+      width: result.image_metadata?.width ?? 0,
+      height: result.image_metadata?.height ?? 0,
+      detections: toDetections(Array.isArray(result.detections) ? result.detections : []),
+    }));
+  }
+  if (Array.isArray(data.detections)) {
+    return [{
+      source: data.file?.path ?? '',
+      width: data.image_metadata?.width ?? 0,
+      height: data.image_metadata?.height ?? 0,
+      detections: toDetections(data.detections),
+    }];
+  }
+  throw new ValidationError('No detections found; expected a result saved by detect --save or batch detect --save', 'detections');
+}
+
+function fromCoco(json: unknown): ExportImage[] {
+  const data = isObject(json) ? (json as CocoDataset) : {};
+  const { images, annotations } = data;
+  if (!Array.isArray(images) || !Array.isArray(annotations)) {
+    throw new ValidationError('Not a COCO dataset: "images" and "annotations" arrays are required', 'from');
+  }
+
+  const categories = new Map((data.categories ?? []).map(category => [category.id, String(category.name)]));
+  return images.map(image => ({
+    source: String(image.file_name),
+    width: image.width,
+    height: image.height,
+    detections: annotations
+      .filter((annotation): annotation is CocoAnnotation & Required<Pick<CocoAnnotation, 'bbox'>> =>
+        annotation.image_id === image.id && Array.isArray(annotation.bbox))
+      .map(annotation => {
+        const [x, y, width, height] = annotation.bbox;
+        const name = categories.get(annotation.category_id) ?? String(annotation.category_id);
+        return withConfidence(
+          { object: name, label: name, normalized_box_2d: fromPixels(x, y, x + width, y + height, image.width, image.height) },
+          annotation.score
+        );
+      }),
+  }));
+}
+
+async function fromYolo(inputPath: string): Promise<ExportImage[]> {
+  const stat = await statInput(inputPath);
+  const root = stat.isDirectory() ? inputPath : path.dirname(inputPath);
+  const classesPath = [path.join(root, 'classes.txt'), path.join(path.dirname(root), 'classes.txt')];
+
+  let classes: string[] = [];
+  for (const candidate of classesPath) {
+    try {
+      classes = (await fs.readFile(candidate, 'utf-8')).split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+      break;
+    } catch {
+      // Try the parent directory, where detection export puts it
+    }
+  }
+
+  const labelFiles = (await listFiles(inputPath, 'labels', '.txt')).filter(file => path.basename(file) !== 'classes.txt');
+  return Promise.all(labelFiles.map(async file => ({
+    source: path.parse(file).name,
+    width: 0,
+    height: 0,
+    detections: (await fs.readFile(file, 'utf-8'))
+      .split(/\r?\n/)
+      .map(line => line.trim().split(/\s+/))
+      .filter(fields => fields.length >= 5)
+      .map(([classId, cx, cy, width, height, score]) => {
+        const name = classes[Number(classId)] ?? classId;
+        const [x, y, w, h] = [cx, cy, width, height].map(value => Number(value) * NORMALIZED_SCALE);
+        return withConfidence(
+          { object: name, label: name, normalized_box_2d: [y - h / 2, x - w / 2, y + h / 2, x + w / 2].map(value => round(value, 1)) as DetectedObject['normalized_box_2d'] },
+          score
+        );
+      }),
+  })));
+}
+
+function fromVoc(xml: string): ExportImage {
+  const size = xmlElement(xml, 'size') ?? '';
+  const width = Number(xmlElement(size, 'width') ?? 0);
+  const height = Number(xmlElement(size, 'height') ?? 0);
+
+  const objects = [...xml.matchAll(/<object>([\s\S]*?)<\/object>/g)].map(([, body]) => {
+    const name = unescapeXml(xmlElement(body, 'name') ?? 'object');
+    const box = xmlElement(body, 'bndbox') ?? '';
+    const [xmin, ymin, xmax, ymax] = ['xmin', 'ymin', 'xmax', 'ymax'].map(tag => Number(xmlElement(box, tag) ?? 0));
+    // VOC corners are 1-based
+    return { object: name, label: name, normalized_box_2d: fromPixels(xmin - 1, ymin - 1, xmax, ymax, width, height) };
+  });
+
+  return {
+    source: unescapeXml(xmlElement(xml, 'path') ?? xmlElement(xml, 'filename') ?? ''),
+    width,
+    height,
+    detections: objects,
+  };
+}
+
+function fromCsv(content: string): ExportImage[] {
+  const [header, ...rows] = parseCsv(content);
+  const column = (name: string) => header?.indexOf(name) ?? -1;
+  const required = ['image', 'width', 'height', 'object', 'xmin', 'ymin', 'xmax', 'ymax'];
+  const missing = required.filter(name => column(name) < 0);
+  if (missing.length > 0) {
+    throw new ValidationError(`CSV is missing the column(s): ${missing.join(', ')}`, 'from');
+  }
+
+  const images = new Map<string, ExportImage>();
+  for (const row of rows) {
+    const source = row[column('image')];
+    const width = Number(row[column('width')]);
+    const height = Number(row[column('height')]);
+    const image = images.get(source) ?? { source, width, height, detections: [] };
+    images.set(source, image);
+
+    const [xmin, ymin, xmax, ymax] = ['xmin', 'ymin', 'xmax', 'ymax'].map(name => Number(row[column(name)]));
+    const object = row[column('object')];
+    image.detections.push(withConfidence(
+      {
+        object,
+        label: column('label') >= 0 && row[column('label')] ? row[column('label')] : object,
+        normalized_box_2d: fromPixels(xmin, ymin, xmax, ymax, width, height),
+      },
+      column('confidence') >= 0 ? row[column('confidence')] : undefined
+    ));
+  }
+  return [...images.values()];
+}
+
+function fromLabelStudio(json: unknown): ExportImage[] {
+  const tasks = (Array.isArray(json) ? json : [json]).filter(isObject) as LabelStudioTask[];
+  return tasks.map(task => {
+    // Human annotations take precedence over predictions
+    const results = task.annotations?.[0]?.result ?? task.predictions?.[0]?.result ?? [];
+    const boxes = results.filter((result): result is LabelStudioResult & Required<Pick<LabelStudioResult, 'value'>> =>
+      result.type === 'rectanglelabels' && isObject(result.value));
+    const source = task.data?.image ?? Object.values(task.data ?? {})[0] ?? '';
+
+    return {
+      source: String(source),
+      width: boxes[0]?.original_width ?? 0,
+      height: boxes[0]?.original_height ?? 0,
+      detections: boxes.map(result => {
+        const { x, y, width, height, rectanglelabels } = result.value;
+        const name = String(rectanglelabels?.[0] ?? 'object');
+        // Percent of the image to 0-1000
+        const box = [y, x, y + height, x + width].map(value => round(value * 10, 1)) as DetectedObject['normalized_box_2d'];
+        return withConfidence({ object: name, label: name, normalized_box_2d: box }, result.score);
+      }),
+    };
+  });
+}
+
+function toDetections(objects: unknown[]): DetectedObject[] {
+  return objects
+    .filter((obj): obj is DetectedObject =>
+      isObject(obj) && Array.isArray(obj.normalized_box_2d) && obj.normalized_box_2d.length === 4)
+    .map(obj => withConfidence({ ...obj, label: obj.label ?? obj.object }, obj.confidence));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withConfidence(obj: DetectedObject, score: unknown): DetectedObject {
+  const detected = { ...obj, confidence: normalizeConfidence(score) };
+  if (detected.confidence === undefined) {
+    delete detected.confidence;
+  }
+  return detected;
+}
+
+function fromPixels(x1: number, y1: number, x2: number, y2: number, width: number, height: number): DetectedObject['normalized_box_2d'] {
+  return [
+    round((y1 / height) * NORMALIZED_SCALE, 1),
+    round((x1 / width) * NORMALIZED_SCALE, 1),
+    round((y2 / height) * NORMALIZED_SCALE, 1),
+    round((x2 / width) * NORMALIZED_SCALE, 1),
+  ];
+}
+
+async function statInput(inputPath: string) {
+  try {
+    return await fs.stat(inputPath);
+  } catch {
+    throw new FileNotFoundError(inputPath);
+  }
+}
+
+async function readInput(inputPath: string): Promise<string> {
+  await statInput(inputPath);
+  return fs.readFile(inputPath, 'utf-8');
+}
+
+/**
+ * A single file, or the files with an extension in a directory (or in its
+ * subdirectory of the given name, as detection export lays it out)
+ */
+async function listFiles(inputPath: string, subdirectory: string, extension: string): Promise<string[]> {
+  if (!(await statInput(inputPath)).isDirectory()) {
+    return [inputPath];
+  }
+
+  const nested = path.join(inputPath, subdirectory);
+  const directory = await fs.stat(nested).then(stat => (stat.isDirectory() ? nested : inputPath), () => inputPath);
+  return (await fs.readdir(directory))
+    .filter(name => path.extname(name).toLowerCase() === extension)
+    .sort()
+    .map(name => path.join(directory, name));
+}
+
+function xmlElement(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1].trim();
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+/**
+ * Rows of a CSV document with quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(Boolean));
+}
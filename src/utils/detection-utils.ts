@@ -0,0 +1,280 @@
+/**
+ * Shared object detection helpers used by the detect and batch commands
+ */
+
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import type { DetectedObject, DetectionFilterOptions } from '../types/ObjectDetection.js';
+import type { ImagePreprocessing } from '../types/index.js';
+import { VisionError, ValidationError } from '../types/index.js';
+import { mapBoxToOriginal } from './image-preprocessing.js';
+
+/**
+ * Default system instruction for object detection
+ */
+export function getDefaultSystemInstruction(webContext: boolean): string {
+  if (webContext) {
+    return `
+You are a visual detection assistant that names detected objects based on image context.
+
+STEP 1 - DETECT CONTEXT:
+Determine whether the image represents a webpage.
+
+Consider it a webpage if you detect multiple web indicators such as:
+- Browser UI (tabs, address bar, navigation buttons)
+- Web-style layouts (menus, grids, form layouts)
+- HTML controls (inputs, buttons, dropdowns)
+- Web fonts or text rendering
+- Visible URL or webpage content
+
+STEP 2 - NAME ELEMENTS:
+- If the image appears to be a webpage → use HTML element names
+  (e.g., button, input, a, nav, header, section, h1-h6, p, img, video)
+- Otherwise → use general object names based on visual meaning.
+
+STEP 3 - OUTPUT FORMAT:
+Return a valid JSON array (no text outside JSON) with bounding box coordinates
+and a confidence between 0 and 1 for each element.
+`;
+  }
+
+  return `
+You are an object detection assistant. Detect all visible objects in the image and provide their bounding box coordinates.
+
+Return a valid JSON array with:
+{
+  "object": "<object category>",
+  "label": "<description>",
+  "normalized_box_2d": [ymin, xmin, ymax, xmax], // normalized to 0-1000
+  "confidence": <0-1> // how certain the detection and its label are
+}
+
+Bounding box rules:
+- Tightly fit visible area (exclude shadows/whitespace)
+- Avoid overlap when separable
+- Maintain ymin < ymax and xmin < xmax
+- Differentiate duplicates by traits (e.g., color, position)
+
+Confidence rules:
+- 0.9 or above only for clearly visible, unambiguous objects
+- Lower it for occluded, blurry, tiny or uncertain objects
+`;
+}
+
+/**
+ * Structured output schema for object detection responses
+ */
+export function createDetectionSchema(_provider: string): Record<string, unknown> {
+  return {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        object: {
+          type: 'string',
+          description: 'Generic category for detected object element.',
+        },
+        label: {
+          type: 'string',
+          description: 'Descriptive label or instance-specific detail.',
+        },
+        normalized_box_2d: {
+          type: 'array',
+          minItems: 4,
+          maxItems: 4,
+          items: {
+            type: 'integer',
+          },
+          description: 'Bounding box coordinates [ymin, xmin, ymax, xmax], normalized to 0-1000',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence from 0 to 1 that the object is present and correctly labeled.',
+        },
+      },
+      required: ['object', 'label', 'normalized_box_2d', 'confidence'],
+    },
+  };
+}
+
+/**
+ * Parse the raw model response into detected objects
+ */
+export function parseDetections(text: string): DetectedObject[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    throw new VisionError(
+      `Failed to parse detection results: ${parseError}`,
+      'INVALID_RESPONSE'
+    );
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new VisionError(
+      'Failed to parse detection results: expected a JSON array',
+      'INVALID_RESPONSE'
+    );
+  }
+
+  return (parsed as DetectedObject[]).map(obj => {
+    const detected = { ...obj, confidence: normalizeConfidence(obj.confidence) };
+    if (detected.confidence === undefined) {
+      delete detected.confidence;
+    }
+    return detected;
+  });
+}
+
+/**
+ * Bring a reported confidence into 0-1. Models sometimes answer in percent
+ * ("85%", or a whole number such as 85) or as a string; anything that is not
+ * a number is dropped.
+ */
+export function normalizeConfidence(value: unknown): number | undefined {
+  const isPercent = typeof value === 'string' && value.trim().endsWith('%');
+  const confidence = typeof value === 'string' ? parseFloat(value.replace('%', '')) : value;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+    return undefined;
+  }
+
+  const fraction = isPercent || (Number.isInteger(confidence) && confidence > 1) ? confidence / 100 : confidence;
+  return Math.min(1, Math.max(0, fraction));
+}
+
+/**
+ * Map boxes detected on a preprocessed (e.g. EXIF-oriented) image back onto
+ * the original image, so they line up with its pixels and annotations
+ */
+export function mapDetectionsToOriginal(
+  objects: DetectedObject[],
+  preprocessing?: ImagePreprocessing | null
+): DetectedObject[] {
+  if (!preprocessing?.orientation) {
+    return objects;
+  }
+  return objects.map(obj => ({ ...obj, normalized_box_2d: mapBoxToOriginal(obj.normalized_box_2d, preprocessing) }));
+}
+
+/**
+ * Apply type, confidence and result count filters. Object types match the
+ * detected category case-insensitively. With a confidence threshold, objects
+ * without a confidence are dropped. maxResults keeps the most confident
+ * objects, in their original order.
+ */
+export function applyFilters(objects: DetectedObject[], options: DetectionFilterOptions): DetectedObject[] {
+  const included = options.objectTypes?.length ? new Set(options.objectTypes.map(type => type.toLowerCase())) : undefined;
+  const excluded = new Set((options.excludeTypes ?? []).map(type => type.toLowerCase()));
+
+  let filtered = objects.filter(obj => {
+    const type = obj.object.toLowerCase();
+    return (!included || included.has(type)) && !excluded.has(type);
+  });
+
+  if (options.minConfidence !== undefined) {
+    const threshold = options.minConfidence;
+    filtered = filtered.filter(obj => obj.confidence !== undefined && obj.confidence >= threshold);
+  }
+
+  if (options.maxResults && options.maxResults > 0 && filtered.length > options.maxResults) {
+    const kept = new Set(
+      [...filtered]
+        .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))
+        .slice(0, options.maxResults)
+    );
+    filtered = filtered.filter(obj => kept.has(obj));
+  }
+
+  return filtered;
+}
+
+/**
+ * Build filter options from detect command flags (--types, --exclude-types,
+ * --min-confidence, --max-objects), rejecting out of range values
+ */
+export function parseFilterOptions(options: {
+  types?: string;
+  excludeTypes?: string;
+  minConfidence?: number;
+  maxObjects?: number;
+}): DetectionFilterOptions {
+  if (options.minConfidence !== undefined && !(options.minConfidence >= 0 && options.minConfidence <= 1)) {
+    throw new ValidationError('--min-confidence must be a number between 0 and 1', 'min-confidence');
+  }
+
+  return {
+    objectTypes: splitList(options.types),
+    excludeTypes: splitList(options.excludeTypes),
+    minConfidence: options.minConfidence,
+    maxResults: options.maxObjects,
+  };
+}
+
+/**
+ * One row per object for table output
+ */
+export function toDetectionRows(objects: DetectedObject[]): Array<Record<string, string | number>> {
+  return objects.map((obj, index) => ({
+    '#': index + 1,
+    object: obj.object,
+    label: obj.label,
+    confidence: formatConfidence(obj.confidence) ?? '-',
+    box: `[${obj.normalized_box_2d.join(', ')}]`,
+  }));
+}
+
+/**
+ * Build a human-readable summary with percentage coordinates
+ */
+export function createDetectionSummary(objects: DetectedObject[]): string {
+  if (objects.length === 0) {
+    return 'No objects detected.';
+  }
+
+  const lines = objects.map((obj, index) => {
+    const [ymin, xmin, ymax, xmax] = obj.normalized_box_2d;
+    const left = (xmin / 10).toFixed(1);
+    const top = (ymin / 10).toFixed(1);
+    const width = ((xmax - xmin) / 10).toFixed(1);
+    const height = ((ymax - ymin) / 10).toFixed(1);
+    const confidence = formatConfidence(obj.confidence);
+    return `${index + 1}. ${obj.object} (${obj.label})${confidence ? ` ${confidence}` : ''} at x=${left}%, y=${top}%, w=${width}%, h=${height}%`;
+  });
+
+  return `Detected ${objects.length} object(s):\n${lines.join('\n')}`;
+}
+
+/**
+ * Read pixel dimensions of an image source (local path or URL)
+ */
+export async function getImageDimensions(
+  imageSource: string
+): Promise<{ width: number; height: number; size: number; format: string }> {
+  let buffer: Buffer;
+
+  if (imageSource.startsWith('http://') || imageSource.startsWith('https://')) {
+    const response = await fetch(imageSource);
+    buffer = Buffer.from(await response.arrayBuffer());
+  } else {
+    buffer = await fs.readFile(imageSource);
+  }
+
+  const metadata = await sharp(buffer).metadata();
+
+  return {
+    width: metadata.width || 0,
+    height: metadata.height || 0,
+    size: buffer.length,
+    format: metadata.format || 'unknown',
+  };
+}
+
+function formatConfidence(confidence?: number): string | undefined {
+  return confidence === undefined ? undefined : `${Math.round(confidence * 100)}%`;
+}
+
+function splitList(value?: string): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
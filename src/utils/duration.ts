@@ -0,0 +1,25 @@
+import { ValidationError } from '../types/index.js';
+
+export const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse durations like "90s", "30m", "12h" or "2d" into milliseconds
+ */
+export function parseDuration(value: string, field = 'older-than'): number {
+  const match = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/i);
+  if (!match) {
+    throw new ValidationError(
+      `Invalid duration "${value}". Use a number followed by s, m, h or d (e.g. 12h)`,
+      field
+    );
+  }
+
+  const amount = parseFloat(match[1]);
+  const unit = (match[2] || 'h').toLowerCase();
+  return amount * DURATION_UNITS[unit];
+}
@@ -1,11 +1,16 @@
 import chalk from 'chalk';
-import { VisionError, ConfigFileError } from '../types/Errors.js';
+import { VisionError, ConfigFileError, ContentBlockedError, BudgetExceededError } from '../types/Errors.js';
 import { Logger } from './logger.js';
 import { MetricsCollector } from './metrics.js';
 import { RetryHandler } from './retry-handler.js';
 import { CircuitBreaker } from './circuit-breaker.js';
 import { TokenBucketRateLimiter } from './rate-limiter.js';
 
+// Distinct from other failures so scripts can tell refused content from errors worth retrying
+export const CONTENT_BLOCKED_EXIT_CODE = 3;
+// A request refused by a budget succeeds again only once the day or month rolls over
+export const BUDGET_EXCEEDED_EXIT_CODE = 4;
+
 export interface ErrorHandlerOptions {
   logger?: Logger;
   metrics?: MetricsCollector;
@@ -325,6 +330,23 @@ export class ErrorHandler {
         console.error(chalk.yellow('🔑 Please check your API credentials.'));
         break;
 
+      case 'CONTENT_BLOCKED':
+        if (error instanceof ContentBlockedError) {
+          for (const rating of error.safetyRatings.filter(r => r.blocked || r.probability !== 'NEGLIGIBLE')) {
+            console.error(chalk.yellow(`🛡️ ${rating.category}: ${rating.probability}${rating.blocked ? ' (blocked)' : ''}`));
+          }
+        }
+        console.error(chalk.yellow('💡 Rephrase the prompt, use a different image, or adjust thresholds with --safety or settings.safety.'));
+        break;
+
+      case 'BUDGET_EXCEEDED':
+        console.error(chalk.yellow('💰 Run "ai-vision usage budget" to review limits, or raise them under budgets in the config file.'));
+        break;
+
+      case 'CACHE_MISS':
+        console.error(chalk.yellow('💾 Run once without --offline to call the provider and fill the cache.'));
+        break;
+
       case 'FILE_SIZE_EXCEEDED':
         console.error(chalk.yellow('📏 Consider compressing the image or using a smaller file.'));
         break;
@@ -433,6 +455,9 @@ export class ErrorHandler {
       'FILE_SIZE_EXCEEDED': 'File Size Exceeded',
       'UNSUPPORTED_FILE_TYPE': 'Unsupported File Type',
       'RATE_LIMIT_EXCEEDED': 'Rate Limit Exceeded',
+      'BUDGET_EXCEEDED': 'Budget Exceeded',
+      'CACHE_MISS': 'Not Cached',
+      'CONTENT_BLOCKED': 'Content Blocked',
       'NETWORK_ERROR': 'Network Error',
       'PROVIDER_ERROR': 'Provider Error',
       'VALIDATION_ERROR': 'Validation Error',
@@ -481,6 +506,12 @@ export class ErrorHandler {
    * Get exit code based on error
    */
   private getExitCode(error: Error): number {
+    if (error instanceof ContentBlockedError) {
+      return CONTENT_BLOCKED_EXIT_CODE;
+    }
+    if (error instanceof BudgetExceededError) {
+      return BUDGET_EXCEEDED_EXIT_CODE;
+    }
     if (error instanceof VisionError && error.statusCode) {
       return error.statusCode;
     }
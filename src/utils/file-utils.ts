@@ -0,0 +1,31 @@
+import type { UploadedFile } from '../types/index.js';
+
+/**
+ * Normalize a file ID or URI to the "files/<id>" form used by the Files API
+ */
+export function toFileId(id: string): string {
+  const match = id.match(/files\/([^/?:]+)/);
+  return `files/${match ? match[1] : id}`;
+}
+
+/**
+ * Files a purge would delete: those created at least maxAge milliseconds ago,
+ * optionally only in the given state. A maxAge of 0 selects every file.
+ */
+export function selectPurgeCandidates(
+  files: UploadedFile[],
+  maxAge: number,
+  state?: string,
+  now = Date.now()
+): UploadedFile[] {
+  const cutoff = now - maxAge;
+
+  return files.filter(file => {
+    if (state && file.state !== state) {
+      return false;
+    }
+    // Files without a creation time are only purged when everything is requested
+    const created = file.createTime ? new Date(file.createTime).getTime() : NaN;
+    return maxAge === 0 || (!isNaN(created) && created <= cutoff);
+  });
+}
@@ -5,7 +5,8 @@
  * connectivity checks, authentication validation, and performance metrics.
  */
 
-import type { VisionProvider } from '../types/index.js';
+import type { VisionProvider, HealthStatus } from '../types/index.js';
+import { globalRateLimiter, type MultiProviderRateLimiter } from './rate-limiter.js';
 
 export interface HealthCheckConfig {
   /** Interval between health checks in milliseconds */
@@ -20,6 +21,8 @@ export interface HealthCheckConfig {
   enableCaching: boolean;
   /** Cache duration for health check results in milliseconds */
   cacheDuration: number;
+  /** Average response time in milliseconds above which a provider is degraded */
+  degradedResponseTime: number;
 }
 
 export interface HealthCheckResult {
@@ -78,8 +81,14 @@ export const DEFAULT_HEALTH_CHECK_CONFIG: HealthCheckConfig = {
   enableDetailedChecks: true,
   enableCaching: true,
   cacheDuration: 60000, // 1 minute
+  degradedResponseTime: 10000, // 10 seconds
 };
 
+// Error codes showing the endpoint answered but rejected the credentials
+const AUTH_ERROR_CODES = ['AUTHENTICATION_ERROR', 'AUTHORIZATION_ERROR', 'CONFIG_ERROR'];
+// Error codes showing the provider is reachable and authenticated but throttling requests
+const RATE_LIMIT_ERROR_CODES = ['RATE_LIMIT_EXCEEDED', 'QUOTA_EXHAUSTED', 'QUOTA_EXCEEDED'];
+
 /**
  * Health Checker for monitoring provider health
  */
@@ -91,7 +100,10 @@ export class HealthChecker {
   private checkIntervals: Map<string, NodeJS.Timeout> = new Map();
   private isMonitoring = false;
 
-  constructor(config: Partial<HealthCheckConfig> = {}) {
+  constructor(
+    config: Partial<HealthCheckConfig> = {},
+    private readonly rateLimiter: MultiProviderRateLimiter = globalRateLimiter
+  ) {
     this.config = { ...DEFAULT_HEALTH_CHECK_CONFIG, ...config };
   }
 
@@ -186,23 +198,21 @@ export class HealthChecker {
       },
     };
 
+    const timeout = this.createTimeoutPromise(this.config.timeout);
     try {
       // Perform health check with timeout
-      const healthPromise = this.performDetailedHealthCheck(provider, result);
-      const timeoutPromise = this.createTimeoutPromise(this.config.timeout);
-
-      await Promise.race([healthPromise, timeoutPromise]);
-
-      // Determine overall status
-      result.status = this.determineHealthStatus(result.details);
+      await Promise.race([this.performDetailedHealthCheck(providerName, provider, result), timeout.promise]);
       result.responseTime = Date.now() - startTime;
-
     } catch (error) {
-      result.status = 'unhealthy';
       result.responseTime = Date.now() - startTime;
       result.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      timeout.cancel();
     }
 
+    // Determine overall status against the provider's history
+    result.status = this.determineHealthStatus(providerName, result);
+
     // Update results and history
     this.healthResults.set(providerName, result);
     this.updateHealthHistory(providerName, result);
@@ -324,6 +334,7 @@ export class HealthChecker {
    * Perform detailed health check
    */
   private async performDetailedHealthCheck(
+    providerName: string,
     provider: VisionProvider,
     result: HealthCheckResult
   ): Promise<void> {
@@ -331,47 +342,110 @@ export class HealthChecker {
     const providerInfo = provider.getProviderInfo();
     result.details.serviceSpecific = {
       version: providerInfo.version,
+      model: provider.getImageModel(),
       capabilities: providerInfo.capabilities,
     };
 
-    // Perform basic connectivity check
-    try {
-      const healthStatus = await provider.healthCheck();
-      result.details.connectivity = healthStatus.status === 'healthy';
-      result.details.authentication = healthStatus.status !== 'unhealthy';
-      result.details.endpointAvailable = healthStatus.status !== 'unhealthy';
-
-          } catch (error) {
-      result.details.connectivity = false;
-      result.details.authentication = false;
-      result.details.endpointAvailable = false;
-      throw error;
+    const rateLimitStatus = this.getRateLimitStatus(providerName);
+    if (rateLimitStatus) {
+      result.details.rateLimitStatus = rateLimitStatus;
     }
+
+    // Perform a live request and classify the outcome
+    const healthStatus = await provider.healthCheck();
+    this.applyHealthStatus(result, healthStatus);
   }
 
   /**
-   * Determine overall health status
+   * Translate a provider health status into the individual check results
    */
-  private determineHealthStatus(details: HealthCheckDetails): 'healthy' | 'degraded' | 'unhealthy' {
-    const { authentication, connectivity, endpointAvailable } = details;
+  private applyHealthStatus(result: HealthCheckResult, healthStatus: HealthStatus): void {
+    const { details } = result;
+
+    if (healthStatus.status !== 'unhealthy') {
+      details.connectivity = true;
+      details.authentication = true;
+      details.endpointAvailable = true;
+      return;
+    }
+
+    result.error = healthStatus.message;
+    const code = healthStatus.errorCode;
+    details.serviceSpecific.errorCode = code;
+
+    if (!code || code === 'NETWORK_ERROR') {
+      // Nothing suggests the endpoint was reached
+      return;
+    }
 
-    if (!connectivity || !endpointAvailable) {
-      return 'unhealthy';
+    details.connectivity = true;
+
+    if (AUTH_ERROR_CODES.includes(code)) {
+      details.endpointAvailable = true;
+      return;
     }
 
-    if (!authentication) {
+    details.authentication = true;
+
+    if (RATE_LIMIT_ERROR_CODES.includes(code)) {
+      details.endpointAvailable = true;
+      details.serviceSpecific.rateLimited = true;
+    }
+    // Any other error (model not found, 5xx) means the endpoint cannot serve requests
+  }
+
+  /**
+   * Current client-side rate limit state for a provider, if one is registered
+   */
+  private getRateLimitStatus(providerName: string): HealthCheckDetails['rateLimitStatus'] {
+    const status = this.rateLimiter.getAllStatus().get(providerName);
+    if (!status) {
+      return undefined;
+    }
+
+    // The daily quota is the binding limit when one is configured
+    const quota = this.rateLimiter.getAllQuotaStatus().get(providerName);
+    if (quota) {
+      return {
+        remaining: quota.remaining,
+        limit: quota.dailyLimit,
+        resetTime: quota.resetTime,
+      };
+    }
+
+    return {
+      remaining: Math.floor(status.tokens),
+      limit: status.capacity,
+      resetTime: status.nextRequestTime ?? new Date(),
+    };
+  }
+
+  /**
+   * Determine overall health status
+   */
+  private determineHealthStatus(
+    providerName: string,
+    result: HealthCheckResult
+  ): 'healthy' | 'degraded' | 'unhealthy' {
+    const { authentication, connectivity, endpointAvailable, rateLimitStatus, serviceSpecific } = result.details;
+    const previous = this.getProviderHistory(providerName)?.results ?? [];
+
+    if (!connectivity || !endpointAvailable || !authentication) {
+      // A provider that was healthy recently is only degraded until failures reach the threshold
+      const failures = this.calculateConsecutiveFailures(previous) + 1;
+      const wasHealthy = previous.some(r => r.status === 'healthy');
+      return wasHealthy && failures < this.config.failureThreshold ? 'degraded' : 'unhealthy';
+    }
+
+    if (serviceSpecific.rateLimited || (rateLimitStatus && rateLimitStatus.remaining <= 0)) {
       return 'degraded';
     }
 
     // Check performance metrics
-    const history = this.getProviderHistory('');
-    if (history && history.results.length > 0) {
-      const recentResults = history.results.slice(-5);
-      const avgResponseTime = recentResults.reduce((sum, r) => sum + r.responseTime, 0) / recentResults.length;
-
-      if (avgResponseTime > 10000) { // 10 seconds
-        return 'degraded';
-      }
+    const recentResults = [...previous.slice(-4), result];
+    const avgResponseTime = recentResults.reduce((sum, r) => sum + r.responseTime, 0) / recentResults.length;
+    if (avgResponseTime > this.config.degradedResponseTime) {
+      return 'degraded';
     }
 
     return 'healthy';
@@ -445,14 +519,16 @@ export class HealthChecker {
   }
 
   /**
-   * Create a timeout promise
+   * Create a timeout promise; cancel it so the timer does not keep the process alive
    */
-  private createTimeoutPromise(timeoutMs: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
+  private createTimeoutPromise(timeoutMs: number): { promise: Promise<never>; cancel: () => void } {
+    let timer: NodeJS.Timeout | undefined;
+    const promise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
         reject(new Error(`Health check timed out after ${timeoutMs}ms`));
       }, timeoutMs);
     });
+    return { promise, cancel: () => clearTimeout(timer) };
   }
 
   /**
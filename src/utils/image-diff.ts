@@ -0,0 +1,355 @@
+/**
+ * Image Difference
+ *
+ * Finds where two versions of an image differ, for compare --mode diff. The
+ * second image is resized onto the first, both are scaled down for analysis,
+ * and every 8x8 block is scored by its structural dissimilarity (1 - SSIM)
+ * and its mean pixel difference. Changed blocks close to each other are
+ * grouped into regions, whose boxes the model is then asked to explain.
+ */
+
+import sharp from 'sharp';
+import type { DetectedObject } from '../types/ObjectDetection.js';
+import type { AnalysisResult } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import type { ImageAnnotator } from './imageAnnotator.js';
+import { NORMALIZED_SCALE, round } from './box-geometry.js';
+
+export interface DiffOptions {
+  threshold?: number; // 0-1 block change that counts as a difference
+  minRegionArea?: number; // Fraction of the image; smaller regions are ignored
+  analysisSize?: number; // Longest side the images are compared at, in pixels
+}
+
+export interface DiffRegion {
+  id: number; // 1-based, most changed first
+  normalized_box_2d: [number, number, number, number]; // [ymin, xmin, ymax, xmax] on a 0-1000 scale
+  score: number; // Largest block change in the region, 0-1
+  area: number; // Percent of the image that changed inside the region
+}
+
+/**
+ * A changed region with the model's explanation
+ */
+export interface DiffChange extends DetectedObject {
+  region: number;
+  score: number;
+}
+
+export interface ImageDiff {
+  width: number; // Size of the first image, after the EXIF orientation is applied
+  height: number;
+  similarity: number; // Mean SSIM over all blocks, 0-1
+  changedPercent: number; // Percent of the image in changed blocks
+  regions: DiffRegion[];
+  before: Buffer; // Both images as PNG at width x height
+  after: Buffer;
+  heatmap: Buffer; // PNG of the first image with the pixel difference in red
+}
+
+export interface DiffAnalysis {
+  result: AnalysisResult; // text holds the explained changes as JSON
+  diff: ImageDiff;
+  changes: DiffChange[];
+}
+
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+export const DEFAULT_MIN_REGION_AREA = 0.001;
+export const DEFAULT_ANALYSIS_SIZE = 1024;
+export const MAX_DIFF_REGIONS = 20;
+
+const BLOCK_SIZE = 8;
+// Changed blocks at most this many blocks apart belong to one region
+const REGION_GAP = 2;
+// Softens resampling and compression artifacts before the images are compared
+const BLUR_SIGMA = 1;
+// Pixel differences below this are compression noise and left out of the heatmap
+const HEATMAP_NOISE_FLOOR = 0.04;
+// SSIM stabilizing constants for 8-bit luma
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Validate --diff-threshold and the other diff options
+ */
+export function validateDiffOptions(options: DiffOptions): void {
+  if (options.threshold !== undefined && (Number.isNaN(options.threshold) || options.threshold <= 0 || options.threshold >= 1)) {
+    throw new ValidationError('Diff threshold must be between 0 and 1', 'diff-threshold');
+  }
+  if (options.minRegionArea !== undefined && (Number.isNaN(options.minRegionArea) || options.minRegionArea < 0 || options.minRegionArea >= 1)) {
+    throw new ValidationError('Minimum region area must be a fraction of the image between 0 and 1', 'min-region-area');
+  }
+}
+
+/**
+ * Bring both images to the size of the first one, applying the EXIF
+ * orientation when autoOrient is set. Returns both as PNG.
+ */
+export async function alignImages(
+  before: Buffer,
+  after: Buffer,
+  autoOrient = true
+): Promise<{ width: number; height: number; before: Buffer; after: Buffer }> {
+  const orient = (buffer: Buffer) => (autoOrient ? sharp(buffer).rotate() : sharp(buffer));
+
+  const first = await orient(before).png().toBuffer({ resolveWithObject: true });
+  const second = await orient(after)
+    .resize(first.info.width, first.info.height, { fit: 'fill' })
+    .png()
+    .toBuffer();
+
+  return { width: first.info.width, height: first.info.height, before: first.data, after: second };
+}
+
+/**
+ * Compare two images and find the regions that changed
+ */
+export async function diffImages(
+  beforeImage: Buffer,
+  afterImage: Buffer,
+  options: DiffOptions = {},
+  autoOrient = true
+): Promise<ImageDiff> {
+  const threshold = options.threshold ?? DEFAULT_DIFF_THRESHOLD;
+  const aligned = await alignImages(beforeImage, afterImage, autoOrient);
+
+  const scale = Math.min(1, (options.analysisSize ?? DEFAULT_ANALYSIS_SIZE) / Math.max(aligned.width, aligned.height));
+  const width = Math.max(1, Math.round(aligned.width * scale));
+  const height = Math.max(1, Math.round(aligned.height * scale));
+  const [before, after] = await Promise.all([aligned.before, aligned.after].map(png => toRaw(png, width, height)));
+
+  const pixelDiff = pixelDifference(before, after);
+  const blocks = scoreBlocks(before, after, pixelDiff);
+  const changed = blocks.change.map(change => change > threshold);
+
+  const regions = findRegions(changed, blocks.change, blocks.pixels, blocks.columns, blocks.rows, width, height)
+    .filter(region => region.pixels / (width * height) >= (options.minRegionArea ?? DEFAULT_MIN_REGION_AREA))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DIFF_REGIONS)
+    .map((region, index) => ({
+      id: index + 1,
+      normalized_box_2d: region.box,
+      score: round(region.score, 3),
+      area: round((region.pixels / (width * height)) * 100, 2),
+    }));
+
+  const changedPixels = changed.reduce((sum, isChanged, index) => sum + (isChanged ? blocks.pixels[index] : 0), 0);
+
+  return {
+    width: aligned.width,
+    height: aligned.height,
+    similarity: round(blocks.ssim.reduce((sum, value) => sum + value, 0) / blocks.ssim.length, 4),
+    changedPercent: round((changedPixels / (width * height)) * 100, 2),
+    regions,
+    before: aligned.before,
+    after: aligned.after,
+    heatmap: await createHeatmap(aligned.before, aligned.width, aligned.height, pixelDiff, width, height),
+  };
+}
+
+/**
+ * Both images next to each other, each with the changed regions drawn by the annotator
+ */
+export async function createSideBySide(diff: ImageDiff, changes: DetectedObject[], annotator: ImageAnnotator): Promise<Buffer> {
+  const gap = Math.max(8, Math.round(diff.width / 100));
+  const overlay = Buffer.from(annotator.createOverlay(diff.width, diff.height, changes));
+
+  return sharp({
+    create: { width: diff.width * 2 + gap, height: diff.height, channels: 3, background: '#ffffff' },
+  })
+    .composite([
+      { input: diff.before, left: 0, top: 0 },
+      { input: overlay, left: 0, top: 0 },
+      { input: diff.after, left: diff.width + gap, top: 0 },
+      { input: overlay, left: diff.width + gap, top: 0 },
+    ])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Decode an image into RGB pixels at the analysis size
+ */
+async function toRaw(png: Buffer, width: number, height: number): Promise<RawImage> {
+  const data = await sharp(png)
+    .resize(width, height, { fit: 'fill' })
+    .blur(BLUR_SIGMA)
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer();
+  return { data, width, height };
+}
+
+/**
+ * Per-pixel difference: the largest channel difference, 0-1
+ */
+function pixelDifference(before: RawImage, after: RawImage): Float32Array {
+  const diff = new Float32Array(before.width * before.height);
+  for (let i = 0; i < diff.length; i++) {
+    const offset = i * 3;
+    diff[i] = Math.max(
+      Math.abs(before.data[offset] - after.data[offset]),
+      Math.abs(before.data[offset + 1] - after.data[offset + 1]),
+      Math.abs(before.data[offset + 2] - after.data[offset + 2])
+    ) / 255;
+  }
+  return diff;
+}
+
+/**
+ * SSIM and change score of every block. A block's change is the larger of
+ * 1 - SSIM, which catches structural edits, and its mean pixel difference,
+ * which catches flat color changes SSIM is less sensitive to.
+ */
+function scoreBlocks(before: RawImage, after: RawImage, pixelDiff: Float32Array) {
+  const columns = Math.ceil(before.width / BLOCK_SIZE);
+  const rows = Math.ceil(before.height / BLOCK_SIZE);
+  const ssim: number[] = [];
+  const change: number[] = [];
+  const pixels: number[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let count = 0;
+      let sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0, sumDiff = 0;
+
+      for (let y = row * BLOCK_SIZE; y < Math.min(before.height, (row + 1) * BLOCK_SIZE); y++) {
+        for (let x = column * BLOCK_SIZE; x < Math.min(before.width, (column + 1) * BLOCK_SIZE); x++) {
+          const index = y * before.width + x;
+          const lumaX = luma(before.data, index * 3);
+          const lumaY = luma(after.data, index * 3);
+          sumX += lumaX;
+          sumY += lumaY;
+          sumXX += lumaX * lumaX;
+          sumYY += lumaY * lumaY;
+          sumXY += lumaX * lumaY;
+          sumDiff += pixelDiff[index];
+          count++;
+        }
+      }
+
+      const meanX = sumX / count;
+      const meanY = sumY / count;
+      const varianceX = sumXX / count - meanX * meanX;
+      const varianceY = sumYY / count - meanY * meanY;
+      const covariance = sumXY / count - meanX * meanY;
+      const blockSsim = ((2 * meanX * meanY + C1) * (2 * covariance + C2))
+        / ((meanX * meanX + meanY * meanY + C1) * (varianceX + varianceY + C2));
+
+      ssim.push(Math.max(0, Math.min(1, blockSsim)));
+      change.push(Math.max(1 - blockSsim, sumDiff / count));
+      pixels.push(count);
+    }
+  }
+
+  return { columns, rows, ssim, change, pixels };
+}
+
+/**
+ * Group changed blocks into regions with a flood fill that bridges gaps of
+ * up to REGION_GAP unchanged blocks
+ */
+function findRegions(
+  changed: boolean[],
+  change: number[],
+  blockPixels: number[],
+  columns: number,
+  rows: number,
+  width: number,
+  height: number
+): Array<{ box: [number, number, number, number]; score: number; pixels: number }> {
+  const visited = new Uint8Array(changed.length);
+  const regions: Array<{ box: [number, number, number, number]; score: number; pixels: number }> = [];
+
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || visited[start]) {
+      continue;
+    }
+
+    let minColumn = columns, minRow = rows, maxColumn = 0, maxRow = 0, score = 0, pixels = 0;
+    const queue = [start];
+    visited[start] = 1;
+
+    while (queue.length > 0) {
+      const index = queue.pop()!;
+      const row = Math.floor(index / columns);
+      const column = index % columns;
+      minColumn = Math.min(minColumn, column);
+      minRow = Math.min(minRow, row);
+      maxColumn = Math.max(maxColumn, column);
+      maxRow = Math.max(maxRow, row);
+      score = Math.max(score, change[index]);
+      pixels += blockPixels[index];
+
+      for (let r = Math.max(0, row - REGION_GAP); r <= Math.min(rows - 1, row + REGION_GAP); r++) {
+        for (let c = Math.max(0, column - REGION_GAP); c <= Math.min(columns - 1, column + REGION_GAP); c++) {
+          const neighbour = r * columns + c;
+          if (changed[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            queue.push(neighbour);
+          }
+        }
+      }
+    }
+
+    const x1 = minColumn * BLOCK_SIZE;
+    const y1 = minRow * BLOCK_SIZE;
+    const x2 = Math.min(width, (maxColumn + 1) * BLOCK_SIZE);
+    const y2 = Math.min(height, (maxRow + 1) * BLOCK_SIZE);
+    regions.push({
+      box: [
+        Math.round((y1 / height) * NORMALIZED_SCALE),
+        Math.round((x1 / width) * NORMALIZED_SCALE),
+        Math.round((y2 / height) * NORMALIZED_SCALE),
+        Math.round((x2 / width) * NORMALIZED_SCALE),
+      ],
+      score,
+      pixels,
+    });
+  }
+
+  return regions;
+}
+
+/**
+ * Red overlay whose opacity follows the pixel difference, laid over the first image
+ */
+async function createHeatmap(
+  before: Buffer,
+  width: number,
+  height: number,
+  pixelDiff: Float32Array,
+  diffWidth: number,
+  diffHeight: number
+): Promise<Buffer> {
+  const overlay = Buffer.alloc(diffWidth * diffHeight * 4);
+  for (let i = 0; i < pixelDiff.length; i++) {
+    const strength = pixelDiff[i] < HEATMAP_NOISE_FLOOR ? 0 : Math.min(1, pixelDiff[i] * 3);
+    overlay[i * 4] = 255;
+    overlay[i * 4 + 1] = Math.round(64 * (1 - strength));
+    overlay[i * 4 + 2] = 0;
+    overlay[i * 4 + 3] = Math.round(strength * 200);
+  }
+
+  const heat = await sharp(overlay, { raw: { width: diffWidth, height: diffHeight, channels: 4 } })
+    .resize(width, height, { fit: 'fill' })
+    .png()
+    .toBuffer();
+
+  return sharp(before)
+    .modulate({ brightness: 0.6, saturation: 0.3 })
+    .composite([{ input: heat, left: 0, top: 0 }])
+    .png()
+    .toBuffer();
+}
+
+function luma(data: Buffer, offset: number): number {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+}
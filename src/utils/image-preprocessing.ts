@@ -0,0 +1,215 @@
+/**
+ * Image Preprocessing
+ *
+ * Prepares images for the model before they are sent: applies the EXIF
+ * orientation, downscales to a maximum dimension or image token budget,
+ * flattens transparency and converts formats models do not accept. Each step
+ * is recorded so coordinates returned for the processed image can be mapped
+ * back onto the original.
+ */
+
+import sharp from 'sharp';
+import type { ImagePreprocessing, PreprocessingConfig } from '../types/index.js';
+import { NORMALIZED_SCALE } from './box-geometry.js';
+
+export interface PreprocessedImage {
+  buffer: Buffer;
+  mimeType: string;
+  info: ImagePreprocessing;
+}
+
+// Image formats Gemini accepts; anything else is converted
+const MODEL_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+// Formats sharp can write; a transformed image in another format is re-encoded as JPEG
+const OUTPUT_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Images up to 384px on both sides cost one tile; larger ones are split into 768px tiles
+const TOKENS_PER_TILE = 258;
+const SINGLE_TILE_SIZE = 384;
+const TILE_SIZE = 768;
+
+/**
+ * Estimate the prompt tokens of an image from its pixel size
+ */
+export function estimateImageTokens(width: number, height: number): number {
+  if (width <= SINGLE_TILE_SIZE && height <= SINGLE_TILE_SIZE) {
+    return TOKENS_PER_TILE;
+  }
+  return Math.ceil(width / TILE_SIZE) * Math.ceil(height / TILE_SIZE) * TOKENS_PER_TILE;
+}
+
+/**
+ * Apply the configured transforms. Resolves to undefined when the image needs
+ * none or cannot be decoded; it is then sent unchanged.
+ */
+export async function preprocessImage(
+  buffer: Buffer,
+  mimeType: string,
+  config: PreprocessingConfig
+): Promise<PreprocessedImage | undefined> {
+  if (!config.enabled) {
+    return undefined;
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    return undefined;
+  }
+  if (!metadata.width || !metadata.height) {
+    return undefined;
+  }
+
+  let pipeline = sharp(buffer);
+  const transforms: string[] = [];
+
+  const orientation = config.auto_orient && metadata.orientation && metadata.orientation > 1
+    ? metadata.orientation
+    : undefined;
+  // Orientations 5-8 swap width and height
+  const [width, height] = orientation && orientation >= 5
+    ? [metadata.height, metadata.width]
+    : [metadata.width, metadata.height];
+  if (orientation) {
+    pipeline = pipeline.rotate();
+    transforms.push(`auto-orient (EXIF orientation ${orientation})`);
+  }
+
+  const scale = Math.min(dimensionScale(width, height, config.max_dimension), tokenScale(width, height, config.max_image_tokens));
+  if (scale < 1) {
+    const targetWidth = Math.max(1, Math.round(width * scale));
+    const targetHeight = Math.max(1, Math.round(height * scale));
+    pipeline = pipeline.resize(targetWidth, targetHeight, { fit: 'fill' });
+    transforms.push(`resize ${width}x${height} -> ${targetWidth}x${targetHeight}`);
+  }
+
+  let flattened = false;
+  if (metadata.hasAlpha && config.strip_alpha) {
+    pipeline = pipeline.flatten({ background: '#ffffff' });
+    transforms.push('flatten alpha onto white');
+    flattened = true;
+  }
+
+  let outputType = mimeType;
+  if (config.format !== 'auto') {
+    outputType = `image/${config.format}`;
+  } else if (!MODEL_IMAGE_TYPES.includes(mimeType) || (transforms.length > 0 && !OUTPUT_IMAGE_TYPES.includes(mimeType))) {
+    outputType = metadata.hasAlpha && !flattened ? 'image/png' : 'image/jpeg';
+  }
+
+  // JPEG has no alpha channel
+  if (metadata.hasAlpha && !flattened && outputType === 'image/jpeg') {
+    pipeline = pipeline.flatten({ background: '#ffffff' });
+    transforms.push('flatten alpha onto white');
+  }
+
+  if (outputType !== mimeType) {
+    transforms.push(`convert ${mimeType} -> ${outputType}`);
+  }
+
+  if (transforms.length === 0) {
+    return undefined;
+  }
+
+  switch (outputType) {
+    case 'image/png':
+      pipeline = pipeline.png();
+      break;
+    case 'image/webp':
+      pipeline = pipeline.webp({ quality: config.quality });
+      break;
+    default:
+      pipeline = pipeline.jpeg({ quality: config.quality });
+  }
+
+  try {
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    return {
+      buffer: data,
+      mimeType: outputType,
+      info: {
+        originalWidth: metadata.width,
+        originalHeight: metadata.height,
+        originalMimeType: mimeType,
+        originalSize: buffer.length,
+        width: info.width,
+        height: info.height,
+        mimeType: outputType,
+        size: data.length,
+        orientation,
+        transforms,
+      },
+    };
+  } catch {
+    // Readable headers but undecodable pixels, e.g. HEIC without a codec
+    return undefined;
+  }
+}
+
+/**
+ * Map a normalized [ymin, xmin, ymax, xmax] box on the processed image onto
+ * the original image's stored pixels. Resizing keeps normalized coordinates;
+ * only the EXIF orientation has to be undone.
+ */
+export function mapBoxToOriginal(
+  box: [number, number, number, number],
+  preprocessing?: ImagePreprocessing | null
+): [number, number, number, number] {
+  const orientation = preprocessing?.orientation;
+  if (!orientation || orientation === 1) {
+    return box;
+  }
+
+  const [ymin, xmin, ymax, xmax] = box;
+  const [x1, y1] = toStoredPoint(xmin, ymin, orientation);
+  const [x2, y2] = toStoredPoint(xmax, ymax, orientation);
+  return [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+}
+
+/**
+ * Invert an EXIF orientation for a normalized point (u, v) on the displayed image
+ */
+function toStoredPoint(u: number, v: number, orientation: number): [number, number] {
+  const s = NORMALIZED_SCALE;
+  switch (orientation) {
+    case 2: return [s - u, v]; // Mirrored horizontally
+    case 3: return [s - u, s - v]; // Rotated 180°
+    case 4: return [u, s - v]; // Mirrored vertically
+    case 5: return [v, u]; // Transposed
+    case 6: return [v, s - u]; // Displayed rotated 90° clockwise
+    case 7: return [s - v, s - u]; // Transversed
+    case 8: return [s - v, u]; // Displayed rotated 90° counter-clockwise
+    default: return [u, v];
+  }
+}
+
+function dimensionScale(width: number, height: number, maxDimension: number): number {
+  return maxDimension > 0 ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+}
+
+/**
+ * Largest scale at which the estimated image tokens fit the budget; candidate
+ * scales put one side exactly on a tile boundary
+ */
+function tokenScale(width: number, height: number, budget: number): number {
+  if (budget <= 0 || estimateImageTokens(width, height) <= budget) {
+    return 1;
+  }
+
+  const candidates: number[] = [];
+  for (let tiles = Math.ceil(width / TILE_SIZE); tiles >= 1; tiles--) {
+    candidates.push((tiles * TILE_SIZE) / width);
+  }
+  for (let tiles = Math.ceil(height / TILE_SIZE); tiles >= 1; tiles--) {
+    candidates.push((tiles * TILE_SIZE) / height);
+  }
+
+  const fits = candidates
+    .filter(scale => scale < 1)
+    .sort((a, b) => b - a)
+    .find(scale => estimateImageTokens(Math.round(width * scale), Math.round(height * scale)) <= budget);
+
+  // A budget below one large tile leaves only the single-tile size
+  return fits ?? SINGLE_TILE_SIZE / Math.max(width, height);
+}
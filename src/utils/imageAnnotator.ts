@@ -4,27 +4,95 @@
  */
 
 import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import path from 'path';
 import type { DetectedObject } from '../types/ObjectDetection.js';
 import type { BoundingBox } from '../types/Analysis.js';
+import { ValidationError } from '../types/index.js';
+import { NORMALIZED_SCALE, escapeXml, intersectionArea } from './box-geometry.js';
+
+export type AnnotationPalette = 'single' | 'default' | 'colorblind';
+
+export const ANNOTATION_IMAGE_FORMATS = ['png', 'jpg', 'webp', 'svg', 'html'] as const;
 
 export interface AnnotationOptions {
-  color?: string;
+  color?: string; // Box color with the 'single' palette
+  palette?: AnnotationPalette; // 'default' and 'colorblind' give each object type its own color
   lineWidth?: number;
   fontSize?: number;
+  fillOpacity?: number; // 0-1; 0 draws outlines only
   showLabels?: boolean;
   showConfidence?: boolean;
   labelBackground?: boolean;
+  showLegend?: boolean;
+}
+
+/**
+ * Per-class colors: Tableau 10, and the Okabe-Ito palette, which stays
+ * distinguishable with the common forms of color blindness
+ */
+export const ANNOTATION_PALETTES: Record<Exclude<AnnotationPalette, 'single'>, string[]> = {
+  default: ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'],
+  colorblind: ['#0072b2', '#e69f00', '#009e73', '#cc79a7', '#56b4e9', '#d55e00', '#f0e442', '#000000'],
+};
+
+export interface AnnotationStyleFlags {
+  annotationColor?: string;
+  palette?: string;
+  fillOpacity?: number;
+  legend?: boolean;
+}
+
+interface PlacedLabel {
+  text: string;
+  x: number; // Text baseline start
+  y: number;
+  box: BoundingBox; // Background rectangle
 }
 
+// Advance widths relative to the font size, sized for the wider sans-serif fallbacks
+const NARROW_CHARS = /[ijl|!.,:;'`[\]()fIt]/;
+const WIDE_CHARS = /[MWmw@%]/;
+const UPPER_CHARS = /[A-Z0-9#&?]/;
+
+// Labels are padded this much inside their background
+const LABEL_PADDING = 4;
+const MAX_LABEL_LENGTH = 50;
+
+/**
+ * Build annotation options from the --annotation-color, --palette,
+ * --fill-opacity and --legend flags. A color without a palette draws every
+ * box in that color; otherwise each object type gets its own.
+ */
+export function parseAnnotationStyle(flags: AnnotationStyleFlags): AnnotationOptions {
+  const palette = (flags.palette?.toLowerCase() ?? (flags.annotationColor ? 'single' : 'default')) as AnnotationPalette;
+  if (!['single', 'default', 'colorblind'].includes(palette)) {
+    throw new ValidationError(`Unknown palette "${flags.palette}". Use one of: default, colorblind, single`, 'palette');
+  }
+
+  if (flags.fillOpacity !== undefined && (Number.isNaN(flags.fillOpacity) || flags.fillOpacity < 0 || flags.fillOpacity > 1)) {
+    throw new ValidationError('Fill opacity must be between 0 and 1', 'fill-opacity');
+  }
+
+  return {
+    palette,
+    ...(flags.annotationColor ? { color: flags.annotationColor } : {}),
+    ...(flags.fillOpacity !== undefined ? { fillOpacity: flags.fillOpacity } : {}),
+    showLegend: Boolean(flags.legend),
+  };
+}
 
 export class ImageAnnotator {
   private readonly defaultOptions: AnnotationOptions = {
     color: 'red',
+    palette: 'default',
     lineWidth: 3,
     fontSize: 16,
+    fillOpacity: 0,
     showLabels: true,
     showConfidence: false,
     labelBackground: true,
+    showLegend: false,
   };
 
   constructor(private options: AnnotationOptions = {}) {
@@ -32,7 +100,10 @@ export class ImageAnnotator {
   }
 
   /**
-   * Create an annotated image with bounding boxes and labels
+   * Create an annotated image with bounding boxes and labels. The output
+   * type follows the extension of outputPath: .svg writes a standalone SVG
+   * overlay sized to the image, .html a self-contained page with the image,
+   * the overlay and hover tooltips, anything else a raster image.
    */
   async createAnnotatedImage(
     inputPath: string,
@@ -41,29 +112,37 @@ export class ImageAnnotator {
     options?: AnnotationOptions
   ): Promise<string> {
     const opts = { ...this.options, ...options };
-
-    if (objects.length === 0) {
-      // No objects to annotate, just copy the image
-      await this.copyImage(inputPath, outputPath);
-      return outputPath;
-    }
+    const extension = path.extname(outputPath).toLowerCase();
 
     try {
       // Load the original image
       const image = sharp(inputPath);
       const metadata = await image.metadata();
+      const width = metadata.width!;
+      const height = metadata.height!;
 
-      // Create overlay with SVG
-      const svgOverlay = this.createSVGOverlay(
-        metadata.width!,
-        metadata.height!,
-        objects,
-        opts
-      );
+      if (extension === '.svg') {
+        await fs.writeFile(outputPath, this.createSVGOverlay(width, height, objects, opts, true), 'utf-8');
+        return outputPath;
+      }
+
+      if (extension === '.html' || extension === '.htm') {
+        // Boxes refer to the stored pixels, so an EXIF orientation must not rotate the page image
+        const imageData = (metadata.orientation ?? 1) > 1 ? await sharp(inputPath).toBuffer() : await fs.readFile(inputPath);
+        const html = this.createHTMLPage(imageData, metadata.format || 'png', width, height, objects, opts, path.basename(inputPath));
+        await fs.writeFile(outputPath, html, 'utf-8');
+        return outputPath;
+      }
+
+      if (objects.length === 0) {
+        // No objects to annotate, just copy the image
+        await this.copyImage(inputPath, outputPath);
+        return outputPath;
+      }
 
       // Apply the overlay
       await image
-        .composite([{ input: Buffer.from(svgOverlay), top: 0, left: 0 }])
+        .composite([{ input: Buffer.from(this.createSVGOverlay(width, height, objects, opts)), top: 0, left: 0 }])
         .toFile(outputPath);
 
       return outputPath;
@@ -73,78 +152,235 @@ export class ImageAnnotator {
   }
 
   /**
-   * Create SVG overlay with bounding boxes
+   * SVG overlay of the boxes and labels, to composite onto an image of this size
+   */
+  createOverlay(width: number, height: number, objects: DetectedObject[], options?: AnnotationOptions): string {
+    return this.createSVGOverlay(width, height, objects, { ...this.options, ...options });
+  }
+
+  /**
+   * Color of each object type, in order of first appearance
+   */
+  assignColors(objects: DetectedObject[], options: AnnotationOptions = this.options): Map<string, string> {
+    const colors = new Map<string, string>();
+    const palette = options.palette && options.palette !== 'single' ? ANNOTATION_PALETTES[options.palette] : undefined;
+
+    for (const obj of objects) {
+      if (!colors.has(obj.object)) {
+        colors.set(obj.object, palette ? palette[colors.size % palette.length] : options.color || 'red');
+      }
+    }
+    return colors;
+  }
+
+  /**
+   * Create SVG overlay with bounding boxes, labels and the legend. Interactive
+   * overlays put each object in a group with a tooltip title and data attributes.
    */
   private createSVGOverlay(
     width: number,
     height: number,
     objects: DetectedObject[],
-    options: AnnotationOptions
+    options: AnnotationOptions,
+    interactive = false
   ): string {
-    const svgElements: string[] = [];
+    const colors = this.assignColors(objects, options);
+    const placed: BoundingBox[] = [];
+    const boxes: string[] = [];
+    const labels: string[] = [];
 
-    objects.forEach((obj) => {
-      const bbox = obj.normalized_box_2d;
-      const pixelBbox = this.normalizeToPixel(bbox, width, height);
+    objects.forEach((obj, index) => {
+      const color = escapeXml(colors.get(obj.object)!);
+      const pixelBbox = this.normalizeToPixel(obj.normalized_box_2d, width, height);
 
       // Create bounding box rectangle
-      const rect = this.createRectangle(pixelBbox, options);
-      svgElements.push(rect);
+      const rect = this.createRectangle(pixelBbox, color, options);
+      boxes.push(interactive
+        ? `<g class="object" data-index="${index}" data-object="${escapeXml(obj.object)}"><title>${escapeXml(this.formatTooltip(obj))}</title>${rect}</g>`
+        : rect);
 
-      // Create label if enabled
+      // Create label if enabled; drawn after every box so no box covers a label
       if (options.showLabels) {
-        const label = this.createLabel(pixelBbox, obj, options);
-        svgElements.push(label);
+        const label = this.placeLabel(pixelBbox, this.formatLabelText(obj, options), width, height, placed, options);
+        placed.push(label.box);
+        labels.push(this.createLabel(label, color, options));
       }
     });
 
+    const legend = options.showLegend ? this.createLegend(objects, colors, width, options) : '';
+
     return `
-<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
   <style>
-    .bbox { stroke: ${options.color}; stroke-width: ${options.lineWidth}; fill: none; }
-    .label-text { font-family: Arial, sans-serif; font-size: ${options.fontSize}px; fill: ${options.color}; }
-    .label-bg { fill: white; fill-opacity: 0.9; rx: 4; }
+    .bbox { stroke-width: ${options.lineWidth}; }
+    .label-text { font-family: Arial, Helvetica, sans-serif; font-size: ${options.fontSize}px; }
+    .label-bg { fill: white; fill-opacity: 0.9; }
   </style>
-  ${svgElements.join('\n  ')}
+  ${boxes.join('\n  ')}
+  ${labels.join('\n  ')}
+  ${legend}
 </svg>`;
   }
 
   /**
    * Create SVG rectangle for bounding box
    */
-  private createRectangle(bbox: BoundingBox, _options: AnnotationOptions): string {
+  private createRectangle(bbox: BoundingBox, color: string, options: AnnotationOptions): string {
     const { x, y, width, height } = bbox;
-    return `<rect class="bbox" x="${x}" y="${y}" width="${width}" height="${height}" />`;
+    const fill = options.fillOpacity && options.fillOpacity > 0
+      ? `fill="${color}" fill-opacity="${Math.min(1, options.fillOpacity)}"`
+      : 'fill="none"';
+    return `<rect class="bbox" x="${x}" y="${y}" width="${width}" height="${height}" stroke="${color}" ${fill} />`;
   }
 
   /**
    * Create SVG text label
    */
-  private createLabel(
+  private createLabel(label: PlacedLabel, color: string, options: AnnotationOptions): string {
+    const text = `<text class="label-text" x="${label.x}" y="${label.y}" fill="${color}" text-anchor="start">${escapeXml(label.text)}</text>`;
+    if (!options.labelBackground) {
+      return text;
+    }
+
+    // Create background rectangle for better readability
+    const { x, y, width, height } = label.box;
+    return `<rect class="label-bg" x="${x}" y="${y}" width="${width}" height="${height}" rx="4" />${text}`;
+  }
+
+  /**
+   * Position a label next to its box: above it, inside its top edge, below
+   * it, or inside its bottom edge, whichever first stays within the image
+   * without covering a label placed earlier. When every position overlaps,
+   * the one with the least overlap is used.
+   */
+  private placeLabel(
     bbox: BoundingBox,
-    obj: DetectedObject,
+    text: string,
+    imageWidth: number,
+    imageHeight: number,
+    placed: BoundingBox[],
+    options: AnnotationOptions
+  ): PlacedLabel {
+    const fontSize = options.fontSize!;
+    const labelWidth = Math.min(imageWidth, this.estimateTextWidth(text, fontSize) + LABEL_PADDING * 2);
+    const labelHeight = Math.min(imageHeight, fontSize + LABEL_PADDING * 2);
+    const left = Math.min(Math.max(0, bbox.x), Math.max(0, imageWidth - labelWidth));
+
+    const candidateTops = [
+      bbox.y - labelHeight, // Above the box
+      bbox.y, // Inside the top edge
+      bbox.y + bbox.height, // Below the box
+      bbox.y + bbox.height - labelHeight, // Inside the bottom edge
+    ];
+    const candidates = candidateTops.map(top => ({
+      x: left,
+      y: Math.min(Math.max(0, top), Math.max(0, imageHeight - labelHeight)),
+      width: labelWidth,
+      height: labelHeight,
+      clamped: top < 0 || top + labelHeight > imageHeight,
+    }));
+
+    const overlap = (box: BoundingBox) => placed.reduce((sum, other) => sum + intersectionArea(toCorners(box), toCorners(other)), 0);
+    const best = candidates.find(box => !box.clamped && overlap(box) === 0)
+      ?? candidates.reduce((least, box) => (overlap(box) < overlap(least) ? box : least));
+
+    const box = { x: best.x, y: best.y, width: best.width, height: best.height };
+    return { text, x: box.x + LABEL_PADDING, y: box.y + LABEL_PADDING + fontSize * 0.8, box };
+  }
+
+  /**
+   * Legend panel in the top right corner: one swatch per object type with its count
+   */
+  private createLegend(
+    objects: DetectedObject[],
+    colors: Map<string, string>,
+    imageWidth: number,
     options: AnnotationOptions
   ): string {
-    const { x, y } = bbox;
-    const labelText = this.formatLabelText(obj, options);
-
-    // Position label above the bounding box
-    const labelY = Math.max(0, y - 25);
-    const labelX = x;
-
-    if (options.labelBackground) {
-      // Create background rectangle for better readability
-      const textWidth = this.estimateTextWidth(labelText, options.fontSize!);
-      const bgHeight = options.fontSize! + 8;
-      const bgX = Math.max(0, labelX - 4);
-      const bgY = labelY - options.fontSize! - 4;
-
-      return `
-    <rect class="label-bg" x="${bgX}" y="${bgY}" width="${textWidth + 8}" height="${bgHeight}" />
-    <text class="label-text" x="${labelX}" y="${labelY}" text-anchor="start">${labelText}</text>`;
+    if (colors.size === 0) {
+      return '';
     }
 
-    return `<text class="label-text" x="${labelX}" y="${labelY}" text-anchor="start">${labelText}</text>`;
+    const fontSize = options.fontSize!;
+    const rowHeight = fontSize + LABEL_PADDING * 2;
+    const entries = [...colors].map(([name, color]) => ({
+      name,
+      color,
+      text: `${truncate(name)} (${objects.filter(obj => obj.object === name).length})`,
+    }));
+    const panelWidth = Math.max(...entries.map(entry => this.estimateTextWidth(entry.text, fontSize))) + fontSize + LABEL_PADDING * 4;
+    const panelX = Math.max(0, imageWidth - panelWidth - LABEL_PADDING * 2);
+    const panelY = LABEL_PADDING * 2;
+
+    const rows = entries.map((entry, index) => {
+      const rowY = panelY + LABEL_PADDING + index * rowHeight;
+      return [
+        `<rect x="${panelX + LABEL_PADDING}" y="${rowY + LABEL_PADDING}" width="${fontSize}" height="${fontSize}" fill="${escapeXml(entry.color)}" />`,
+        `<text class="label-text" x="${panelX + fontSize + LABEL_PADDING * 3}" y="${rowY + LABEL_PADDING + fontSize * 0.85}" fill="#222">${escapeXml(entry.text)}</text>`,
+      ].join('');
+    });
+
+    return `<g class="legend">
+    <rect x="${panelX}" y="${panelY}" width="${panelWidth}" height="${entries.length * rowHeight + LABEL_PADDING * 2}" rx="4" fill="white" fill-opacity="0.9" stroke="#888" />
+    ${rows.join('\n    ')}
+  </g>`;
+  }
+
+  /**
+   * Self-contained HTML page: the image embedded as a data URL under the
+   * interactive SVG overlay, with a tooltip that follows the pointer
+   */
+  private createHTMLPage(
+    imageData: Buffer,
+    format: string,
+    width: number,
+    height: number,
+    objects: DetectedObject[],
+    options: AnnotationOptions,
+    title: string
+  ): string {
+    const mimeType = format === 'svg' ? 'image/svg+xml' : `image/${format === 'jpg' ? 'jpeg' : format}`;
+    const overlay = this.createSVGOverlay(width, height, objects, options, true).trim();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)} - ${objects.length} object(s)</title>
+<style>
+  body { margin: 0; padding: 16px; font-family: Arial, Helvetica, sans-serif; background: #f4f4f4; }
+  .stage { position: relative; display: inline-block; max-width: 100%; }
+  .stage img { display: block; max-width: 100%; height: auto; image-orientation: none; }
+  .stage svg { position: absolute; top: 0; left: 0; width: 100%; height: 100%; }
+  .object { cursor: pointer; }
+  .object:hover .bbox { stroke-width: ${options.lineWidth! * 2}; }
+  #tooltip { position: fixed; display: none; pointer-events: none; padding: 6px 8px; border-radius: 4px;
+    background: rgba(0, 0, 0, 0.8); color: white; font-size: 13px; white-space: pre; }
+</style>
+</head>
+<body>
+<div class="stage">
+<img src="data:${mimeType};base64,${imageData.toString('base64')}" width="${width}" height="${height}" alt="${escapeXml(title)}">
+${overlay}
+</div>
+<div id="tooltip"></div>
+<script>
+  const tooltip = document.getElementById('tooltip');
+  document.querySelectorAll('.object').forEach(group => {
+    const text = group.querySelector('title').textContent;
+    group.querySelector('title').remove();
+    group.addEventListener('mousemove', event => {
+      tooltip.textContent = text;
+      tooltip.style.display = 'block';
+      tooltip.style.left = event.clientX + 12 + 'px';
+      tooltip.style.top = event.clientY + 12 + 'px';
+    });
+    group.addEventListener('mouseleave', () => { tooltip.style.display = 'none'; });
+  });
+</script>
+</body>
+</html>
+`;
   }
 
   /**
@@ -157,21 +393,40 @@ export class ImageAnnotator {
       label += ` (${Math.round(obj.confidence * 100)}%)`;
     }
 
-    // Truncate if too long
-    const maxLength = 50;
-    if (label.length > maxLength) {
-      label = label.substring(0, maxLength - 3) + '...';
-    }
+    return truncate(label);
+  }
 
-    return label;
+  /**
+   * Tooltip of an object on interactive output
+   */
+  private formatTooltip(obj: DetectedObject): string {
+    const lines = [`${obj.object}: ${obj.label}`];
+    if (obj.confidence !== undefined) {
+      lines.push(`confidence ${Math.round(obj.confidence * 100)}%`);
+    }
+    lines.push(`box [${obj.normalized_box_2d.join(', ')}]`);
+    return lines.join('\n');
   }
 
   /**
-   * Estimate text width for background sizing
+   * Estimate text width for background sizing from per-character advance widths
    */
   private estimateTextWidth(text: string, fontSize: number): number {
-    // Rough estimation: average character width is 0.6 * font size
-    return Math.round(text.length * fontSize * 0.6);
+    let width = 0;
+    for (const char of text) {
+      if (NARROW_CHARS.test(char)) {
+        width += 0.38;
+      } else if (WIDE_CHARS.test(char)) {
+        width += 0.98;
+      } else if (UPPER_CHARS.test(char)) {
+        width += 0.72;
+      } else if (char === ' ') {
+        width += 0.32;
+      } else {
+        width += 0.62;
+      }
+    }
+    return Math.ceil(width * fontSize);
   }
 
   /**
@@ -180,10 +435,10 @@ export class ImageAnnotator {
   private normalizeToPixel(normalizedBox: [number, number, number, number], width: number, height: number): BoundingBox {
     const [ymin, xmin, ymax, xmax] = normalizedBox;
     return {
-      x: Math.round((xmin / 1000) * width),
-      y: Math.round((ymin / 1000) * height),
-      width: Math.round(((xmax - xmin) / 1000) * width),
-      height: Math.round(((ymax - ymin) / 1000) * height),
+      x: Math.round((xmin / NORMALIZED_SCALE) * width),
+      y: Math.round((ymin / NORMALIZED_SCALE) * height),
+      width: Math.round(((xmax - xmin) / NORMALIZED_SCALE) * width),
+      height: Math.round(((ymax - ymin) / NORMALIZED_SCALE) * height),
     };
   }
 
@@ -271,4 +526,13 @@ export class ImageAnnotator {
     // Add context if provided
     return context ? `${context} ${fullSelector}` : fullSelector;
   }
-}
\ No newline at end of file
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL_LENGTH ? `${text.substring(0, MAX_LABEL_LENGTH - 3)}...` : text;
+}
+
+// A pixel box as [ymin, xmin, ymax, xmax] corners
+function toCorners(box: BoundingBox): [number, number, number, number] {
+  return [box.y, box.x, box.y + box.height, box.x + box.width];
+}
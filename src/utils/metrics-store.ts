@@ -0,0 +1,115 @@
+/**
+ * Metrics Persistence
+ *
+ * Every CLI invocation is a separate process, so metrics collected in memory
+ * are merged into a local store on exit and read back by `ai-vision metrics`.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import { expandUser } from './path-utils.js';
+import { MetricsCollector, type MetricsSnapshot } from './metrics.js';
+
+export const DEFAULT_METRICS_FILE = '~/.ai-vision/metrics.json';
+
+export class MetricsStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string = DEFAULT_METRICS_FILE, private readonly retentionPeriod?: number) {
+    this.filePath = expandUser(filePath);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Read the persisted snapshot; a missing or unreadable store yields null
+   */
+  read(): MetricsSnapshot | null {
+    if (!existsSync(this.filePath)) {
+      return null;
+    }
+
+    try {
+      const snapshot = JSON.parse(readFileSync(this.filePath, 'utf8')) as MetricsSnapshot;
+      return snapshot.version === 1 ? snapshot : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build a collector holding all persisted metrics
+   */
+  load(): MetricsCollector {
+    const collector = this.createCollector();
+    const snapshot = this.read();
+    if (snapshot) {
+      collector.mergeSnapshot(snapshot);
+    }
+    return collector;
+  }
+
+  /**
+   * Merge a collector's metrics into the store. Synchronous so it can run from
+   * a process 'exit' handler; re-reading right before writing keeps metrics
+   * from concurrent invocations.
+   */
+  persist(collector: MetricsCollector): void {
+    const merged = this.load();
+    merged.mergeSnapshot(collector.getSnapshot());
+    writeFileAtomic(this.filePath, JSON.stringify(merged.getSnapshot()));
+    merged.destroy();
+  }
+
+  reset(): void {
+    if (existsSync(this.filePath)) {
+      unlinkSync(this.filePath);
+    }
+  }
+
+  private createCollector(): MetricsCollector {
+    return new MetricsCollector({
+      flushInterval: 0,
+      ...(this.retentionPeriod !== undefined ? { retentionPeriod: this.retentionPeriod } : {}),
+    });
+  }
+}
+
+/**
+ * Write through a temporary file and rename, so readers such as the
+ * node_exporter textfile collector never see a partial file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, content);
+  renameSync(tempPath, filePath);
+}
+
+let persistenceEnabled = false;
+
+/**
+ * Persist the collector's metrics when the process exits. Safe to call repeatedly.
+ */
+export function enableMetricsPersistence(collector: MetricsCollector, store: MetricsStore = new MetricsStore()): void {
+  if (persistenceEnabled) {
+    return;
+  }
+  persistenceEnabled = true;
+
+  process.once('exit', () => {
+    if (collector.getTrackedProviders().length === 0) {
+      return;
+    }
+    try {
+      store.persist(collector);
+    } catch (error) {
+      // Losing metrics must never change the outcome of a command
+      if (process.env.LOG_LEVEL === 'debug') {
+        console.error('Failed to persist metrics:', error);
+      }
+    }
+  });
+}
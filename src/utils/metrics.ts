@@ -128,6 +128,32 @@ export interface ProviderMetrics {
   lastError?: string;
 }
 
+/**
+ * Serializable collector state used to persist metrics between CLI invocations
+ */
+export interface MetricsSnapshot {
+  /** Snapshot format version */
+  version: 1;
+  /** When collection started */
+  startTime: string;
+  /** When the snapshot was last written */
+  updatedAt: string;
+  counters: Record<string, number>;
+  gauges: Record<string, number>;
+  histograms: Record<string, {
+    buckets: Array<[number, number]>;
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+  }>;
+  /** Recent raw samples as [epoch ms, value] pairs, used for percentiles and rates */
+  samples: Record<string, Array<[number, number]>>;
+}
+
+// Raw samples kept per metric name in a snapshot
+const MAX_SNAPSHOT_SAMPLES = 1000;
+
 /**
  * Default metrics configuration
  */
@@ -481,6 +507,51 @@ export class MetricsCollector {
     this.histograms.delete(name);
   }
 
+  /**
+   * When collection started (the earliest merged snapshot for persisted metrics)
+   */
+  getStartTime(): Date {
+    return this.startTime;
+  }
+
+  /**
+   * Names of counters, optionally limited to a prefix
+   */
+  getCounterNames(prefix = ''): string[] {
+    return Array.from(this.counters.keys()).filter(name => name.startsWith(prefix)).sort();
+  }
+
+  /**
+   * Providers that have recorded requests
+   */
+  getTrackedProviders(): string[] {
+    const providers = new Set<string>();
+    for (const name of this.counters.keys()) {
+      const match = name.match(/^requests\.([^.]+)$/);
+      if (match) {
+        providers.add(match[1]);
+      }
+    }
+    return Array.from(providers).sort();
+  }
+
+  /**
+   * Operations that have recorded requests for a provider
+   */
+  getTrackedOperations(provider: string): string[] {
+    const operations = new Set<string>();
+    const prefix = `requests.${provider}.`;
+    for (const name of this.counters.keys()) {
+      if (name.startsWith(prefix)) {
+        const [operation, outcome] = name.slice(prefix.length).split('.');
+        if (outcome === undefined && operation !== 'success' && operation !== 'error') {
+          operations.add(operation);
+        }
+      }
+    }
+    return Array.from(operations).sort();
+  }
+
   /**
    * Export metrics to JSON
    */
@@ -488,15 +559,187 @@ export class MetricsCollector {
     const exportData = {
       timestamp: new Date().toISOString(),
       startTime: this.startTime.toISOString(),
-      metrics: Object.fromEntries(this.metrics),
+      providers: this.getTrackedProviders().map(provider => ({
+        ...this.getProviderMetrics(provider),
+        operations: Object.fromEntries(
+          this.getTrackedOperations(provider).map(operation => [
+            operation,
+            this.getPerformanceMetrics(provider, operation),
+          ])
+        ),
+      })),
       counters: Object.fromEntries(this.counters),
       gauges: Object.fromEntries(this.gauges),
-      histograms: Object.fromEntries(this.histograms),
+      histograms: Object.fromEntries(
+        Array.from(this.histograms, ([name, histogram]) => [
+          name,
+          { ...histogram, buckets: Object.fromEntries(histogram.buckets) },
+        ])
+      ),
     };
 
     return JSON.stringify(exportData, null, 2);
   }
 
+  /**
+   * Export metrics in the Prometheus text exposition format
+   */
+  exportPrometheus(prefix = 'ai_vision'): string {
+    const families = new Map<string, { help: string; type: string; lines: string[] }>();
+    const add = (name: string, help: string, type: string, line: string) => {
+      const family = families.get(name) ?? { help, type, lines: [] };
+      family.lines.push(line);
+      families.set(name, family);
+    };
+
+    for (const [name, value] of this.counters) {
+      const parts = name.split('.');
+
+      if (parts[0] === 'requests' && parts.length === 4) {
+        add(`${prefix}_requests_total`, 'Provider requests by outcome', 'counter',
+          `${prefix}_requests_total${formatLabels({ provider: parts[1], operation: parts[2], outcome: parts[3] })} ${value}`);
+      } else if (parts[0] === 'status_code' && parts.length === 3) {
+        add(`${prefix}_responses_total`, 'Provider responses by status code', 'counter',
+          `${prefix}_responses_total${formatLabels({ provider: parts[1], code: parts[2] })} ${value}`);
+      } else if (parts[0] === 'errors' && parts.length === 3) {
+        add(`${prefix}_errors_total`, 'Provider errors by error code', 'counter',
+          `${prefix}_errors_total${formatLabels({ provider: parts[1], code: parts[2] })} ${value}`);
+      } else if (parts[0] === 'tokens' && parts[2] === 'total') {
+        add(`${prefix}_tokens_total`, 'Tokens consumed by provider requests', 'counter',
+          `${prefix}_tokens_total${formatLabels({ provider: parts[1] })} ${value}`);
+      } else if (parts[0] === 'rate_limit' && parts.length === 2) {
+        add(`${prefix}_rate_limit_hits_total`, 'Requests rejected by rate limits', 'counter',
+          `${prefix}_rate_limit_hits_total${formatLabels({ provider: parts[1] })} ${value}`);
+      } else if (parts[0] === 'retries' && parts.length === 2) {
+        add(`${prefix}_retries_total`, 'Retried provider requests', 'counter',
+          `${prefix}_retries_total${formatLabels({ provider: parts[1] })} ${value}`);
+      }
+    }
+
+    for (const [name, histogram] of this.histograms) {
+      const parts = name.split('.');
+      if (parts[0] !== 'response_time' || parts.length !== 3) {
+        continue;
+      }
+
+      const family = `${prefix}_request_duration_milliseconds`;
+      const labels = { provider: parts[1], operation: parts[2] };
+      for (const [bound, count] of Array.from(histogram.buckets).sort((a, b) => a[0] - b[0])) {
+        add(family, 'Provider request latency', 'histogram',
+          `${family}_bucket${formatLabels({ ...labels, le: String(bound) })} ${count}`);
+      }
+      add(family, 'Provider request latency', 'histogram',
+        `${family}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${histogram.count}`);
+      add(family, 'Provider request latency', 'histogram', `${family}_sum${formatLabels(labels)} ${histogram.sum}`);
+      add(family, 'Provider request latency', 'histogram', `${family}_count${formatLabels(labels)} ${histogram.count}`);
+    }
+
+    add(`${prefix}_metrics_start_time_seconds`, 'Time metrics collection started', 'gauge',
+      `${prefix}_metrics_start_time_seconds ${Math.floor(this.startTime.getTime() / 1000)}`);
+
+    const lines: string[] = [];
+    for (const [name, family] of families) {
+      lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`, ...family.lines);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Capture the collector state in a serializable form
+   */
+  getSnapshot(): MetricsSnapshot {
+    const cutoffTime = Date.now() - this.config.retentionPeriod;
+    const samples: MetricsSnapshot['samples'] = {};
+
+    for (const [name, metricList] of this.metrics) {
+      const recent = metricList
+        .filter(m => m.timestamp.getTime() > cutoffTime)
+        .slice(-MAX_SNAPSHOT_SAMPLES)
+        .map(m => [m.timestamp.getTime(), m.value] as [number, number]);
+      if (recent.length > 0) {
+        samples[name] = recent;
+      }
+    }
+
+    return {
+      version: 1,
+      startTime: this.startTime.toISOString(),
+      updatedAt: new Date().toISOString(),
+      counters: Object.fromEntries(this.counters),
+      gauges: Object.fromEntries(this.gauges),
+      histograms: Object.fromEntries(
+        Array.from(this.histograms, ([name, histogram]) => [
+          name,
+          {
+            buckets: Array.from(histogram.buckets),
+            count: histogram.count,
+            sum: histogram.sum,
+            min: histogram.min,
+            max: histogram.max,
+          },
+        ])
+      ),
+      samples,
+    };
+  }
+
+  /**
+   * Merge a snapshot into this collector: counters and histograms are added,
+   * gauges are overwritten and samples are appended
+   */
+  mergeSnapshot(snapshot: MetricsSnapshot): void {
+    const snapshotStart = new Date(snapshot.startTime);
+    if (!isNaN(snapshotStart.getTime()) && snapshotStart < this.startTime) {
+      this.startTime = snapshotStart;
+    }
+
+    for (const [name, value] of Object.entries(snapshot.counters)) {
+      this.counters.set(name, (this.counters.get(name) || 0) + value);
+    }
+
+    for (const [name, value] of Object.entries(snapshot.gauges)) {
+      this.gauges.set(name, value);
+    }
+
+    for (const [name, data] of Object.entries(snapshot.histograms)) {
+      const existing = this.histograms.get(name);
+      if (!existing) {
+        this.histograms.set(name, {
+          type: 'histogram',
+          value: data.max,
+          timestamp: new Date(snapshot.updatedAt),
+          buckets: new Map(data.buckets),
+          count: data.count,
+          sum: data.sum,
+          min: data.min,
+          max: data.max,
+        });
+        continue;
+      }
+
+      for (const [bound, count] of data.buckets) {
+        existing.buckets.set(bound, (existing.buckets.get(bound) || 0) + count);
+      }
+      existing.count += data.count;
+      existing.sum += data.sum;
+      existing.min = Math.min(existing.min, data.min);
+      existing.max = Math.max(existing.max, data.max);
+    }
+
+    for (const [name, entries] of Object.entries(snapshot.samples)) {
+      const restored: TimerMetric[] = entries.map(([timestamp, value]) => ({
+        type: 'timer',
+        value,
+        duration: value,
+        timestamp: new Date(timestamp),
+      }));
+      const merged = [...restored, ...(this.metrics.get(name) || [])]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .slice(-this.config.maxMetrics);
+      this.metrics.set(name, merged);
+    }
+  }
+
   /**
    * Cleanup old metrics
    */
@@ -571,6 +814,8 @@ export class MetricsCollector {
         }
         this.cleanup();
       }, this.config.flushInterval);
+      // Housekeeping must not keep a short-lived CLI process alive
+      this.flushTimer.unref();
     }
   }
 
@@ -589,6 +834,20 @@ export class MetricsCollector {
   }
 }
 
+/**
+ * Format Prometheus labels, escaping values as the exposition format requires
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${formatted.join(',')}}`;
+}
+
 /**
  * Global metrics collector instance
  */
@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import type { ComparisonResult } from '../types/index.js';
 
 // Simple table class for basic table output
 class SimpleTable {
@@ -97,6 +98,50 @@ export class OutputFormatter {
     }
   }
 
+  /**
+   * Output a structured comparison: the score, then similarities and
+   * differences as numbered tables (table) or lists (text), then the analysis
+   */
+  public comparison(result: ComparisonResult, title?: string): void {
+    if (this.options.format === 'json' || this.options.raw) {
+      this.output(result, title);
+      return;
+    }
+
+    if (title) {
+      console.log(chalk.bold(title));
+    }
+
+    const score = `${Math.round(result.overallScore * 100)}%`;
+    console.log(`Overall similarity: ${this.colors ? chalk.yellow(score) : score}`);
+
+    const sections: Array<[string, string, string[]]> = [
+      ['Similarities', 'Similarity', result.similarities],
+      ['Differences', 'Difference', result.differences],
+    ];
+    for (const [heading, column, items] of sections) {
+      console.log('');
+      console.log(chalk.bold(`${heading}:`));
+      if (items.length === 0) {
+        console.log('  none');
+      } else if (this.options.format === 'table') {
+        const table = new SimpleTable({ head: ['#', column] });
+        items.forEach((item, index) => table.push([String(index + 1), item]));
+        console.log(table.toString());
+      } else {
+        console.log(items.map(item => `  - ${item}`).join('\n'));
+      }
+    }
+
+    console.log('');
+    console.log(chalk.bold('Analysis:'));
+    console.log(result.detailedAnalysis);
+
+    if (title) {
+      console.log(''); // Add blank line after title
+    }
+  }
+
   /**
    * Format data as JSON
    */
@@ -383,4 +428,17 @@ export function convertToCSV(data: unknown): string {
   }
 
   return '';
-}
\ No newline at end of file
+}
+
+/**
+ * Human-readable byte size, e.g. "1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,92 @@
+/**
+ * Cost estimation from token usage
+ *
+ * Prices are per million tokens. Image tokens are part of the prompt count and
+ * are billed at the model's image price, which defaults to its input price.
+ * Prompt tokens read from provider-side cached content are billed at the cached
+ * price, a quarter of the input price unless set; cache storage is not included.
+ */
+
+import type { CostEstimate, ModelPricing, PricingConfig, UsageMetadata } from '../types/index.js';
+
+// Standard paid-tier list prices in USD for prompts up to 200k tokens
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10.0 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.0 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+export const DEFAULT_PRICING: PricingConfig = {
+  currency: 'USD',
+  models: DEFAULT_MODEL_PRICING,
+};
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+/**
+ * Find the pricing entry for a model: an exact match, otherwise the longest
+ * entry the model name starts with (so dated and preview variants are priced
+ * like their base model)
+ */
+export function findModelPricing(
+  model: string,
+  pricing: PricingConfig = DEFAULT_PRICING
+): { name: string; pricing: ModelPricing } | undefined {
+  // "models/gemini-2.5-pro" and "publishers/google/models/gemini-2.5-pro" name the same model
+  const name = model.slice(model.lastIndexOf('/') + 1);
+
+  if (pricing.models[name]) {
+    return { name, pricing: pricing.models[name] };
+  }
+
+  const prefix = Object.keys(pricing.models)
+    .filter(key => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? { name: prefix, pricing: pricing.models[prefix] } : undefined;
+}
+
+/**
+ * Estimate the cost of a request, or undefined when the model has no price
+ */
+export function estimateCost(
+  usage: UsageMetadata,
+  model: string,
+  pricing: PricingConfig = DEFAULT_PRICING
+): CostEstimate | undefined {
+  const match = findModelPricing(model, pricing);
+  if (!match) {
+    return undefined;
+  }
+
+  // Cached content holds the image, so cached tokens are taken from the image tokens first
+  const cachedTokens = Math.min(usage.cachedTokenCount ?? 0, usage.promptTokenCount);
+  const imageTokens = Math.max(Math.min(usage.imageTokenCount ?? 0, usage.promptTokenCount) - cachedTokens, 0);
+  const cachedPrice = match.pricing.cached ?? match.pricing.input / 4;
+  const input =
+    ((usage.promptTokenCount - cachedTokens - imageTokens) * match.pricing.input + cachedTokens * cachedPrice) /
+    TOKENS_PER_UNIT;
+  const image = (imageTokens * (match.pricing.image ?? match.pricing.input)) / TOKENS_PER_UNIT;
+  const output = (usage.candidatesTokenCount * match.pricing.output) / TOKENS_PER_UNIT;
+
+  return {
+    currency: pricing.currency,
+    input,
+    output,
+    image,
+    total: input + output + image,
+    pricedModel: match.name,
+  };
+}
+
+/**
+ * Format an amount for display, keeping enough digits for sub-cent requests
+ */
+export function formatCost(amount: number, currency = 'USD'): string {
+  const symbol = currency === 'USD' ? '$' : `${currency} `;
+  return `${symbol}${amount.toFixed(amount > 0 && amount < 0.01 ? 6 : 4)}`;
+}
@@ -112,6 +112,16 @@ export class ProgressManager {
     }
   }
 
+  /**
+   * Stop the global spinner so streamed output can take over the terminal
+   */
+  public handOverGlobal(): void {
+    if (this.globalSpinner) {
+      this.globalSpinner.stop();
+      this.globalSpinner = null;
+    }
+  }
+
   /**
    * Stop all spinners
    */
@@ -269,7 +279,8 @@ export async function withBatchProgress<T>(
   items: T[],
   operation: string,
   batchOperation: (item: T, index: number) => Promise<void>,
-  showProgress = true
+  showProgress = true,
+  concurrency = 1
 ): Promise<void> {
   const progressManager = getProgressManager(showProgress);
 
@@ -278,15 +289,30 @@ export async function withBatchProgress<T>(
   }
 
   try {
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-
-      if (showProgress && items.length > 1) {
-        progressManager.showBatchProgress(i + 1, items.length, operation);
+    let nextIndex = 0;
+    let completed = 0;
+    let failed = false;
+
+    // Each worker pulls the next pending item until the queue is drained or an item fails
+    const worker = async (): Promise<void> => {
+      while (!failed && nextIndex < items.length) {
+        const index = nextIndex++;
+        try {
+          await batchOperation(items[index], index);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+        completed++;
+
+        if (showProgress && items.length > 1) {
+          progressManager.showBatchProgress(completed, items.length, operation);
+        }
       }
+    };
 
-      await batchOperation(item, i);
-    }
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
 
     if (showProgress) {
       progressManager.succeedGlobal(`Completed ${operation} (${items.length} items)`);
@@ -297,4 +323,4 @@ export async function withBatchProgress<T>(
     }
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -243,6 +243,13 @@ export class TokenBucketRateLimiter {
     };
   }
 
+  /**
+   * Carry over requests already made today, e.g. by earlier invocations
+   */
+  restoreQuotaUsage(usedToday: number): void {
+    this.quotaUsedToday = Math.max(this.quotaUsedToday, usedToday);
+  }
+
   /**
    * Reset the rate limiter (for testing or manual reset)
    */
@@ -363,6 +370,13 @@ export class MultiProviderRateLimiter {
     }
   }
 
+  /**
+   * Carry over today's request count for a specific provider
+   */
+  restoreQuotaUsage(providerName: string, usedToday: number): void {
+    this.limiters.get(providerName)?.restoreQuotaUsage(usedToday);
+  }
+
   /**
    * Get status for all providers
    */
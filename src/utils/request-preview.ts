@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+import type { ImagePreview, RequestPreview } from '../types/index.js';
+import { formatCost } from './pricing.js';
+
+/**
+ * Print a --dry-run preview: JSON for `-o json`, a readable summary otherwise
+ */
+export function printRequestPreview(preview: RequestPreview, format: string = 'json'): void {
+  console.log(format === 'json' ? JSON.stringify(preview, null, 2) : formatRequestPreview(preview));
+}
+
+/**
+ * Readable summary of a request preview; structured parts are shown as JSON
+ */
+export function formatRequestPreview(preview: RequestPreview): string {
+  const json = (value: unknown) => indent(JSON.stringify(value, null, 2));
+  const lines = [
+    chalk.bold('Dry run: request preview (nothing was generated)'),
+    '',
+    `${chalk.cyan('Provider:')} ${preview.provider}`,
+    `${chalk.cyan('Model:')} ${preview.model}`,
+    `${chalk.cyan('Function:')} ${preview.functionName}`,
+    '',
+    chalk.cyan('Images:'),
+    ...preview.images.map((image, index) => `  ${index + 1}. ${image.source} ${chalk.gray(describeImage(image))}`),
+    '',
+    chalk.cyan('Generation config:'),
+    json(preview.generationConfig),
+  ];
+
+  if (preview.safetySettings?.length) {
+    lines.push('', chalk.cyan('Safety settings:'));
+    lines.push(...preview.safetySettings.map(setting => `  ${setting.category}: ${setting.threshold}`));
+  }
+
+  if (preview.systemInstruction) {
+    lines.push('', chalk.cyan('System instruction:'), indent(preview.systemInstruction.trim()));
+  }
+
+  if (preview.responseSchema) {
+    lines.push('', chalk.cyan('Response schema:'), json(preview.responseSchema));
+  }
+
+  lines.push('', chalk.cyan('Contents:'), json(preview.contents), '');
+
+  if (preview.promptTokenCount !== undefined) {
+    const cost = preview.cost
+      ? ` (~${formatCost(preview.cost.total, preview.cost.currency)} input, ${preview.cost.pricedModel} pricing)`
+      : '';
+    lines.push(`${chalk.cyan('Prompt tokens:')} ${preview.promptTokenCount}${cost}`);
+  } else {
+    lines.push(`${chalk.cyan('Prompt tokens:')} ${chalk.yellow(`unavailable (${preview.tokenCountError ?? 'not counted'})`)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function describeImage(image: ImagePreview): string {
+  const details = [image.mimeType];
+  if (image.size !== undefined) {
+    details.push(`${image.size} bytes`);
+  }
+
+  if (image.method === 'inline_data') {
+    details.push('sent inline');
+  } else if (image.size === undefined) {
+    details.push('referenced by URI');
+  } else {
+    details.push('uploaded to the Files API');
+  }
+
+  if (image.threshold !== undefined) {
+    details.push(`upload threshold ${image.threshold} bytes`);
+  }
+
+  if (image.preprocessing) {
+    details.push(...image.preprocessing.transforms);
+  }
+  return `(${details.join(', ')})`;
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `  ${line}`).join('\n');
+}
@@ -0,0 +1,249 @@
+/**
+ * Response Cache
+ *
+ * Stores analysis results on disk, keyed by a hash of the image bytes and
+ * everything that shapes the response, so repeated requests over the same
+ * images are answered locally instead of being paid for again.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync, rmSync, statSync } from 'fs';
+import path from 'path';
+import { expandUser } from './path-utils.js';
+import { writeFileAtomic } from './metrics-store.js';
+import type {
+  AnalysisResult,
+  CacheConfig,
+  CacheMode,
+  FunctionName,
+  PreprocessingConfig,
+  SafetySetting,
+} from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+
+export const DEFAULT_CACHE_DIR = '~/.ai-vision/cache';
+
+/**
+ * Everything that determines a response; two requests with equal inputs share an entry
+ */
+export interface CacheKeyInput {
+  provider: string;
+  model: string;
+  functionName: FunctionName;
+  images: string[]; // SHA-256 of each image, in request order
+  prompt: string;
+  systemInstruction?: string;
+  responseSchema?: unknown;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxTokens?: number;
+  stopSequences?: string[];
+  safetySettings?: SafetySetting[];
+  preprocessing?: PreprocessingConfig; // Transforms change what the model sees
+}
+
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  size: number; // bytes
+  expired: number;
+  oldest?: string;
+  newest?: string;
+  hits: number;
+  misses: number;
+  savedCost: number; // Estimated cost of the requests answered from the cache
+  currency: string;
+}
+
+interface CacheEntry {
+  version: 1;
+  key: string;
+  createdAt: string;
+  result: AnalysisResult;
+}
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+  savedCost: number;
+  currency: string;
+}
+
+interface EntryFile {
+  path: string;
+  size: number;
+  modified: number;
+}
+
+export class ResponseCache {
+  private readonly directory: string;
+
+  constructor(
+    private readonly config: Pick<CacheConfig, 'ttl' | 'max_size'>,
+    directory: string = DEFAULT_CACHE_DIR
+  ) {
+    this.directory = expandUser(directory);
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Stable hash of the key inputs; object keys are sorted so their order does not matter
+   */
+  static computeKey(input: CacheKeyInput): string {
+    return createHash('sha256').update(stableStringify({ version: 1, ...input })).digest('hex');
+  }
+
+  /**
+   * Look up a fresh entry; expired and unreadable entries are removed
+   */
+  get(key: string, now: number = Date.now()): AnalysisResult | undefined {
+    const filePath = this.getEntryPath(key);
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const entry = JSON.parse(readFileSync(filePath, 'utf8')) as CacheEntry;
+      if (entry.version === 1 && entry.key === key && !this.isExpired(Date.parse(entry.createdAt), now)) {
+        return entry.result;
+      }
+    } catch {
+      // Fall through and drop the corrupt entry
+    }
+
+    rmSync(filePath, { force: true });
+    return undefined;
+  }
+
+  /**
+   * Store a result, then evict expired and oldest entries until the cache fits in max_size
+   */
+  set(key: string, result: AnalysisResult, now: number = Date.now()): void {
+    const entry: CacheEntry = { version: 1, key, createdAt: new Date(now).toISOString(), result };
+    writeFileAtomic(this.getEntryPath(key), JSON.stringify(entry));
+    this.prune(now);
+  }
+
+  /**
+   * Count a lookup; hits add the original request's estimated cost to the savings
+   */
+  recordLookup(hit: AnalysisResult | undefined): void {
+    const counters = this.readCounters();
+    if (hit) {
+      counters.hits++;
+      counters.savedCost += hit.metadata.cost?.total ?? 0;
+      counters.currency = hit.metadata.cost?.currency ?? counters.currency;
+    } else {
+      counters.misses++;
+    }
+    writeFileAtomic(this.getCountersPath(), JSON.stringify(counters));
+  }
+
+  getStats(now: number = Date.now()): CacheStats {
+    const files = this.listEntries();
+    const counters = this.readCounters();
+    const times = files.map(file => file.modified).sort((a, b) => a - b);
+
+    return {
+      directory: this.directory,
+      entries: files.length,
+      size: files.reduce((sum, file) => sum + file.size, 0),
+      expired: files.filter(file => this.isExpired(file.modified, now)).length,
+      oldest: times.length > 0 ? new Date(times[0]).toISOString() : undefined,
+      newest: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : undefined,
+      ...counters,
+    };
+  }
+
+  /**
+   * Delete every entry and reset the counters; returns the number of entries removed
+   */
+  clear(): number {
+    const count = this.listEntries().length;
+    rmSync(this.directory, { recursive: true, force: true });
+    return count;
+  }
+
+  private prune(now: number): void {
+    let files = this.listEntries();
+    for (const file of files.filter(candidate => this.isExpired(candidate.modified, now))) {
+      rmSync(file.path, { force: true });
+    }
+
+    files = files.filter(file => !this.isExpired(file.modified, now)).sort((a, b) => a.modified - b.modified);
+    let size = files.reduce((sum, file) => sum + file.size, 0);
+    while (size > this.config.max_size && files.length > 0) {
+      const oldest = files.shift()!;
+      rmSync(oldest.path, { force: true });
+      size -= oldest.size;
+    }
+  }
+
+  private isExpired(createdAt: number, now: number): boolean {
+    return this.config.ttl > 0 && now - createdAt > this.config.ttl;
+  }
+
+  private listEntries(): EntryFile[] {
+    const entriesDir = path.join(this.directory, 'responses');
+    if (!existsSync(entriesDir)) {
+      return [];
+    }
+
+    return readdirSync(entriesDir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        const filePath = path.join(entriesDir, name);
+        const stats = statSync(filePath);
+        return { path: filePath, size: stats.size, modified: stats.mtimeMs };
+      });
+  }
+
+  private readCounters(): CacheCounters {
+    const counters: CacheCounters = { hits: 0, misses: 0, savedCost: 0, currency: 'USD' };
+    try {
+      return { ...counters, ...JSON.parse(readFileSync(this.getCountersPath(), 'utf8')) };
+    } catch {
+      return counters;
+    }
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, 'responses', `${key}.json`);
+  }
+
+  private getCountersPath(): string {
+    return path.join(this.directory, 'stats.json');
+  }
+}
+
+/**
+ * Cache mode for the --no-cache, --refresh and --offline flags
+ */
+export function cacheModeFromFlags(options: { cache?: boolean; refresh?: boolean; offline?: boolean }): CacheMode {
+  const noCache = options.cache === false;
+  if ([noCache, options.refresh, options.offline].filter(Boolean).length > 1) {
+    throw new ValidationError('Use only one of --no-cache, --refresh and --offline', 'cache');
+  }
+
+  if (noCache) {
+    return 'off';
+  }
+  return options.refresh ? 'refresh' : options.offline ? 'offline' : 'use';
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -181,6 +181,13 @@ export class RetryHandler {
       return true;
     }
 
+    // Errors carrying a code (e.g. VisionError) are classified by that code
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === 'string') {
+      return this.config.retryableErrors.includes(code) ||
+        (this.config.retryOnNetworkErrors && this.isNetworkError(error));
+    }
+
     // Check for retryable error messages
     const message = error.message.toLowerCase();
     const retryablePatterns = [
@@ -0,0 +1,74 @@
+import chalk from 'chalk';
+import type { AnalysisResult, AnalysisStream } from '../types/index.js';
+import type { ProgressManager } from './progress.js';
+import { formatCost } from './pricing.js';
+
+/**
+ * Writes a streamed analysis to the terminal as it is generated.
+ *
+ * The progress spinner is stopped when the first chunk arrives. On a TTY the
+ * text is framed by a title and a summary line; otherwise only the raw text is
+ * written so the output can be piped.
+ */
+export class StreamRenderer {
+  private started = false;
+  private endsWithNewline = true;
+
+  constructor(
+    private readonly progress: ProgressManager | null,
+    private readonly title?: string,
+    private readonly output: NodeJS.WriteStream = process.stdout
+  ) {}
+
+  get interactive(): boolean {
+    return Boolean(this.output.isTTY);
+  }
+
+  /**
+   * Render every chunk of the stream and return its assembled result
+   */
+  async render(stream: AnalysisStream): Promise<AnalysisResult> {
+    let next = await stream.next();
+    while (!next.done) {
+      this.write(next.value);
+      next = await stream.next();
+    }
+
+    this.end(next.value);
+    return next.value;
+  }
+
+  write(chunk: string): void {
+    if (!this.started) {
+      this.started = true;
+      this.progress?.handOverGlobal();
+      if (this.interactive && this.title) {
+        this.output.write(`${chalk.bold(this.title)}\n\n`);
+      }
+    }
+
+    this.output.write(chunk);
+    this.endsWithNewline = chunk.endsWith('\n');
+  }
+
+  end(result: AnalysisResult): void {
+    this.progress?.handOverGlobal();
+    if (!this.endsWithNewline) {
+      this.output.write('\n');
+    }
+
+    if (this.interactive) {
+      const details = [result.metadata.model];
+      if (result.metadata.usage) {
+        details.push(`${result.metadata.usage.totalTokenCount} tokens`);
+      }
+      if (result.metadata.cost) {
+        details.push(`~${formatCost(result.metadata.cost.total, result.metadata.cost.currency)}`);
+      }
+      if (result.metadata.processingTime !== undefined) {
+        details.push(`${(result.metadata.processingTime / 1000).toFixed(1)}s`);
+      }
+      this.output.write(`\n${chalk.gray(details.join(' · '))}\n`);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Tiled Object Detection
+ *
+ * Splits high-resolution images into overlapping tiles so small objects are
+ * not lost when the model downsamples the whole frame. Boxes detected on each
+ * tile are mapped back onto the full image, and duplicates found on both
+ * sides of a tile seam are merged with non-maximum suppression.
+ */
+
+import sharp from 'sharp';
+import type { DetectedObject } from '../types/ObjectDetection.js';
+import { ValidationError } from '../types/index.js';
+import { NORMALIZED_SCALE, intersectionArea, round } from './box-geometry.js';
+
+export interface TilingOptions {
+  tileSize: number; // pixels per side
+  overlap: number; // pixels shared by neighbouring tiles
+  concurrency?: number; // tiles detected at the same time
+  iouThreshold?: number; // boxes of one category overlapping at least this much are merged
+}
+
+export interface ImageTile {
+  index: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface SplitImage {
+  width: number; // after the EXIF orientation is applied
+  height: number;
+  orientation?: number; // EXIF orientation (2-8) applied before splitting
+  tiles: Array<ImageTile & { source: string }>; // source is a PNG data URL
+}
+
+export const DEFAULT_TILE_OVERLAP = 128;
+export const DEFAULT_TILE_CONCURRENCY = 4;
+export const DEFAULT_IOU_THRESHOLD = 0.5;
+
+// Smallest tile worth a request; the model downsamples below this anyway
+const MIN_TILE_SIZE = 256;
+// A box this close to an inner tile edge (normalized 0-1000) may be cut off by it
+const SEAM_MARGIN = 10;
+// Share of a cut-off box that has to lie inside a kept box for it to be dropped as a fragment
+const FRAGMENT_CONTAINMENT = 0.8;
+
+/**
+ * Check tile size and overlap from the command line
+ */
+export function validateTilingOptions(options: TilingOptions): void {
+  if (!Number.isInteger(options.tileSize) || options.tileSize < MIN_TILE_SIZE) {
+    throw new ValidationError(`--tile must be an integer of at least ${MIN_TILE_SIZE} pixels`, 'tile');
+  }
+  if (!Number.isInteger(options.overlap) || options.overlap < 0 || options.overlap >= options.tileSize / 2) {
+    throw new ValidationError('--overlap must be a non-negative integer below half the tile size', 'overlap');
+  }
+}
+
+/**
+ * Lay out tiles of at most tileSize pixels covering the image. Neighbours share
+ * at least overlap pixels; the last tile in each row and column is aligned with
+ * the image edge, so tiles are never padded.
+ */
+export function planTiles(width: number, height: number, tileSize: number, overlap: number): ImageTile[] {
+  const columns = axisOffsets(width, tileSize, overlap);
+  const rows = axisOffsets(height, tileSize, overlap);
+
+  const tiles: ImageTile[] = [];
+  for (const top of rows) {
+    for (const left of columns) {
+      tiles.push({
+        index: tiles.length,
+        left,
+        top,
+        width: Math.min(tileSize, width - left),
+        height: Math.min(tileSize, height - top),
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Apply the EXIF orientation (when autoOrient is set) and cut the image into tiles
+ */
+export async function splitImage(buffer: Buffer, options: TilingOptions, autoOrient = true): Promise<SplitImage> {
+  const metadata = await sharp(buffer).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new ValidationError('Cannot read the image dimensions needed for tiling', 'image');
+  }
+
+  const orientation = autoOrient && metadata.orientation && metadata.orientation > 1 ? metadata.orientation : undefined;
+  // Decode and orient once; every tile is cut from the same pixels
+  const { data, info } = await (orientation ? sharp(buffer).rotate() : sharp(buffer))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const raw = { width: info.width, height: info.height, channels: info.channels };
+
+  const tiles = await Promise.all(
+    planTiles(info.width, info.height, options.tileSize, options.overlap).map(async tile => {
+      const png = await sharp(data, { raw })
+        .extract({ left: tile.left, top: tile.top, width: tile.width, height: tile.height })
+        .png()
+        .toBuffer();
+      return { ...tile, source: `data:image/png;base64,${png.toString('base64')}` };
+    })
+  );
+
+  return { width: info.width, height: info.height, orientation, tiles };
+}
+
+/**
+ * Map a normalized [ymin, xmin, ymax, xmax] box on a tile onto the full image
+ */
+export function mapBoxFromTile(
+  box: [number, number, number, number],
+  tile: ImageTile,
+  imageWidth: number,
+  imageHeight: number
+): [number, number, number, number] {
+  const [ymin, xmin, ymax, xmax] = box;
+  const toImageY = (value: number) => ((tile.top + (value / NORMALIZED_SCALE) * tile.height) / imageHeight) * NORMALIZED_SCALE;
+  const toImageX = (value: number) => ((tile.left + (value / NORMALIZED_SCALE) * tile.width) / imageWidth) * NORMALIZED_SCALE;
+  return [round(toImageY(ymin), 1), round(toImageX(xmin), 1), round(toImageY(ymax), 1), round(toImageX(xmax), 1)];
+}
+
+/**
+ * Combine the detections of every tile into detections on the full image
+ */
+export function mergeTileDetections(
+  tileDetections: Array<{ tile: ImageTile; objects: DetectedObject[] }>,
+  imageWidth: number,
+  imageHeight: number,
+  iouThreshold = DEFAULT_IOU_THRESHOLD
+): DetectedObject[] {
+  const candidates = tileDetections.flatMap(({ tile, objects }) =>
+    objects.map(obj => ({
+      object: { ...obj, normalized_box_2d: mapBoxFromTile(obj.normalized_box_2d, tile, imageWidth, imageHeight) },
+      cut: touchesInnerEdge(obj.normalized_box_2d, tile, imageWidth, imageHeight),
+    }))
+  );
+
+  return nonMaxSuppression(candidates, iouThreshold);
+}
+
+/**
+ * Keep the best of each group of overlapping boxes of the same category.
+ * Boxes are ranked by confidence, then whole boxes before ones cut by a tile
+ * edge, then by area. A lower-ranked box is dropped when its IoU with a kept
+ * box reaches the threshold, or when it was cut by a tile edge and lies mostly
+ * inside a kept box (the part of an object seen by the neighbouring tile).
+ */
+export function nonMaxSuppression(
+  candidates: Array<{ object: DetectedObject; cut?: boolean }>,
+  iouThreshold = DEFAULT_IOU_THRESHOLD
+): DetectedObject[] {
+  const ranked = candidates
+    .map((candidate, order) => ({ ...candidate, order, area: boxArea(candidate.object.normalized_box_2d) }))
+    .sort((a, b) =>
+      (b.object.confidence ?? 0) - (a.object.confidence ?? 0) ||
+      Number(a.cut ?? false) - Number(b.cut ?? false) ||
+      b.area - a.area
+    );
+
+  const kept: typeof ranked = [];
+  for (const candidate of ranked) {
+    const category = candidate.object.object.toLowerCase();
+    const duplicate = kept.some(other => {
+      if (other.object.object.toLowerCase() !== category) {
+        return false;
+      }
+      const overlap = intersectionArea(candidate.object.normalized_box_2d, other.object.normalized_box_2d);
+      if (overlap === 0) {
+        return false;
+      }
+      const iou = overlap / (candidate.area + other.area - overlap);
+      return iou >= iouThreshold || (candidate.cut === true && overlap / candidate.area >= FRAGMENT_CONTAINMENT);
+    });
+    if (!duplicate) {
+      kept.push(candidate);
+    }
+  }
+
+  // Report in reading order: tile by tile, as the model listed them
+  return kept.sort((a, b) => a.order - b.order).map(candidate => candidate.object);
+}
+
+/**
+ * Tile offsets along one axis
+ */
+function axisOffsets(length: number, tileSize: number, overlap: number): number[] {
+  if (length <= tileSize) {
+    return [0];
+  }
+
+  const count = Math.ceil((length - overlap) / (tileSize - overlap));
+  const stride = (length - tileSize) / (count - 1);
+  return Array.from({ length: count }, (_, index) => Math.round(index * stride));
+}
+
+/**
+ * Whether a box on a tile reaches an edge that is inside the image
+ */
+function touchesInnerEdge(
+  box: [number, number, number, number],
+  tile: ImageTile,
+  imageWidth: number,
+  imageHeight: number
+): boolean {
+  const [ymin, xmin, ymax, xmax] = box;
+  return (
+    (tile.top > 0 && ymin <= SEAM_MARGIN) ||
+    (tile.left > 0 && xmin <= SEAM_MARGIN) ||
+    (tile.top + tile.height < imageHeight && ymax >= NORMALIZED_SCALE - SEAM_MARGIN) ||
+    (tile.left + tile.width < imageWidth && xmax >= NORMALIZED_SCALE - SEAM_MARGIN)
+  );
+}
+
+function boxArea([ymin, xmin, ymax, xmax]: [number, number, number, number]): number {
+  return Math.max(0, ymax - ymin) * Math.max(0, xmax - xmin);
+}
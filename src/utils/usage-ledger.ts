@@ -0,0 +1,206 @@
+/**
+ * Usage Ledger
+ *
+ * Accumulates requests, tokens and estimated cost per day, provider and model
+ * in a local file, so quotas, budgets and the `usage` report cover every
+ * invocation rather than a single process.
+ */
+
+import { existsSync, readFileSync, unlinkSync } from 'fs';
+import { expandUser } from './path-utils.js';
+import { writeFileAtomic } from './metrics-store.js';
+import { formatCost } from './pricing.js';
+import type { AnalysisMetadata, BudgetConfig, BudgetLimits } from '../types/index.js';
+
+export const DEFAULT_USAGE_FILE = '~/.ai-vision/usage.json';
+
+export interface LedgerEntry {
+  date: string; // Local calendar day, YYYY-MM-DD
+  provider: string;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  imageTokens: number;
+  totalTokens: number;
+  cost: number;
+  currency: string;
+}
+
+export interface LedgerFilter {
+  since?: string; // YYYY-MM-DD, inclusive
+  until?: string; // YYYY-MM-DD, inclusive
+  provider?: string;
+  model?: string;
+}
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = keyof BudgetLimits;
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  ratio: number;
+  exceeded: boolean;
+}
+
+interface LedgerFile {
+  version: 1;
+  entries: LedgerEntry[];
+}
+
+export class UsageLedger {
+  private readonly filePath: string;
+
+  constructor(filePath: string = DEFAULT_USAGE_FILE) {
+    this.filePath = expandUser(filePath);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Read ledger entries, oldest day first; a missing or unreadable ledger is empty
+   */
+  read(filter: LedgerFilter = {}): LedgerEntry[] {
+    return this.load().filter(entry =>
+      (!filter.since || entry.date >= filter.since) &&
+      (!filter.until || entry.date <= filter.until) &&
+      (!filter.provider || entry.provider === filter.provider) &&
+      (!filter.model || entry.model === filter.model)
+    );
+  }
+
+  /**
+   * Add one completed request. Synchronous and re-read right before writing,
+   * so parallel batch requests and concurrent invocations are all counted.
+   */
+  record(metadata: Pick<AnalysisMetadata, 'provider' | 'model' | 'usage' | 'cost'>, now: Date = new Date()): void {
+    const entries = this.load();
+    const date = toLocalDate(now);
+    const currency = metadata.cost?.currency ?? 'USD';
+
+    let entry = entries.find(candidate =>
+      candidate.date === date &&
+      candidate.provider === metadata.provider &&
+      candidate.model === metadata.model &&
+      candidate.currency === currency
+    );
+    if (!entry) {
+      entry = {
+        date,
+        provider: metadata.provider,
+        model: metadata.model,
+        requests: 0,
+        promptTokens: 0,
+        outputTokens: 0,
+        imageTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        currency,
+      };
+      entries.push(entry);
+      entries.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    entry.requests++;
+    entry.promptTokens += metadata.usage?.promptTokenCount ?? 0;
+    entry.outputTokens += metadata.usage?.candidatesTokenCount ?? 0;
+    entry.imageTokens += metadata.usage?.imageTokenCount ?? 0;
+    entry.totalTokens += metadata.usage?.totalTokenCount ?? 0;
+    entry.cost += metadata.cost?.total ?? 0;
+
+    const content: LedgerFile = { version: 1, entries };
+    writeFileAtomic(this.filePath, JSON.stringify(content));
+  }
+
+  /**
+   * Totals for the day or calendar month containing `now`
+   */
+  getTotals(period: BudgetPeriod, now: Date = new Date(), provider?: string): UsageTotals {
+    const today = toLocalDate(now);
+    const since = period === 'daily' ? today : `${today.slice(0, 7)}-01`;
+
+    return this.read({ since, until: today, provider }).reduce<UsageTotals>(
+      (totals, entry) => ({
+        requests: totals.requests + entry.requests,
+        tokens: totals.tokens + entry.totalTokens,
+        cost: totals.cost + entry.cost,
+      }),
+      { requests: 0, tokens: 0, cost: 0 }
+    );
+  }
+
+  /**
+   * Compare current usage against every configured budget limit
+   */
+  checkBudgets(budgets: BudgetConfig, now: Date = new Date()): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+
+    for (const period of ['daily', 'monthly'] as const) {
+      const limits = budgets[period];
+      if (!limits) {
+        continue;
+      }
+
+      const totals = this.getTotals(period, now);
+      for (const metric of ['requests', 'tokens', 'cost'] as const) {
+        const limit = limits[metric];
+        if (limit === undefined) {
+          continue;
+        }
+        const used = totals[metric];
+        statuses.push({ period, metric, limit, used, ratio: limit > 0 ? used / limit : 1, exceeded: used >= limit });
+      }
+    }
+
+    return statuses;
+  }
+
+  reset(): void {
+    if (existsSync(this.filePath)) {
+      unlinkSync(this.filePath);
+    }
+  }
+
+  private load(): LedgerEntry[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    try {
+      const content = JSON.parse(readFileSync(this.filePath, 'utf8')) as LedgerFile;
+      return content.version === 1 && Array.isArray(content.entries) ? content.entries : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * One-line description of a budget, e.g. "Daily cost budget at 85%: $4.2500 of $5.0000"
+ */
+export function describeBudget(status: BudgetStatus, currency: string): string {
+  const format = (value: number) => (status.metric === 'cost' ? formatCost(value, currency) : String(value));
+  const period = status.period === 'daily' ? 'Daily' : 'Monthly';
+  const state = status.exceeded ? 'reached' : `at ${Math.round(status.ratio * 100)}%`;
+  return `${period} ${status.metric} budget ${state}: ${format(status.used)} of ${format(status.limit)}`;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time, the day boundary quotas reset on
+ */
+export function toLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
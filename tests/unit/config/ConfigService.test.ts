@@ -193,13 +193,18 @@ describe('ConfigService', () => {
       expect(config.logging.log_level).toBe('debug');
     });
 
-    it('should override function-specific models with highest priority', async () => {
+    it('should route function-specific models without replacing the image model', async () => {
       process.env.IMAGE_MODEL = 'base-model';
       process.env.ANALYZE_IMAGE_MODEL = 'analyze-model';
+      process.env.DETECT_OBJECTS_IN_IMAGE_MODEL = 'detect-model';
 
       const config = await configService.loadConfig();
 
-      expect(config.settings.image_model).toBe('analyze-model');
+      expect(config.settings.image_model).toBe('base-model');
+      expect(config.settings.models).toEqual({
+        analyze_image: 'analyze-model',
+        detect_objects_in_image: 'detect-model',
+      });
     });
 
     it('should merge AI parameters with hierarchy', async () => {
@@ -379,6 +384,53 @@ describe('ConfigService', () => {
     it('should throw error when setting invalid path', async () => {
       await expect(configService.setConfigValue('invalid.path', 'value')).rejects.toThrow(ConfigurationError);
     });
+
+    it('should reject values that fail schema validation', async () => {
+      await expect(configService.setConfigValue('settings.temperature', 3)).rejects.toThrow(ConfigurationError);
+      await expect(configService.setConfigValue('settings.output_format', 'xml')).rejects.toThrow(ConfigurationError);
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should not persist environment overrides when setting a value', async () => {
+      process.env.GEMINI_API_KEY = 'env-secret';
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      try {
+        await configService.setConfigValue('settings.temperature', 0.8);
+      } finally {
+        delete process.env.GEMINI_API_KEY;
+      }
+
+      const savedConfig = (YAML.stringify as jest.Mock).mock.calls[0][0];
+      expect(savedConfig.credentials.gemini_api_key).toBeUndefined();
+      expect(savedConfig.settings.temperature).toBe(0.8);
+    });
+
+    it('should not write default generation parameters when creating the file', async () => {
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      await configService.setConfigValue('settings.image_model', 'gemini-2.5-flash');
+
+      const savedConfig = (YAML.stringify as jest.Mock).mock.calls[0][0];
+      expect(savedConfig.settings).toEqual({ image_model: 'gemini-2.5-flash', output_format: 'json', progress_bars: true });
+      expect(savedConfig.settings).not.toHaveProperty('temperature');
+      expect(savedConfig.settings).not.toHaveProperty('max_tokens');
+    });
+
+    it('should coerce raw strings to the schema type', () => {
+      expect(configService.coerceConfigValue('settings.temperature', '0.7')).toBe(0.7);
+      expect(configService.coerceConfigValue('retry.enabled', 'false')).toBe(false);
+      expect(configService.coerceConfigValue('formats.allowed_image_formats', 'png, jpg')).toEqual(['png', 'jpg']);
+      expect(configService.coerceConfigValue('providers.image', 'vertex_ai')).toBe('vertex_ai');
+    });
+
+    it('should throw error when coercion is impossible', () => {
+      expect(() => configService.coerceConfigValue('settings.top_k', 'many')).toThrow(ConfigurationError);
+      expect(() => configService.coerceConfigValue('retry.jitter', 'maybe')).toThrow(ConfigurationError);
+      expect(() => configService.coerceConfigValue('invalid.path', '1')).toThrow(ConfigurationError);
+    });
   });
 
   describe('Phase 5 Feature Configuration', () => {
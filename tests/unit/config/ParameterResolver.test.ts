@@ -0,0 +1,69 @@
+import { formatParameterExplanation, resolveGenerationParameters } from '../../../src/config/parameter-resolver';
+
+describe('resolveGenerationParameters', () => {
+  const settings = { temperature: 0.7, top_p: 0.8, top_k: 20, max_tokens: 1000 };
+
+  it('should apply CLI flag > function env > task env > global env > config > default', () => {
+    const env = {
+      TEMPERATURE_FOR_ANALYZE_IMAGE: '0.1',
+      TEMPERATURE_FOR_IMAGE: '0.2',
+      TOP_P_FOR_IMAGE: '0.5',
+      TOP_P: '0.6',
+      TOP_K: '10',
+    };
+
+    const resolved = resolveGenerationParameters({
+      functionName: 'analyze_image',
+      options: { temperature: 0.9 },
+      settings: { top_k: 20, max_tokens: 1000 },
+      env,
+    });
+    expect(resolved.temperature).toEqual({ value: 0.9, source: 'cli', origin: '--temperature' });
+    expect(resolved.topP).toEqual({ value: 0.5, source: 'task_env', origin: 'TOP_P_FOR_IMAGE' });
+    expect(resolved.topK).toEqual({ value: 10, source: 'global_env', origin: 'TOP_K' });
+    expect(resolved.maxTokens).toEqual({ value: 1000, source: 'config', origin: 'settings.max_tokens' });
+
+    const withoutFlag = resolveGenerationParameters({ functionName: 'analyze_image', env });
+    expect(withoutFlag.temperature).toMatchObject({ value: 0.1, source: 'function_env' });
+    expect(withoutFlag.maxTokens).toMatchObject({ value: 4096, source: 'default' });
+  });
+
+  it('should accept zero from the command line', () => {
+    const resolved = resolveGenerationParameters({ options: { temperature: 0 }, settings, env: {} });
+
+    expect(resolved.temperature).toMatchObject({ value: 0, source: 'cli' });
+  });
+
+  it('should skip env values that are not numbers', () => {
+    const resolved = resolveGenerationParameters({ settings, env: { TEMPERATURE: 'warm', TOP_K: '' } });
+
+    expect(resolved.temperature).toMatchObject({ value: 0.7, source: 'config' });
+    expect(resolved.topK).toMatchObject({ value: 20, source: 'config' });
+  });
+
+  it('should use per-function defaults and explain every value', () => {
+    const resolved = resolveGenerationParameters({ functionName: 'detect_objects_in_image', env: {} });
+
+    expect(resolved.temperature).toEqual({ value: 0, source: 'default', origin: 'detect_objects_in_image default' });
+    expect(resolved.maxTokens.value).toBe(2048);
+    expect(formatParameterExplanation(resolved, 'detect_objects_in_image').split('\n')).toEqual([
+      'Generation parameters for detect_objects_in_image:',
+      expect.stringMatching(/^ {2}temperature +0 +default +\(detect_objects_in_image default\)$/),
+      expect.stringMatching(/^ {2}topP +0\.95 +default/),
+      expect.stringMatching(/^ {2}topK +32 +default/),
+      expect.stringMatching(/^ {2}maxTokens +2048 +default/),
+    ]);
+  });
+
+  it('should keep function defaults when the config file holds the global defaults', () => {
+    const oldTemplate = { temperature: 0.4, top_p: 0.95, top_k: 32, max_tokens: 4096 };
+
+    const detect = resolveGenerationParameters({ functionName: 'detect_objects_in_image', settings: oldTemplate, env: {} });
+    expect(detect.temperature).toMatchObject({ value: 0, source: 'default' });
+    expect(detect.maxTokens).toMatchObject({ value: 2048, source: 'default' });
+    expect(detect.topK).toMatchObject({ value: 32, source: 'config' });
+
+    const compare = resolveGenerationParameters({ functionName: 'compare_images', settings: { temperature: 0.5 }, env: {} });
+    expect(compare.temperature).toMatchObject({ value: 0.5, source: 'config' });
+  });
+});
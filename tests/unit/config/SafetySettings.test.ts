@@ -0,0 +1,36 @@
+import { mergeSafetySettings, parseSafetyFlag, toSafetySettings } from '../../../src/config/safety-settings';
+import { ValidationError } from '../../../src/types';
+
+describe('safety settings', () => {
+  it('should parse category=threshold pairs in CLI or API spelling', () => {
+    expect(parseSafetyFlag('dangerous_content=block_only_high, HARM_CATEGORY_HARASSMENT=BLOCK_NONE')).toEqual([
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+    ]);
+  });
+
+  it('should apply a bare threshold to every category', () => {
+    const settings = parseSafetyFlag('block-low-and-above');
+
+    expect(settings).toHaveLength(5);
+    expect(settings.every(setting => setting.threshold === 'BLOCK_LOW_AND_ABOVE')).toBe(true);
+  });
+
+  it('should reject unknown categories and thresholds', () => {
+    expect(() => parseSafetyFlag('violence=block_none')).toThrow(ValidationError);
+    expect(() => parseSafetyFlag('harassment=sometimes')).toThrow(/Unknown safety threshold "sometimes"/);
+  });
+
+  it('should let flag settings override config settings per category', () => {
+    const merged = mergeSafetySettings(
+      toSafetySettings({ harassment: 'block_only_high', hate_speech: 'off' }),
+      parseSafetyFlag('harassment=block_none')
+    );
+
+    expect(merged).toEqual([
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'OFF' },
+    ]);
+    expect(mergeSafetySettings(toSafetySettings(), undefined)).toBeUndefined();
+  });
+});
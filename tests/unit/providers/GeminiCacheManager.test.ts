@@ -0,0 +1,92 @@
+import { GeminiCacheManager, type CachedContextRequest } from '../../../src/providers/gemini/GeminiCacheManager';
+
+const BASE_URL = 'https://generativelanguage.googleapis.com';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+const request: CachedContextRequest = {
+  model: 'gemini-2.5-flash',
+  contents: [{ role: 'user', parts: [{ fileData: { mimeType: 'image/png', fileUri: `${BASE_URL}/v1beta/files/abc123` } }] }],
+  systemInstruction: 'You read architectural blueprints',
+};
+
+function cachedContent(overrides: Record<string, unknown> = {}) {
+  return {
+    name: 'cachedContents/cache1',
+    displayName: `ai-vision:${GeminiCacheManager.computeKey(request)}`,
+    model: 'models/gemini-2.5-flash',
+    expireTime: new Date(Date.now() + 3600 * 1000).toISOString(),
+    usageMetadata: { totalTokenCount: 4200 },
+    ...overrides,
+  };
+}
+
+describe('GeminiCacheManager', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should create an entry once and reuse it within the process', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { cachedContents: [] }))
+      .mockResolvedValueOnce(jsonResponse(200, cachedContent()));
+    const manager = new GeminiCacheManager('test-key', BASE_URL);
+
+    const entry = await manager.getOrCreate({ ...request, ttl: 1800 });
+    expect(entry).toMatchObject({ name: 'cachedContents/cache1', tokenCount: 4200 });
+    expect(await manager.getOrCreate(request)).toBe(entry);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe(`${BASE_URL}/v1beta/cachedContents`);
+    expect(init.headers).toMatchObject({ 'x-goog-api-key': 'test-key' });
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'models/gemini-2.5-flash',
+      contents: request.contents,
+      systemInstruction: { parts: [{ text: 'You read architectural blueprints' }] },
+      ttl: '1800s',
+    });
+  });
+
+  it('should reuse an entry created by an earlier run and extend its TTL', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, {
+        cachedContents: [cachedContent({ name: 'cachedContents/other', displayName: 'ai-vision:other' }), cachedContent()],
+      }))
+      .mockResolvedValueOnce(jsonResponse(200, cachedContent()));
+
+    const entry = await new GeminiCacheManager('test-key', BASE_URL).getOrCreate(request);
+
+    expect(entry?.name).toBe('cachedContents/cache1');
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe(`${BASE_URL}/v1beta/cachedContents/cache1?updateMask=ttl`);
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body)).toEqual({ ttl: '3600s' });
+  });
+
+  it('should report content below the minimum cacheable size without retrying', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, {}))
+      .mockResolvedValueOnce(jsonResponse(400, {
+        error: {
+          status: 'INVALID_ARGUMENT',
+          message: 'Cached content is too small. total_token_count=300, min_total_token_count=1024',
+        },
+      }));
+    const manager = new GeminiCacheManager('test-key', BASE_URL);
+
+    expect(await manager.getOrCreate(request)).toBeUndefined();
+    expect(await manager.getOrCreate(request)).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+import { GeminiFileManager } from '../../../src/providers/gemini/GeminiFileManager';
+import { FileUploadError } from '../../../src/types';
+
+const BASE_URL = 'https://generativelanguage.googleapis.com';
+const UPLOAD_URL = 'https://upload.example.com/session-1';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function fileMetadata(overrides: Record<string, string> = {}) {
+  return {
+    name: 'files/abc123',
+    displayName: 'photo.png',
+    mimeType: 'image/png',
+    sizeBytes: '1024',
+    createTime: '2026-01-01T00:00:00Z',
+    updateTime: '2026-01-01T00:00:00Z',
+    expirationTime: new Date(Date.now() + 48 * 3600 * 1000).toISOString(),
+    sha256Hash: 'unrelated',
+    uri: `${BASE_URL}/v1beta/files/abc123`,
+    state: 'ACTIVE',
+    ...overrides,
+  };
+}
+
+const startResponse = () => new Response(null, { status: 200, headers: { 'x-goog-upload-url': UPLOAD_URL } });
+
+describe('GeminiFileManager', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function createManager(): GeminiFileManager {
+    return new GeminiFileManager('test-key', BASE_URL, 'google', {
+      chunkSize: 256 * 1024,
+      pollInterval: 1,
+      processingTimeout: 1000,
+    });
+  }
+
+  it('should upload in resumable chunks and wait for the file to become active', async () => {
+    const buffer = Buffer.alloc(300 * 1024, 1);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { files: [] }))
+      .mockResolvedValueOnce(startResponse())
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+      .mockResolvedValueOnce(jsonResponse(200, { file: fileMetadata({ state: 'PROCESSING' }) }))
+      .mockResolvedValueOnce(jsonResponse(200, fileMetadata({ state: 'PROCESSING' })))
+      .mockResolvedValueOnce(jsonResponse(200, fileMetadata()));
+
+    const file = await createManager().uploadFile(buffer, 'photo.png', 'image/png');
+
+    expect(file).toMatchObject({ id: 'files/abc123', state: 'ACTIVE', uri: `${BASE_URL}/v1beta/files/abc123` });
+
+    const [startUrl, startInit] = fetchMock.mock.calls[1];
+    expect(startUrl).toBe(`${BASE_URL}/upload/v1beta/files`);
+    expect(startInit.headers).toMatchObject({
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(buffer.length),
+      'x-goog-api-key': 'test-key',
+    });
+
+    expect(fetchMock.mock.calls[2][1].headers).toMatchObject({ 'X-Goog-Upload-Offset': '0', 'X-Goog-Upload-Command': 'upload' });
+    expect(fetchMock.mock.calls[3][1].headers).toMatchObject({
+      'X-Goog-Upload-Offset': String(256 * 1024),
+      'X-Goog-Upload-Command': 'upload, finalize',
+    });
+    expect(fetchMock.mock.calls[5][0]).toBe(`${BASE_URL}/v1beta/files/abc123`);
+  });
+
+  it('should resume from the acknowledged offset after a dropped chunk', async () => {
+    const buffer = Buffer.alloc(300 * 1024, 2);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { files: [] }))
+      .mockResolvedValueOnce(startResponse())
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { 'x-goog-upload-size-received': String(256 * 1024) } }))
+      .mockResolvedValueOnce(jsonResponse(200, { file: fileMetadata() }));
+
+    const file = await createManager().uploadFile(buffer, 'photo.png', 'image/png');
+
+    expect(file.state).toBe('ACTIVE');
+    expect(fetchMock.mock.calls[3][1].headers).toEqual({ 'X-Goog-Upload-Command': 'query' });
+    expect(fetchMock.mock.calls[4][1].headers['X-Goog-Upload-Offset']).toBe(String(256 * 1024));
+  });
+
+  it('should reuse an unexpired upload with the same content hash', async () => {
+    const buffer = Buffer.from('same image bytes');
+    const digest = createHash('sha256').update(buffer).digest('hex');
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, {
+      files: [fileMetadata({ name: 'files/reused', sha256Hash: Buffer.from(digest, 'utf8').toString('base64') })],
+    }));
+
+    const manager = createManager();
+    const first = await manager.uploadFile(buffer, 'photo.png', 'image/png');
+    const second = await manager.uploadFile(buffer, 'photo.png', 'image/png');
+
+    expect(first.id).toBe('files/reused');
+    expect(second.id).toBe('files/reused');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not reuse an upload that is about to expire', async () => {
+    const buffer = Buffer.from('expiring image bytes');
+    const digest = createHash('sha256').update(buffer).digest();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, {
+        files: [fileMetadata({
+          name: 'files/old',
+          sha256Hash: digest.toString('base64'),
+          expirationTime: new Date(Date.now() + 60 * 1000).toISOString(),
+        })],
+      }))
+      .mockResolvedValueOnce(startResponse())
+      .mockResolvedValueOnce(jsonResponse(200, { file: fileMetadata({ name: 'files/fresh' }) }));
+
+    const file = await createManager().uploadFile(buffer, 'photo.png', 'image/png');
+
+    expect(file.id).toBe('files/fresh');
+  });
+
+  it('should fail when the file ends up in the FAILED state', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { files: [] }))
+      .mockResolvedValueOnce(startResponse())
+      .mockResolvedValueOnce(jsonResponse(200, { file: fileMetadata({ state: 'PROCESSING' }) }))
+      .mockResolvedValueOnce(jsonResponse(200, fileMetadata({ state: 'FAILED' })));
+
+    await expect(createManager().uploadFile(Buffer.from('x'), 'photo.png', 'image/png'))
+      .rejects.toBeInstanceOf(FileUploadError);
+  });
+});
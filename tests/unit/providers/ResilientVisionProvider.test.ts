@@ -0,0 +1,179 @@
+import {
+  ResilientVisionProvider,
+  type ResilienceConfig,
+} from '../../../src/providers/resilient/ResilientVisionProvider';
+import { CircuitBreakerManager } from '../../../src/utils/circuit-breaker';
+import { MultiProviderRateLimiter } from '../../../src/utils/rate-limiter';
+import {
+  AuthenticationError,
+  CircuitOpenError,
+  ProviderError,
+  ValidationError,
+} from '../../../src/types';
+
+const mockResult = {
+  text: 'ok',
+  metadata: { model: 'test-model', provider: 'google', processingTime: 1 },
+};
+
+async function* streamOf(chunks: string[], error?: Error) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+  if (error) {
+    throw error;
+  }
+  return { ...mockResult, text: chunks.join('') };
+}
+
+async function collect(stream: AsyncGenerator<string, unknown>): Promise<{ chunks: string[]; result: unknown }> {
+  const chunks: string[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    chunks.push(next.value);
+    next = await stream.next();
+  }
+  return { chunks, result: next.value };
+}
+
+function createConfig(overrides: Partial<ResilienceConfig> = {}): ResilienceConfig {
+  return {
+    retry: {
+      enabled: true,
+      max_attempts: 3,
+      base_delay: 1,
+      max_delay: 5,
+      backoff_multiplier: 1,
+      jitter: false,
+      retryable_errors: ['NETWORK_ERROR', 'RATE_LIMIT_EXCEEDED', 'PROVIDER_ERROR'],
+    },
+    rateLimiting: {
+      enabled: true,
+      requests_per_second: 100,
+      burst_size: 100,
+      backoff_on_limit: false,
+      max_backoff_delay: 1000,
+      enable_adaptive_limiting: false,
+    },
+    circuitBreaker: {
+      enabled: true,
+      failure_threshold: 2,
+      recovery_timeout: 60000,
+      half_open_max_calls: 1,
+      success_threshold: 1,
+    },
+    ...overrides,
+  };
+}
+
+describe('ResilientVisionProvider', () => {
+  let innerProvider: any;
+  let circuitBreakers: CircuitBreakerManager;
+  let rateLimiter: MultiProviderRateLimiter;
+
+  beforeEach(() => {
+    innerProvider = {
+      analyzeImage: jest.fn(),
+      compareImages: jest.fn(),
+      analyzeImageStream: jest.fn(),
+      uploadFile: jest.fn(),
+      downloadFile: jest.fn(),
+      deleteFile: jest.fn(),
+      healthCheck: jest.fn(),
+      getImageModel: jest.fn().mockReturnValue('test-model'),
+    };
+    circuitBreakers = new CircuitBreakerManager();
+    rateLimiter = new MultiProviderRateLimiter();
+  });
+
+  afterEach(() => {
+    circuitBreakers.destroy();
+  });
+
+  function createProvider(config: ResilienceConfig = createConfig()): ResilientVisionProvider {
+    return new ResilientVisionProvider(innerProvider, 'google', config, rateLimiter, circuitBreakers);
+  }
+
+  it('should retry retryable errors and return the eventual result', async () => {
+    innerProvider.analyzeImage
+      .mockRejectedValueOnce(new ProviderError('Temporary glitch', 'google'))
+      .mockResolvedValueOnce(mockResult);
+
+    const result = await createProvider().analyzeImage('image.png', 'describe');
+
+    expect(result).toBe(mockResult);
+    expect(innerProvider.analyzeImage).toHaveBeenCalledTimes(2);
+    expect(rateLimiter.getAllStatus().get('google')?.requestsInPeriod).toBe(2);
+  });
+
+  it('should not retry non-retryable errors and rethrow the original error', async () => {
+    innerProvider.analyzeImage.mockRejectedValue(new AuthenticationError('Bad key', 'google'));
+
+    await expect(createProvider().analyzeImage('image.png', 'describe')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(innerProvider.analyzeImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after repeated provider failures', async () => {
+    innerProvider.analyzeImage.mockRejectedValue(new ProviderError('Service unavailable', 'google'));
+    const provider = createProvider();
+
+    await expect(provider.analyzeImage('image.png', 'describe')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(innerProvider.analyzeImage).toHaveBeenCalledTimes(2);
+
+    await expect(provider.analyzeImage('image.png', 'describe')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(innerProvider.analyzeImage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not count client errors against the circuit', async () => {
+    innerProvider.analyzeImage.mockRejectedValue(new ValidationError('Bad input'));
+    const provider = createProvider();
+
+    for (let i = 0; i < 3; i++) {
+      await expect(provider.analyzeImage('image.png', 'describe')).rejects.toBeInstanceOf(ValidationError);
+    }
+
+    expect(circuitBreakers.getAvailableProviders()).toContain('google');
+  });
+
+  it('should make a single attempt when retries are disabled', async () => {
+    innerProvider.compareImages.mockRejectedValue(new ProviderError('Service unavailable', 'google'));
+    const config = createConfig();
+    const provider = createProvider({ ...config, retry: { ...config.retry, enabled: false } });
+
+    await expect(provider.compareImages(['a.png', 'b.png'], 'compare')).rejects.toBeInstanceOf(ProviderError);
+    expect(innerProvider.compareImages).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a stream that fails before its first chunk', async () => {
+    innerProvider.analyzeImageStream
+      .mockReturnValueOnce(streamOf([], new ProviderError('Temporary glitch', 'google')))
+      .mockReturnValueOnce(streamOf(['Hello, ', 'world']));
+
+    const { chunks, result } = await collect(createProvider().analyzeImageStream('image.png', 'describe'));
+
+    expect(chunks).toEqual(['Hello, ', 'world']);
+    expect(result).toMatchObject({ text: 'Hello, world' });
+    expect(innerProvider.analyzeImageStream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry a stream once text has been yielded', async () => {
+    innerProvider.analyzeImageStream.mockReturnValue(
+      streamOf(['partial'], new ProviderError('Connection reset', 'google'))
+    );
+
+    const stream = createProvider().analyzeImageStream('image.png', 'describe');
+
+    expect(await stream.next()).toEqual({ value: 'partial', done: false });
+    await expect(stream.next()).rejects.toBeInstanceOf(ProviderError);
+    expect(innerProvider.analyzeImageStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass health checks straight through to the provider', async () => {
+    innerProvider.healthCheck.mockResolvedValue({ status: 'healthy', lastCheck: new Date().toISOString() });
+
+    const health = await createProvider().healthCheck();
+
+    expect(health.status).toBe('healthy');
+    expect(rateLimiter.getAllStatus().get('google')?.requestsInPeriod).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+import { generateKeyPairSync, createVerify } from 'crypto';
+import { VertexAIProvider } from '../../../src/providers/vertex/VertexAIProvider';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ContentBlockedError,
+  ProviderError,
+  RateLimitExceededError,
+  VisionError,
+} from '../../../src/types';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const serviceAccount = {
+  type: 'service_account',
+  project_id: 'sa-project',
+  private_key_id: 'key-1',
+  private_key: privateKey,
+  client_email: 'vision@sa-project.iam.gserviceaccount.com',
+  token_uri: 'https://oauth2.googleapis.com/token',
+};
+
+const imageSource = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+const tokenResponse = () => jsonResponse(200, { access_token: 'token-123', expires_in: 3600 });
+
+describe('VertexAIProvider', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function createProvider(overrides: Partial<ConstructorParameters<typeof VertexAIProvider>[0]> = {}): VertexAIProvider {
+    return new VertexAIProvider({
+      projectId: '',
+      location: 'europe-west4',
+      endpoint: '',
+      credentials: JSON.stringify(serviceAccount),
+      imageModel: 'gemini-1.5-pro',
+      ...overrides,
+    });
+  }
+
+  it('should exchange a signed JWT for an access token and call the regional endpoint', async () => {
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse())
+      .mockResolvedValueOnce(jsonResponse(200, {
+        candidates: [{ content: { role: 'model', parts: [{ text: 'A red square' }] }, finishReason: 'STOP', index: 0 }],
+        usageMetadata: {
+          promptTokenCount: 10,
+          candidatesTokenCount: 3,
+          totalTokenCount: 13,
+          promptTokensDetails: [{ modality: 'TEXT', tokenCount: 2 }, { modality: 'IMAGE', tokenCount: 8 }],
+        },
+        responseId: 'resp-1',
+      }));
+
+    const result = await createProvider().analyzeImage(imageSource, 'Describe', { systemInstruction: 'Be brief' });
+
+    const [tokenUrl, tokenInit] = fetchMock.mock.calls[0];
+    expect(tokenUrl).toBe('https://oauth2.googleapis.com/token');
+    const assertion = new URLSearchParams(tokenInit.body).get('assertion')!;
+    const [header, claims, signature] = assertion.split('.');
+    const verified = createVerify('RSA-SHA256')
+      .update(`${header}.${claims}`)
+      .verify(publicKey, Buffer.from(signature, 'base64url'));
+    expect(verified).toBe(true);
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toMatchObject({
+      iss: serviceAccount.client_email,
+      aud: serviceAccount.token_uri,
+      scope: 'https://www.googleapis.com/auth/cloud-platform',
+    });
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe(
+      'https://europe-west4-aiplatform.googleapis.com/v1/projects/sa-project/locations/europe-west4/publishers/google/models/gemini-1.5-pro:generateContent'
+    );
+    expect(init.headers.Authorization).toBe('Bearer token-123');
+    const body = JSON.parse(init.body);
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'Be brief' }] });
+    expect(body.generationConfig.systemInstruction).toBeUndefined();
+
+    expect(result.text).toBe('A red square');
+    expect(result.metadata.provider).toBe('vertex_ai');
+    expect(result.metadata.usage?.totalTokenCount).toBe(13);
+    expect(result.metadata.usage?.imageTokenCount).toBe(8);
+    expect(result.metadata.responseId).toBe('resp-1');
+    expect(result.metadata.finishReason).toBe('STOP');
+  });
+
+  it('should reuse the cached access token and honor a configured endpoint and project', async () => {
+    const success = () => jsonResponse(200, { candidates: [{ content: { role: 'model', parts: [{ text: 'ok' }] }, finishReason: 'STOP', index: 0 }] });
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse())
+      .mockResolvedValueOnce(success())
+      .mockResolvedValueOnce(success());
+
+    const provider = createProvider({ projectId: 'other-project', endpoint: 'https://vertex.example.com/' });
+    await provider.analyzeImage(imageSource, 'one');
+    await provider.analyzeImage(imageSource, 'two');
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[2][0]).toBe(
+      'https://vertex.example.com/v1/projects/other-project/locations/europe-west4/publishers/google/models/gemini-1.5-pro:generateContent'
+    );
+  });
+
+  it('should call and report the per-request model instead of the image model', async () => {
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse())
+      .mockResolvedValueOnce(jsonResponse(200, {
+        candidates: [{ content: { role: 'model', parts: [{ text: '[]' }] }, finishReason: 'STOP', index: 0 }],
+      }));
+
+    const result = await createProvider().analyzeImage(imageSource, 'Detect', {
+      functionName: 'detect_objects_in_image',
+      model: 'gemini-2.5-pro',
+    });
+
+    expect(fetchMock.mock.calls[1][0]).toContain('/publishers/google/models/gemini-2.5-pro:generateContent');
+    expect(result.metadata.model).toBe('gemini-2.5-pro');
+  });
+
+  it('should send safety settings and report blocked responses with their ratings', async () => {
+    const safetyRatings = [
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true },
+      { category: 'HARM_CATEGORY_HARASSMENT', probability: 'NEGLIGIBLE', blocked: false },
+    ];
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse())
+      .mockResolvedValueOnce(jsonResponse(200, {
+        candidates: [{ content: { role: 'model', parts: [] }, finishReason: 'SAFETY', index: 0, safetyRatings }],
+      }))
+      .mockResolvedValueOnce(jsonResponse(200, { promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } }));
+
+    const provider = createProvider();
+    const safetySettings = [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' }];
+    const error = await provider.analyzeImage(imageSource, 'x', { safetySettings }).catch(err => err);
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).safetySettings).toEqual(safetySettings);
+    expect(error).toBeInstanceOf(ContentBlockedError);
+    expect(error.code).toBe('CONTENT_BLOCKED');
+    expect(error.finishReason).toBe('SAFETY');
+    expect(error.safetyRatings).toEqual(safetyRatings);
+    expect(error.message).toContain('HARM_CATEGORY_DANGEROUS_CONTENT HIGH');
+
+    const promptError = await provider.analyzeImage(imageSource, 'x').catch(err => err);
+    expect(promptError).toBeInstanceOf(ContentBlockedError);
+    expect(promptError.blockReason).toBe('PROHIBITED_CONTENT');
+  });
+
+  it('should preview a request with inline data elided and count its tokens without generating', async () => {
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse())
+      .mockResolvedValueOnce(jsonResponse(200, { totalTokens: 1290 }));
+
+    const preview = await createProvider().previewRequest([imageSource, 'gs://bucket/b.png'], 'Compare', {
+      functionName: 'compare_images',
+      systemInstruction: 'Be brief',
+      temperature: 0.2,
+    });
+
+    expect(fetchMock.mock.calls[1][0]).toContain('/publishers/google/models/gemini-1.5-pro:countTokens');
+    const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'Be brief' }] });
+    expect(body.contents[0].parts[0].inlineData.data).toBe(imageSource.split(',')[1]);
+
+    expect(preview).toMatchObject({
+      provider: 'vertex_ai',
+      functionName: 'compare_images',
+      systemInstruction: 'Be brief',
+      promptTokenCount: 1290,
+      images: [
+        { source: imageSource, mimeType: 'image/png', size: 70, method: 'inline_data' },
+        { source: 'gs://bucket/b.png', mimeType: 'image/png', method: 'file_uri' },
+      ],
+    });
+    expect(preview.generationConfig).toMatchObject({ temperature: 0.2 });
+    expect(preview.contents[0].parts).toEqual([
+      { inlineData: { mimeType: 'image/png', data: '<70 bytes of base64 elided>' } },
+      { fileData: { fileUri: 'gs://bucket/b.png', mimeType: 'image/png' } },
+      { text: 'Compare' },
+    ]);
+  });
+
+  it('should map Vertex error payloads into the VisionError hierarchy', async () => {
+    const provider = createProvider();
+    const errorBody = (code: number, status: string) => ({ error: { code, message: 'failure', status } });
+
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse())
+      .mockResolvedValueOnce(jsonResponse(429, errorBody(429, 'RESOURCE_EXHAUSTED'), { 'retry-after': '7' }))
+      .mockResolvedValueOnce(jsonResponse(403, errorBody(403, 'PERMISSION_DENIED')))
+      .mockResolvedValueOnce(jsonResponse(404, errorBody(404, 'NOT_FOUND')))
+      .mockResolvedValueOnce(jsonResponse(503, errorBody(503, 'UNAVAILABLE')));
+
+    const rateLimited = await provider.analyzeImage(imageSource, 'x').catch(error => error);
+    expect(rateLimited).toBeInstanceOf(RateLimitExceededError);
+    expect(rateLimited.retryAfter).toBe(7);
+
+    await expect(provider.analyzeImage(imageSource, 'x')).rejects.toBeInstanceOf(AuthorizationError);
+
+    const notFound = await provider.analyzeImage(imageSource, 'x').catch(error => error);
+    expect(notFound).toBeInstanceOf(VisionError);
+    expect(notFound.code).toBe('NOT_FOUND');
+
+    const unavailable = await provider.analyzeImage(imageSource, 'x').catch(error => error);
+    expect(unavailable).toBeInstanceOf(ProviderError);
+    expect(unavailable.statusCode).toBe(503);
+  });
+
+  it('should raise an authentication error when the token exchange is rejected', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { error: 'invalid_grant', error_description: 'Invalid JWT Signature.' }));
+
+    const error = await createProvider().analyzeImage(imageSource, 'x').catch(err => err);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.message).toContain('Invalid JWT Signature.');
+  });
+
+  it('should report unhealthy when the service account is malformed', async () => {
+    const health = await createProvider({ credentials: '{"client_email":"x"}' }).healthCheck();
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.message).toContain('client_email and private_key');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -121,6 +121,46 @@ describe('FileService', () => {
       expect(result.processingInfo.method).toBe('file_uri');
     });
 
+    it('should decide on an upload without uploading in a dry run', async () => {
+      const largeBuffer = Buffer.alloc(6 * 1024 * 1024);
+      jest.spyOn(require('fs/promises'), 'readFile').mockResolvedValue(largeBuffer);
+      jest.spyOn(require('fs/promises'), 'access').mockResolvedValue(undefined);
+
+      const result = await fileService.handleImageSource('/test/large.jpg', { dryRun: true });
+
+      expect(mockProvider.uploadFile).not.toHaveBeenCalled();
+      expect(result.processingInfo.method).toBe('file_uri');
+      expect(result.reference).toEqual({ type: 'inline_data', data: largeBuffer.toString('base64'), mimeType: 'image/jpeg' });
+    });
+
+    it('should preprocess images and report the transforms', async () => {
+      const sharp = require('sharp');
+      const tiff = await sharp({ create: { width: 4000, height: 1000, channels: 3, background: '#336699' } }).tiff().toBuffer();
+      jest.spyOn(require('fs/promises'), 'readFile').mockResolvedValue(tiff);
+      jest.spyOn(require('fs/promises'), 'access').mockResolvedValue(undefined);
+
+      const result = await fileService.handleImageSource('/test/scan.tiff', {
+        preprocessing: {
+          enabled: true,
+          auto_orient: true,
+          max_dimension: 2000,
+          max_image_tokens: 0,
+          format: 'auto',
+          quality: 90,
+          strip_alpha: true,
+        },
+      });
+
+      expect(result.reference.mimeType).toBe('image/jpeg');
+      expect(result.preprocessing).toMatchObject({
+        originalWidth: 4000,
+        originalHeight: 1000,
+        width: 2000,
+        height: 500,
+        transforms: ['resize 4000x1000 -> 2000x500', 'convert image/tiff -> image/jpeg'],
+      });
+    });
+
     it('should throw FileSizeExceededError for oversized images', async () => {
       const oversizedBuffer = Buffer.alloc(25 * 1024 * 1024); // 25MB (exceeds 20MB max file size)
       jest.spyOn(require('fs/promises'), 'readFile').mockResolvedValue(oversizedBuffer);
@@ -0,0 +1,28 @@
+import { createComparisonSchema, parseComparison } from '../../../src/utils/comparison-utils';
+import { VisionError } from '../../../src/types';
+
+const reply = {
+  similarities: ['Both show a red car', 'Same parking lot'],
+  differences: ['Image 2 is taken at night'],
+  overallScore: 0.8,
+  detailedAnalysis: 'The same scene at different times of day.',
+};
+
+describe('comparison utils', () => {
+  it('should require every field of the comparison result in the response schema', () => {
+    const schema = createComparisonSchema();
+    expect(schema.required).toEqual(['similarities', 'differences', 'overallScore', 'detailedAnalysis']);
+    expect(Object.keys(schema.properties as object)).toEqual(schema.required);
+  });
+
+  it('should parse a valid reply and bring a percent score into 0-1', () => {
+    expect(parseComparison(JSON.stringify(reply))).toEqual(reply);
+    expect(parseComparison(JSON.stringify({ ...reply, overallScore: 65 })).overallScore).toBe(0.65);
+  });
+
+  it('should reject replies that are not JSON or do not match the schema', () => {
+    expect(() => parseComparison('The images are similar.')).toThrow(VisionError);
+    expect(() => parseComparison(JSON.stringify({ ...reply, differences: 'night' }))).toThrow(/differences/);
+    expect(() => parseComparison(JSON.stringify({ ...reply, overallScore: -3 }))).toThrow(/overallScore/);
+  });
+});
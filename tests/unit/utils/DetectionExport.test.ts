@@ -0,0 +1,73 @@
+import { exportDetections, parseExportFormat, type ExportImage } from '../../../src/utils/detection-export';
+import { ValidationError } from '../../../src/types';
+
+// 2000x1000 image: the car covers x 200-600, y 100-500 px
+const images: ExportImage[] = [
+  {
+    source: '/data/street/frame1.jpg',
+    width: 2000,
+    height: 1000,
+    detections: [
+      { object: 'car', label: 'red car, "parked"', normalized_box_2d: [100, 100, 500, 300], confidence: 0.9 },
+      { object: 'bus', label: 'bus', normalized_box_2d: [0, 500, 1000, 1000] },
+    ],
+  },
+  {
+    source: '/data/highway/frame1.jpg',
+    width: 800,
+    height: 600,
+    detections: [{ object: 'car', label: 'car', normalized_box_2d: [500, 250, 1000, 750], confidence: 0.6 }],
+  },
+];
+
+const file = (format: Parameters<typeof exportDetections>[1], name: string) =>
+  exportDetections(images, format).find(exported => exported.path === name)?.content ?? '';
+
+describe('detection export', () => {
+  it('should write one COCO dataset with pixel boxes and a shared category map', () => {
+    const coco = JSON.parse(file('coco', 'annotations.json'));
+
+    expect(coco.categories).toEqual([
+      { id: 1, name: 'bus', supercategory: 'none' },
+      { id: 2, name: 'car', supercategory: 'none' },
+    ]);
+    expect(coco.images[1]).toEqual({ id: 2, file_name: 'frame1.jpg', width: 800, height: 600 });
+    expect(coco.annotations[0]).toEqual({
+      id: 1, image_id: 1, category_id: 2, bbox: [200, 100, 400, 400], area: 160000, iscrowd: 0, score: 0.9,
+    });
+    expect(coco.annotations[2]).toMatchObject({ image_id: 2, category_id: 2, bbox: [200, 300, 400, 300] });
+  });
+
+  it('should write YOLO labels with normalized centers and unique file names', () => {
+    const files = exportDetections(images, 'yolo');
+
+    expect(files.map(exported => exported.path)).toEqual(['classes.txt', 'labels/frame1.txt', 'labels/frame1_1.txt']);
+    expect(files[0].content).toBe('bus\ncar\n');
+    expect(files[1].content).toBe('1 0.200000 0.300000 0.200000 0.400000\n0 0.750000 0.500000 0.500000 1.000000\n');
+  });
+
+  it('should write Pascal VOC, CSV and Label Studio annotations', () => {
+    const voc = file('voc', 'Annotations/frame1.xml');
+    expect(voc).toContain('<filename>frame1.jpg</filename>');
+    expect(voc).toContain('<xmin>201</xmin>\n      <ymin>101</ymin>\n      <xmax>600</xmax>\n      <ymax>500</ymax>');
+
+    const csv = file('csv', 'detections.csv').split('\n');
+    expect(csv[0]).toBe('image,width,height,object,label,confidence,xmin,ymin,xmax,ymax');
+    expect(csv[1]).toBe('/data/street/frame1.jpg,2000,1000,car,"red car, ""parked""",0.9,200,100,600,500');
+    expect(csv[2]).toBe('/data/street/frame1.jpg,2000,1000,bus,bus,,1000,0,2000,1000');
+
+    const [task] = JSON.parse(file('labelstudio', 'tasks.json'));
+    expect(task.data.image).toBe('/data/street/frame1.jpg');
+    expect(task.predictions[0].result[0]).toMatchObject({
+      type: 'rectanglelabels',
+      original_width: 2000,
+      value: { x: 10, y: 10, width: 20, height: 40, rectanglelabels: ['car'] },
+      score: 0.9,
+    });
+  });
+
+  it('should reject unknown formats', () => {
+    expect(parseExportFormat('COCO')).toBe('coco');
+    expect(() => parseExportFormat('tfrecord')).toThrow(ValidationError);
+  });
+});
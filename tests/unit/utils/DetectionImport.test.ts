@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { exportDetections, writeDetectionExport, type ExportImage } from '../../../src/utils/detection-export';
+import { importDetections, selectImageDetections, resolveImageSizes } from '../../../src/utils/detection-import';
+import { ValidationError } from '../../../src/types';
+
+const images: ExportImage[] = [
+  {
+    source: 'street.jpg',
+    width: 2000,
+    height: 1000,
+    detections: [
+      { object: 'car', label: 'car', normalized_box_2d: [100, 100, 500, 300], confidence: 0.9 },
+      { object: 'bus', label: 'bus', normalized_box_2d: [0, 500, 1000, 1000], confidence: 0.5 },
+    ],
+  },
+  {
+    source: 'highway.jpg',
+    width: 800,
+    height: 600,
+    detections: [{ object: 'car', label: 'car', normalized_box_2d: [500, 250, 1000, 750], confidence: 0.6 }],
+  },
+];
+
+describe('detection import', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-vision-annotations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['coco', 'annotations.json'],
+    ['voc', '.'],
+    ['csv', 'detections.csv'],
+    ['labelstudio', 'tasks.json'],
+  ] as const)('should read back boxes exported as %s', async (format, input) => {
+    await writeDetectionExport(tempDir, exportDetections(images, format));
+
+    const imported = await importDetections(path.join(tempDir, input), format);
+
+    // VOC files are read in file name order
+    expect(imported.map(image => [path.basename(image.source), image.width, image.height])).toEqual(expect.arrayContaining([
+      ['street.jpg', 2000, 1000],
+      ['highway.jpg', 800, 600],
+    ]));
+    const street = imported.find(image => path.basename(image.source) === 'street.jpg');
+    expect(street?.detections.map(obj => [obj.object, obj.normalized_box_2d])).toEqual([
+      ['car', [100, 100, 500, 300]],
+      ['bus', [0, 500, 1000, 1000]],
+    ]);
+  });
+
+  it('should read YOLO labels and take image sizes from the images', async () => {
+    await writeDetectionExport(tempDir, exportDetections(images, 'yolo'));
+
+    const imported = await importDetections(tempDir, 'yolo');
+    expect(imported.map(image => image.source)).toEqual(['highway', 'street']);
+    expect(imported[1].detections[0]).toEqual({ object: 'car', label: 'car', normalized_box_2d: [100, 100, 500, 300] });
+
+    await expect(resolveImageSizes(imported, tempDir)).rejects.toThrow(ValidationError);
+
+    for (const image of images) {
+      await sharp({ create: { width: image.width, height: image.height, channels: 3, background: '#808080' } })
+        .jpeg()
+        .toFile(path.join(tempDir, image.source));
+    }
+    const resolved = await resolveImageSizes(imported, tempDir);
+    expect(resolved.map(image => [image.source, image.width, image.height])).toEqual([
+      [path.join(tempDir, 'highway.jpg'), 800, 600],
+      [path.join(tempDir, 'street.jpg'), 2000, 1000],
+    ]);
+    expect(resolved[1].detections).toEqual(imported[1].detections);
+  });
+
+  it('should read results saved by detect and batch detect', async () => {
+    const detectResult = path.join(tempDir, 'detect.json');
+    fs.writeFileSync(detectResult, JSON.stringify({ success: true, result: { image: 'street.jpg', detectedObjects: images[0].detections } }));
+    const batchResult = path.join(tempDir, 'batch.json');
+    fs.writeFileSync(batchResult, JSON.stringify({
+      results: images.map(image => ({
+        detections: image.detections,
+        file: { path: `photos/${image.source}` },
+        image_metadata: { width: image.width, height: image.height },
+      })),
+    }));
+
+    const [single] = await importDetections(detectResult, 'json');
+    expect(single).toMatchObject({ source: 'street.jpg', width: 0, detections: images[0].detections });
+
+    const batch = await importDetections(batchResult, 'json');
+    expect(selectImageDetections(batch, '/elsewhere/highway.jpg')).toEqual(images[1].detections);
+    expect(() => selectImageDetections(batch, 'other.jpg')).toThrow(ValidationError);
+  });
+});
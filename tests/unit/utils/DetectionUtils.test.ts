@@ -0,0 +1,63 @@
+import {
+  parseDetections,
+  applyFilters,
+  parseFilterOptions,
+  createDetectionSummary,
+  normalizeConfidence,
+} from '../../../src/utils/detection-utils';
+import type { DetectedObject } from '../../../src/types/ObjectDetection';
+import { ValidationError } from '../../../src/types';
+
+const detection = (object: string, confidence?: number): DetectedObject => ({
+  object,
+  label: `a ${object}`,
+  normalized_box_2d: [100, 100, 200, 200],
+  confidence,
+});
+
+describe('detection utils', () => {
+  it('should bring reported confidences into 0-1', () => {
+    const objects = parseDetections(JSON.stringify([
+      { ...detection('car'), confidence: 0.87 },
+      { ...detection('bus'), confidence: 92 },
+      { ...detection('bike'), confidence: '75%' },
+      { ...detection('sign'), confidence: 1.4e3 },
+      { ...detection('tree'), confidence: 'high' },
+    ]));
+
+    expect(objects.map(obj => obj.confidence)).toEqual([0.87, 0.92, 0.75, 1, undefined]);
+    expect(objects[4]).not.toHaveProperty('confidence');
+  });
+
+  it('should read a confidence as percent only when it has a percent sign or is a whole number', () => {
+    expect(normalizeConfidence('85%')).toBe(0.85);
+    expect(normalizeConfidence('0.5%')).toBe(0.005);
+    expect(normalizeConfidence(85)).toBe(0.85);
+    expect(normalizeConfidence('0.5')).toBe(0.5);
+    expect(normalizeConfidence(1.5)).toBe(1);
+  });
+
+  it('should filter by type, confidence and keep the most confident results', () => {
+    const objects = [detection('car', 0.4), detection('Person', 0.95), detection('car', 0.8), detection('tree'), detection('dog', 0.7)];
+
+    expect(applyFilters(objects, { minConfidence: 0.6 }).map(obj => obj.object)).toEqual(['Person', 'car', 'dog']);
+    expect(applyFilters(objects, { objectTypes: ['car', 'person'] }).map(obj => obj.confidence)).toEqual([0.4, 0.95, 0.8]);
+    expect(applyFilters(objects, { excludeTypes: ['CAR'] }).map(obj => obj.object)).toEqual(['Person', 'tree', 'dog']);
+    expect(applyFilters(objects, { maxResults: 2 }).map(obj => obj.confidence)).toEqual([0.95, 0.8]);
+  });
+
+  it('should parse filter flags and reject thresholds outside 0-1', () => {
+    expect(parseFilterOptions({ types: 'car, person,', excludeTypes: '', minConfidence: 0.5, maxObjects: 3 })).toEqual({
+      objectTypes: ['car', 'person'],
+      excludeTypes: undefined,
+      minConfidence: 0.5,
+      maxResults: 3,
+    });
+    expect(() => parseFilterOptions({ minConfidence: 50 })).toThrow(ValidationError);
+    expect(() => parseFilterOptions({ minConfidence: NaN })).toThrow(ValidationError);
+  });
+
+  it('should include confidence in the summary', () => {
+    expect(createDetectionSummary([detection('car', 0.874)])).toContain('1. car (a car) 87% at x=10.0%');
+  });
+});
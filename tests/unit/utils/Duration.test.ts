@@ -0,0 +1,22 @@
+import { parseDuration } from '../../../src/utils/duration';
+import { ValidationError } from '../../../src/types';
+
+describe('parseDuration', () => {
+  it('should convert each unit to milliseconds', () => {
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('30m')).toBe(30 * 60_000);
+    expect(parseDuration('1.5h')).toBe(90 * 60_000);
+    expect(parseDuration(' 2D ')).toBe(2 * 24 * 3_600_000);
+  });
+
+  it('should read a bare number as hours', () => {
+    expect(parseDuration('12')).toBe(12 * 3_600_000);
+    expect(parseDuration('0')).toBe(0);
+  });
+
+  it('should reject other input and name the option', () => {
+    expect(() => parseDuration('2w')).toThrow(ValidationError);
+    expect(() => parseDuration('-1h')).toThrow(ValidationError);
+    expect(() => parseDuration('soon', 'context-cache')).toThrow(expect.objectContaining({ field: 'context-cache' }));
+  });
+});
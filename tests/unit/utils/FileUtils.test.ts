@@ -0,0 +1,42 @@
+import { toFileId, selectPurgeCandidates } from '../../../src/utils/file-utils';
+import type { UploadedFile } from '../../../src/types';
+
+const HOUR = 3_600_000;
+const now = Date.parse('2026-01-10T12:00:00Z');
+
+const file = (id: string, ageHours: number | undefined, state: UploadedFile['state'] = 'ACTIVE'): UploadedFile => ({
+  id,
+  filename: `${id}.jpg`,
+  mimeType: 'image/jpeg',
+  size: 1024,
+  state,
+  createTime: ageHours === undefined ? undefined : new Date(now - ageHours * HOUR).toISOString(),
+});
+
+describe('file utils', () => {
+  it('should normalize IDs and URIs to files/<id>', () => {
+    expect(toFileId('abc123')).toBe('files/abc123');
+    expect(toFileId('files/abc123')).toBe('files/abc123');
+    expect(toFileId('https://generativelanguage.googleapis.com/v1beta/files/abc123')).toBe('files/abc123');
+    expect(toFileId('https://generativelanguage.googleapis.com/v1beta/files/abc123:download?alt=media')).toBe('files/abc123');
+  });
+
+  it('should select files at least as old as the given age', () => {
+    const files = [file('files/new', 1), file('files/edge', 12), file('files/old', 30), file('files/unknown', undefined)];
+
+    expect(selectPurgeCandidates(files, 12 * HOUR, undefined, now).map(f => f.id)).toEqual(['files/edge', 'files/old']);
+    expect(selectPurgeCandidates(files, 48 * HOUR, undefined, now)).toEqual([]);
+  });
+
+  it('should select every file for an age of 0, including those without a creation time', () => {
+    const files = [file('files/new', 0), file('files/unknown', undefined)];
+
+    expect(selectPurgeCandidates(files, 0, undefined, now)).toEqual(files);
+  });
+
+  it('should only select files in the requested state', () => {
+    const files = [file('files/active', 30), file('files/failed', 30, 'FAILED'), file('files/recent', 1, 'FAILED')];
+
+    expect(selectPurgeCandidates(files, 12 * HOUR, 'FAILED', now).map(f => f.id)).toEqual(['files/failed']);
+  });
+});
@@ -0,0 +1,82 @@
+import { HealthChecker } from '../../../src/utils/health-checker';
+import { MultiProviderRateLimiter } from '../../../src/utils/rate-limiter';
+
+describe('HealthChecker', () => {
+  let provider: any;
+  let rateLimiter: MultiProviderRateLimiter;
+
+  beforeEach(() => {
+    provider = {
+      healthCheck: jest.fn(),
+      getImageModel: jest.fn().mockReturnValue('gemini-test'),
+      getProviderInfo: jest.fn().mockReturnValue({ version: '1.0.0', capabilities: {} }),
+    };
+    rateLimiter = new MultiProviderRateLimiter();
+  });
+
+  function createChecker(failureThreshold = 3): HealthChecker {
+    const checker = new HealthChecker({ enableCaching: false, timeout: 1000, failureThreshold }, rateLimiter);
+    checker.addProvider('google', provider);
+    return checker;
+  }
+
+  const unhealthy = (errorCode?: string) => ({
+    status: 'unhealthy',
+    message: 'failed',
+    errorCode,
+    lastCheck: new Date().toISOString(),
+  });
+
+  it('should report a healthy provider with all checks passing and its rate limit status', async () => {
+    rateLimiter.addProvider('google', { burstSize: 5, requestsPerSecond: 1, quotaPerDay: 50 });
+    provider.healthCheck.mockResolvedValue({ status: 'healthy', lastCheck: new Date().toISOString() });
+
+    const result = await createChecker().checkProviderHealth('google');
+
+    expect(result.status).toBe('healthy');
+    expect(result.details).toMatchObject({ authentication: true, connectivity: true, endpointAvailable: true });
+    expect(result.details.rateLimitStatus).toMatchObject({ remaining: 50, limit: 50 });
+    expect(result.details.serviceSpecific.model).toBe('gemini-test');
+  });
+
+  it('should distinguish authentication, network and throttling failures', async () => {
+    const checker = createChecker();
+
+    provider.healthCheck.mockResolvedValueOnce(unhealthy('AUTHENTICATION_ERROR'));
+    const auth = await checker.checkProviderHealth('google');
+    expect(auth.status).toBe('unhealthy');
+    expect(auth.details).toMatchObject({ authentication: false, connectivity: true, endpointAvailable: true });
+
+    provider.healthCheck.mockResolvedValueOnce(unhealthy('NETWORK_ERROR'));
+    const network = await checker.checkProviderHealth('google');
+    expect(network.status).toBe('unhealthy');
+    expect(network.details.connectivity).toBe(false);
+
+    provider.healthCheck.mockResolvedValueOnce(unhealthy('RATE_LIMIT_EXCEEDED'));
+    const throttled = await checker.checkProviderHealth('google');
+    expect(throttled.status).toBe('degraded');
+    expect(throttled.details.serviceSpecific.rateLimited).toBe(true);
+  });
+
+  it('should treat failures after a healthy check as degraded until the failure threshold is reached', async () => {
+    const checker = createChecker(2);
+    provider.healthCheck
+      .mockResolvedValueOnce({ status: 'healthy', lastCheck: new Date().toISOString() })
+      .mockResolvedValue(unhealthy('PROVIDER_ERROR'));
+
+    expect((await checker.checkProviderHealth('google')).status).toBe('healthy');
+    expect((await checker.checkProviderHealth('google')).status).toBe('degraded');
+    expect((await checker.checkProviderHealth('google')).status).toBe('unhealthy');
+  });
+
+  it('should mark the provider unhealthy when the check times out', async () => {
+    provider.healthCheck.mockReturnValue(new Promise(() => undefined));
+    const checker = new HealthChecker({ enableCaching: false, timeout: 20 }, rateLimiter);
+    checker.addProvider('google', provider);
+
+    const result = await checker.checkProviderHealth('google');
+
+    expect(result.status).toBe('unhealthy');
+    expect(result.error).toContain('timed out');
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { ImageAnnotator, ANNOTATION_PALETTES, parseAnnotationStyle } from '../../../src/utils/imageAnnotator';
+import type { DetectedObject } from '../../../src/types/ObjectDetection';
+import { ValidationError } from '../../../src/types';
+
+const objects: DetectedObject[] = [
+  { object: 'car', label: 'car <rear> & "trunk"', normalized_box_2d: [0, 0, 500, 500], confidence: 0.9 },
+  { object: 'person', label: 'person', normalized_box_2d: [0, 10, 400, 300], confidence: 0.7 },
+  { object: 'car', label: 'car', normalized_box_2d: [600, 600, 1000, 1000] },
+];
+
+const attributes = (svg: string, pattern: RegExp) =>
+  [...svg.matchAll(pattern)].map(match => match.slice(1).map(Number));
+
+describe('ImageAnnotator', () => {
+  let tempDir: string;
+  let imagePath: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-vision-annotator-'));
+    imagePath = path.join(tempDir, 'scene.png');
+    await sharp({ create: { width: 400, height: 200, channels: 3, background: '#808080' } }).png().toFile(imagePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write an escaped SVG overlay with one color per object type and a legend', async () => {
+    const outputPath = path.join(tempDir, 'scene.svg');
+    const annotator = new ImageAnnotator({ showConfidence: true, showLegend: true, fillOpacity: 0.25 });
+    await annotator.createAnnotatedImage(imagePath, objects, outputPath);
+
+    const svg = fs.readFileSync(outputPath, 'utf-8');
+    expect(svg).toContain('width="400" height="200"');
+    expect(svg).toContain('car &lt;rear&gt; &amp; &quot;trunk&quot; (90%)');
+    expect(svg).not.toContain('<rear>');
+    expect(svg).toContain(`stroke="${ANNOTATION_PALETTES.default[0]}" fill="${ANNOTATION_PALETTES.default[0]}" fill-opacity="0.25"`);
+    expect(svg).toContain(`stroke="${ANNOTATION_PALETTES.default[1]}"`);
+    expect(svg).toContain('class="legend"');
+    expect(svg).toContain('car (2)');
+    expect(svg).toContain('person (1)');
+
+    const colorblind = new ImageAnnotator({ palette: 'colorblind' }).assignColors(objects);
+    expect([...colorblind.values()]).toEqual(ANNOTATION_PALETTES.colorblind.slice(0, 2));
+    expect([...new ImageAnnotator({ palette: 'single', color: 'lime' }).assignColors(objects).values()]).toEqual(['lime', 'lime']);
+  });
+
+  it('should keep labels inside the image and apart from each other', async () => {
+    const outputPath = path.join(tempDir, 'labels.svg');
+    await new ImageAnnotator().createAnnotatedImage(imagePath, objects, outputPath);
+
+    const labels = attributes(
+      fs.readFileSync(outputPath, 'utf-8'),
+      /class="label-bg" x="([\d.]+)" y="([\d.]+)" width="([\d.]+)" height="([\d.]+)"/g
+    );
+    expect(labels).toHaveLength(3);
+    for (const [x, y, width, height] of labels) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(x + width).toBeLessThanOrEqual(400);
+      expect(y + height).toBeLessThanOrEqual(200);
+    }
+
+    // The first two boxes share their top edge; their labels must not overlap
+    const [[ax, ay, aw, ah], [bx, by, bw, bh]] = labels;
+    const separate = ax + aw <= bx || bx + bw <= ax || ay + ah <= by || by + bh <= ay;
+    expect(separate).toBe(true);
+  });
+
+  it('should write an interactive HTML page and raster images', async () => {
+    const htmlPath = path.join(tempDir, 'scene.html');
+    await new ImageAnnotator().createAnnotatedImage(imagePath, objects, htmlPath);
+
+    const html = fs.readFileSync(htmlPath, 'utf-8');
+    expect(html).toContain('<img src="data:image/png;base64,');
+    expect(html).toContain('<title>car: car &lt;rear&gt; &amp; &quot;trunk&quot;\nconfidence 90%');
+    expect(html).toContain('mousemove');
+
+    const pngPath = path.join(tempDir, 'scene_annotated.png');
+    await new ImageAnnotator().createAnnotatedImage(imagePath, objects, pngPath);
+    expect(await sharp(pngPath).metadata()).toMatchObject({ format: 'png', width: 400, height: 200 });
+  });
+
+  it('should show EXIF-rotated photos unrotated under the boxes in HTML pages', async () => {
+    const rotatedPath = path.join(tempDir, 'rotated.jpg');
+    await sharp({ create: { width: 400, height: 200, channels: 3, background: '#808080' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toFile(rotatedPath);
+    const htmlPath = path.join(tempDir, 'rotated.html');
+    await new ImageAnnotator().createAnnotatedImage(rotatedPath, objects, htmlPath);
+
+    const html = fs.readFileSync(htmlPath, 'utf-8');
+    expect(html).toContain('image-orientation: none');
+    const embedded = Buffer.from(html.match(/data:image\/jpeg;base64,([^"]+)"/)![1], 'base64');
+    const metadata = await sharp(embedded).metadata();
+    expect(metadata).toMatchObject({ width: 400, height: 200 });
+    expect(metadata.orientation).toBeUndefined();
+    expect(html).toContain('width="400" height="200"');
+  });
+
+  it('should parse annotation style flags', () => {
+    expect(parseAnnotationStyle({})).toEqual({ palette: 'default', showLegend: false });
+    expect(parseAnnotationStyle({ annotationColor: 'blue', legend: true })).toEqual({ palette: 'single', color: 'blue', showLegend: true });
+    expect(() => parseAnnotationStyle({ palette: 'rainbow' })).toThrow(ValidationError);
+    expect(() => parseAnnotationStyle({ fillOpacity: 1.5 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,69 @@
+import sharp from 'sharp';
+import { diffImages, createSideBySide, validateDiffOptions, type DiffRegion } from '../../../src/utils/image-diff';
+import { buildDiffPrompt, explainDiffRegions } from '../../../src/utils/comparison-utils';
+import { ImageAnnotator } from '../../../src/utils/imageAnnotator';
+import { ValidationError } from '../../../src/types';
+
+// 800x400 grey canvas, optionally with a dark square at x 500-600, y 100-200
+const canvas = (width: number, height: number, square: boolean) => {
+  const image = sharp({ create: { width: 800, height: 400, channels: 3, background: '#c0c0c0' } });
+  const composed = square
+    ? image.composite([{
+        input: { create: { width: 100, height: 100, channels: 3, background: '#203060' } },
+        left: 500,
+        top: 100,
+      }])
+    : image;
+  return composed.png().toBuffer().then(png => sharp(png).resize(width, height).png().toBuffer());
+};
+
+describe('image diff', () => {
+  it('should find no regions in identical images', async () => {
+    const image = await canvas(800, 400, true);
+    const diff = await diffImages(image, image);
+
+    expect(diff).toMatchObject({ width: 800, height: 400, similarity: 1, changedPercent: 0, regions: [] });
+  });
+
+  it('should box the changed area after aligning the image sizes', async () => {
+    const diff = await diffImages(await canvas(800, 400, false), await canvas(400, 200, true));
+
+    expect(diff.width).toBe(800);
+    expect(diff.regions).toHaveLength(1);
+    const [ymin, xmin, ymax, xmax] = diff.regions[0].normalized_box_2d;
+    // The square covers [250, 625, 500, 750]; blocks and the blur widen the box slightly
+    expect(ymin).toBeLessThanOrEqual(250);
+    expect(xmin).toBeLessThanOrEqual(625);
+    expect(ymax).toBeGreaterThanOrEqual(500);
+    expect(xmax).toBeGreaterThanOrEqual(750);
+    expect(ymax - ymin).toBeLessThan(350);
+    expect(xmax - xmin).toBeLessThan(200);
+    expect(diff.similarity).toBeLessThan(1);
+
+    const sideBySide = await sharp(await createSideBySide(diff, [], new ImageAnnotator())).metadata();
+    expect(sideBySide.width).toBeGreaterThan(1600);
+    expect(sideBySide.height).toBe(400);
+  });
+
+  it('should pair model explanations with their regions', () => {
+    const regions: DiffRegion[] = [
+      { id: 1, normalized_box_2d: [100, 100, 200, 200], score: 0.9, area: 1 },
+      { id: 2, normalized_box_2d: [500, 500, 600, 600], score: 0.4, area: 1 },
+    ];
+    const reply = JSON.stringify([
+      { region: 1, object: 'button', label: 'Button turned blue', normalized_box_2d: [110, 110, 190, 190] },
+      { region: 7, object: 'logo', label: 'Not a listed region', normalized_box_2d: [0, 0, 10, 10] },
+    ]);
+
+    expect(buildDiffPrompt('Explain', regions)).toContain('Region 2: [500, 500, 600, 600] (change 40%)');
+    expect(explainDiffRegions(regions, reply)).toEqual([
+      { region: 1, object: 'button', label: 'Button turned blue', normalized_box_2d: [110, 110, 190, 190], score: 0.9 },
+      { region: 2, object: 'change', label: 'unexplained change', normalized_box_2d: [500, 500, 600, 600], score: 0.4 },
+    ]);
+  });
+
+  it('should validate the diff threshold', () => {
+    expect(() => validateDiffOptions({ threshold: 0.2 })).not.toThrow();
+    expect(() => validateDiffOptions({ threshold: 1.5 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,93 @@
+import sharp from 'sharp';
+import { estimateImageTokens, mapBoxToOriginal, preprocessImage } from '../../../src/utils/image-preprocessing';
+import type { PreprocessingConfig } from '../../../src/types';
+
+const config: PreprocessingConfig = {
+  enabled: true,
+  auto_orient: true,
+  max_dimension: 0,
+  max_image_tokens: 0,
+  format: 'auto',
+  quality: 90,
+  strip_alpha: true,
+};
+
+/**
+ * A white image stored at 400x200 with a red block at x 300-350, y 20-60
+ */
+async function createImage(orientation: number): Promise<Buffer> {
+  const width = 400;
+  const height = 200;
+  const pixels = Buffer.alloc(width * height * 3, 255);
+  for (let y = 20; y < 60; y++) {
+    for (let x = 300; x < 350; x++) {
+      pixels.fill(0, (y * width + x) * 3 + 1, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).withMetadata({ orientation }).jpeg({ quality: 100 }).toBuffer();
+}
+
+/**
+ * Normalized [ymin, xmin, ymax, xmax] box around the red pixels
+ */
+async function findRedBox(buffer: Buffer): Promise<[number, number, number, number]> {
+  const { data, info } = await sharp(buffer).raw().toBuffer({ resolveWithObject: true });
+  let [ymin, xmin, ymax, xmax] = [Infinity, Infinity, 0, 0];
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      const index = (y * info.width + x) * info.channels;
+      if (data[index] > 200 && data[index + 1] < 80) {
+        [ymin, xmin, ymax, xmax] = [Math.min(ymin, y), Math.min(xmin, x), Math.max(ymax, y + 1), Math.max(xmax, x + 1)];
+      }
+    }
+  }
+  return [(ymin / info.height) * 1000, (xmin / info.width) * 1000, (ymax / info.height) * 1000, (xmax / info.width) * 1000];
+}
+
+describe('image preprocessing', () => {
+  it('should orient and downscale an image and map boxes back onto the original', async () => {
+    const processed = await preprocessImage(await createImage(6), 'image/jpeg', { ...config, max_dimension: 200 });
+
+    expect(processed?.info).toMatchObject({
+      originalWidth: 400,
+      originalHeight: 200,
+      width: 100,
+      height: 200,
+      orientation: 6,
+      transforms: ['auto-orient (EXIF orientation 6)', 'resize 200x400 -> 100x200'],
+    });
+
+    const box = mapBoxToOriginal(await findRedBox(processed!.buffer), processed!.info);
+    [100, 750, 300, 875].forEach((expected, index) => expect(box[index]).toBeCloseTo(expected, -1.5));
+  });
+
+  it('should flatten transparency and convert formats models do not accept', async () => {
+    const transparent = await sharp({ create: { width: 10, height: 10, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .png()
+      .toBuffer();
+    const flattened = await preprocessImage(transparent, 'image/png', config);
+    expect(flattened?.info.transforms).toEqual(['flatten alpha onto white']);
+    expect((await sharp(flattened!.buffer).metadata()).hasAlpha).toBe(false);
+
+    const gif = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#ff0000' } }).gif().toBuffer();
+    const converted = await preprocessImage(gif, 'image/gif', config);
+    expect(converted?.mimeType).toBe('image/jpeg');
+    expect(converted?.info.transforms).toContain('convert image/gif -> image/jpeg');
+  });
+
+  it('should leave images that need no transforms or cannot be decoded unchanged', async () => {
+    expect(await preprocessImage(await createImage(1), 'image/jpeg', config)).toBeUndefined();
+    expect(await preprocessImage(Buffer.from('not an image'), 'image/jpeg', config)).toBeUndefined();
+    expect(await preprocessImage(await createImage(6), 'image/jpeg', { ...config, enabled: false })).toBeUndefined();
+  });
+
+  it('should downscale to an image token budget', async () => {
+    const large = await sharp({ create: { width: 3000, height: 2000, channels: 3, background: '#ffffff' } }).png().toBuffer();
+    expect(estimateImageTokens(3000, 2000)).toBe(12 * 258);
+
+    const processed = await preprocessImage(large, 'image/png', { ...config, max_image_tokens: 4 * 258 });
+
+    expect(estimateImageTokens(processed!.info.width, processed!.info.height)).toBeLessThanOrEqual(4 * 258);
+    expect(processed!.info.width).toBe(1536);
+  });
+});
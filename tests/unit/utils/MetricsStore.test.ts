@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MetricsCollector } from '../../../src/utils/metrics';
+import { MetricsStore } from '../../../src/utils/metrics-store';
+
+describe('MetricsStore', () => {
+  let tempDir: string;
+  let store: MetricsStore;
+  const collectors: MetricsCollector[] = [];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-vision-metrics-'));
+    store = new MetricsStore(path.join(tempDir, 'metrics.json'));
+  });
+
+  afterEach(() => {
+    collectors.splice(0).forEach(collector => collector.destroy());
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createCollector(): MetricsCollector {
+    const collector = new MetricsCollector({ flushInterval: 0 });
+    collectors.push(collector);
+    return collector;
+  }
+
+  it('should accumulate metrics persisted by separate invocations', () => {
+    const first = createCollector();
+    first.recordRequest('google', 'analyze_image', 200, 120, 300);
+    store.persist(first);
+
+    const second = createCollector();
+    second.recordRequest('google', 'analyze_image', 429, 40);
+    second.incrementCounter('errors.google.RATE_LIMIT_EXCEEDED');
+    store.persist(second);
+
+    const loaded = store.load();
+    collectors.push(loaded);
+
+    expect(loaded.getProviderMetrics('google')).toMatchObject({
+      totalRequests: 2,
+      successfulRequests: 1,
+      failedRequests: 1,
+      totalTokensUsed: 300,
+    });
+    expect(loaded.getPerformanceMetrics('google', 'analyze_image').p95ResponseTime).toBe(120);
+    expect(loaded.getCounterNames('errors.google.')).toEqual(['errors.google.RATE_LIMIT_EXCEEDED']);
+  });
+
+  it('should export persisted metrics in the Prometheus text format', () => {
+    const collector = createCollector();
+    collector.recordRequest('google', 'analyze_image', 200, 120, 300);
+    store.persist(collector);
+
+    const loaded = store.load();
+    collectors.push(loaded);
+    const output = loaded.exportPrometheus();
+
+    expect(output).toContain('# TYPE ai_vision_requests_total counter');
+    expect(output).toContain('ai_vision_requests_total{provider="google",operation="analyze_image",outcome="success"} 1');
+    expect(output).toContain('ai_vision_tokens_total{provider="google"} 300');
+    expect(output).toContain('ai_vision_request_duration_milliseconds_bucket{provider="google",operation="analyze_image",le="+Inf"} 1');
+    expect(output).toContain('ai_vision_request_duration_milliseconds_sum{provider="google",operation="analyze_image"} 120');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  it('should start empty after a reset or when the store is unreadable', () => {
+    const collector = createCollector();
+    collector.recordRequest('google', 'analyze_image', 200, 120);
+    store.persist(collector);
+    store.reset();
+
+    expect(store.read()).toBeNull();
+
+    fs.writeFileSync(store.getFilePath(), '{ not json');
+    const loaded = store.load();
+    collectors.push(loaded);
+    expect(loaded.getTrackedProviders()).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { estimateCost, findModelPricing, formatCost } from '../../../src/utils/pricing';
+
+describe('pricing', () => {
+  const pricing = {
+    currency: 'USD',
+    models: {
+      'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+      'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, image: 0.2 },
+    },
+  };
+
+  it('should match dated and prefixed model names to the longest pricing entry', () => {
+    expect(findModelPricing('gemini-2.5-flash-lite-preview-06-17', pricing)?.name).toBe('gemini-2.5-flash-lite');
+    expect(findModelPricing('models/gemini-2.5-flash', pricing)?.name).toBe('gemini-2.5-flash');
+    expect(findModelPricing('gemini-1.0-pro', pricing)).toBeUndefined();
+  });
+
+  it('should price image tokens separately from the rest of the prompt', () => {
+    const cost = estimateCost(
+      { promptTokenCount: 1300, candidatesTokenCount: 500, totalTokenCount: 1800, imageTokenCount: 1000 },
+      'gemini-2.5-flash-lite',
+      pricing
+    );
+
+    expect(cost).toMatchObject({ currency: 'USD', pricedModel: 'gemini-2.5-flash-lite' });
+    expect(cost!.input).toBeCloseTo(0.00003);
+    expect(cost!.image).toBeCloseTo(0.0002);
+    expect(cost!.output).toBeCloseTo(0.0002);
+    expect(cost!.total).toBeCloseTo(0.00043);
+  });
+
+  it('should bill image tokens at the input price when no image price is set', () => {
+    const cost = estimateCost(
+      { promptTokenCount: 1000, candidatesTokenCount: 0, totalTokenCount: 1000, imageTokenCount: 1000 },
+      'gemini-2.5-flash',
+      pricing
+    );
+
+    expect(cost!.image).toBeCloseTo(0.0003);
+    expect(cost!.input).toBe(0);
+    expect(estimateCost({ promptTokenCount: 1, candidatesTokenCount: 1, totalTokenCount: 2 }, 'unknown', pricing)).toBeUndefined();
+    expect(formatCost(0.00043)).toBe('$0.000430');
+    expect(formatCost(1.5, 'EUR')).toBe('EUR 1.5000');
+  });
+
+  it('should bill tokens read from cached content at the cached price', () => {
+    const cost = estimateCost(
+      { promptTokenCount: 1300, candidatesTokenCount: 0, totalTokenCount: 1300, imageTokenCount: 1000, cachedTokenCount: 1100 },
+      'gemini-2.5-flash',
+      pricing
+    );
+
+    // 1100 cached at a quarter of the input price, 200 text tokens at the input price
+    expect(cost!.image).toBe(0);
+    expect(cost!.input).toBeCloseTo(0.0001425);
+  });
+});
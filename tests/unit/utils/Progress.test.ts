@@ -0,0 +1,54 @@
+// chalk and ora ship as ES modules only; the pool does not draw anything with progress off
+jest.mock('chalk', () => ({ __esModule: true, default: new Proxy({}, { get: () => (text: string) => text }) }));
+jest.mock('ora', () => ({ __esModule: true, default: jest.fn() }));
+
+import { withBatchProgress } from '../../../src/utils/progress';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('withBatchProgress', () => {
+  it('should run at most `concurrency` items at once and visit every index once', async () => {
+    let running = 0;
+    let peak = 0;
+    const visited: number[] = [];
+
+    await withBatchProgress([30, 5, 20, 1, 10, 2], 'pool', async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(ms);
+      visited.push(index);
+      running--;
+    }, false, 3);
+
+    expect(peak).toBe(3);
+    expect([...visited].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    // Short items finish first, so completion order differs from input order
+    expect(visited).not.toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('should process items one by one by default', async () => {
+    const order: string[] = [];
+    await withBatchProgress(['a', 'b', 'c'], 'pool', async item => {
+      order.push(`start ${item}`);
+      await delay(1);
+      order.push(`end ${item}`);
+    }, false);
+
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('should reject with the first error and start no further items', async () => {
+    const started: number[] = [];
+
+    await expect(withBatchProgress([0, 1, 2, 3, 4], 'pool', async item => {
+      started.push(item);
+      await delay(5);
+      if (item === 1) {
+        throw new Error('item 1 failed');
+      }
+    }, false, 2)).rejects.toThrow('item 1 failed');
+
+    await delay(20);
+    expect(started).toEqual([0, 1, 2]);
+  });
+});
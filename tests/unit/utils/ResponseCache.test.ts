@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ResponseCache, cacheModeFromFlags, type CacheKeyInput } from '../../../src/utils/response-cache';
+import { ValidationError } from '../../../src/types';
+
+describe('ResponseCache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-vision-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const keyInput: CacheKeyInput = {
+    provider: 'google',
+    model: 'gemini-2.5-flash',
+    functionName: 'detect_objects_in_image',
+    images: ['a'.repeat(64)],
+    prompt: 'Detect all objects',
+    responseSchema: { type: 'array', items: { type: 'object' } },
+    temperature: 0.2,
+    topP: 0.95,
+  };
+
+  const result = (text: string, cost = 0.001) => ({
+    text,
+    metadata: {
+      model: 'gemini-2.5-flash',
+      provider: 'google',
+      cost: { currency: 'USD', input: 0, output: 0, image: 0, total: cost, pricedModel: 'gemini-2.5-flash' },
+    },
+  });
+
+  it('should key entries by content and parameters, not by property order', () => {
+    const reordered = { topP: 0.95, temperature: 0.2, ...keyInput, responseSchema: { items: { type: 'object' }, type: 'array' } };
+
+    expect(ResponseCache.computeKey(reordered)).toBe(ResponseCache.computeKey(keyInput));
+    expect(ResponseCache.computeKey({ ...keyInput, images: ['b'.repeat(64)] })).not.toBe(ResponseCache.computeKey(keyInput));
+    expect(ResponseCache.computeKey({ ...keyInput, temperature: 0.3 })).not.toBe(ResponseCache.computeKey(keyInput));
+  });
+
+  it('should serve entries until they expire and count hits and savings', () => {
+    const cache = new ResponseCache({ ttl: 60000, max_size: 1024 * 1024 }, tempDir);
+    const key = ResponseCache.computeKey(keyInput);
+    const now = Date.now();
+
+    cache.set(key, result('[]'), now);
+    const hit = cache.get(key, now + 1000);
+    expect(hit?.text).toBe('[]');
+    cache.recordLookup(hit);
+    cache.recordLookup(undefined);
+
+    expect(cache.getStats(now + 1000)).toMatchObject({ entries: 1, hits: 1, misses: 1, savedCost: 0.001, currency: 'USD' });
+    expect(cache.get(key, now + 120000)).toBeUndefined();
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('should evict the oldest entries once the cache exceeds its size limit', () => {
+    const entrySize = JSON.stringify({ version: 1, key: 'x'.repeat(64), createdAt: new Date().toISOString(), result: result('x'.repeat(500)) }).length;
+    const cache = new ResponseCache({ ttl: 0, max_size: entrySize * 2 + 10 }, tempDir);
+    const keys = ['one', 'two', 'three'].map(prompt => ResponseCache.computeKey({ ...keyInput, prompt }));
+
+    keys.forEach((key, index) => {
+      cache.set(key, result('x'.repeat(500)));
+      // Distinct modification times so eviction order is deterministic
+      const time = new Date(Date.now() - (keys.length - index) * 1000);
+      fs.utimesSync(path.join(tempDir, 'responses', `${key}.json`), time, time);
+    });
+    cache.set(keys[2], result('x'.repeat(500)));
+
+    expect(cache.get(keys[0])).toBeUndefined();
+    expect(cache.get(keys[1])).toBeDefined();
+    expect(cache.get(keys[2])).toBeDefined();
+    expect(cache.clear()).toBe(2);
+  });
+
+  it('should map the cache flags to a mode and reject conflicting flags', () => {
+    expect(cacheModeFromFlags({ cache: true })).toBe('use');
+    expect(cacheModeFromFlags({ cache: false })).toBe('off');
+    expect(cacheModeFromFlags({ cache: true, refresh: true })).toBe('refresh');
+    expect(cacheModeFromFlags({ cache: true, offline: true })).toBe('offline');
+    expect(() => cacheModeFromFlags({ cache: false, offline: true })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+import {
+  planTiles,
+  splitImage,
+  mapBoxFromTile,
+  mergeTileDetections,
+  validateTilingOptions,
+} from '../../../src/utils/tiled-detection';
+import type { DetectedObject } from '../../../src/types/ObjectDetection';
+import { ValidationError } from '../../../src/types';
+
+const detection = (object: string, box: [number, number, number, number], confidence?: number): DetectedObject => ({
+  object,
+  label: object,
+  normalized_box_2d: box,
+  confidence,
+});
+
+describe('tiled detection', () => {
+  it('should cover the image with tiles that share at least the overlap', () => {
+    const tiles = planTiles(5000, 3000, 2048, 256);
+
+    expect(tiles).toHaveLength(3 * 2);
+    expect(tiles.map(tile => tile.left).slice(0, 3)).toEqual([0, 1476, 2952]);
+    expect(tiles.filter(tile => tile.left === 0).map(tile => tile.top)).toEqual([0, 952]);
+    tiles.forEach(tile => {
+      expect(tile.left + tile.width).toBeLessThanOrEqual(5000);
+      expect(tile.top + tile.height).toBeLessThanOrEqual(3000);
+    });
+    expect(planTiles(1000, 800, 2048, 256)).toEqual([{ index: 0, left: 0, top: 0, width: 1000, height: 800 }]);
+  });
+
+  it('should reject tile sizes and overlaps that cannot be laid out', () => {
+    expect(() => validateTilingOptions({ tileSize: 100, overlap: 0 })).toThrow(ValidationError);
+    expect(() => validateTilingOptions({ tileSize: 1024, overlap: 512 })).toThrow(ValidationError);
+    expect(() => validateTilingOptions({ tileSize: 1024, overlap: 128 })).not.toThrow();
+  });
+
+  it('should cut oriented tiles as PNG data URLs', async () => {
+    const image = await sharp({ create: { width: 600, height: 400, channels: 3, background: '#808080' } })
+      .withMetadata({ orientation: 6 })
+      .jpeg()
+      .toBuffer();
+
+    const split = await splitImage(image, { tileSize: 256, overlap: 32 });
+
+    expect(split).toMatchObject({ width: 400, height: 600, orientation: 6 });
+    expect(split.tiles).toHaveLength(2 * 3);
+    const first = split.tiles[0];
+    expect(first.source.startsWith('data:image/png;base64,')).toBe(true);
+    const metadata = await sharp(Buffer.from(first.source.split(',')[1], 'base64')).metadata();
+    expect([metadata.width, metadata.height]).toEqual([256, 256]);
+  });
+
+  it('should map tile boxes onto the full image and merge duplicates across seams', () => {
+    const [left, right] = planTiles(2000, 1000, 1200, 400);
+    expect([left.left, right.left]).toEqual([0, 800]);
+
+    // The same resistor seen whole by both tiles, a fragment cut by the left tile's edge,
+    // and two distinct capacitors
+    const merged = mergeTileDetections(
+      [
+        {
+          tile: left,
+          objects: [
+            detection('resistor', [400, 750, 500, 800]),
+            detection('chip', [100, 950, 300, 1000]),
+            detection('capacitor', [700, 100, 800, 150]),
+          ],
+        },
+        {
+          tile: right,
+          objects: [
+            detection('resistor', [402, 84, 502, 134]),
+            detection('chip', [100, 200, 300, 500]),
+            detection('capacitor', [700, 900, 800, 950]),
+          ],
+        },
+      ],
+      2000,
+      1000
+    );
+
+    expect(mapBoxFromTile([400, 750, 500, 800], left, 2000, 1000)).toEqual([400, 450, 500, 480]);
+    expect(merged.map(obj => obj.object)).toEqual(['resistor', 'capacitor', 'chip', 'capacitor']);
+    expect(merged.find(obj => obj.object === 'chip')?.normalized_box_2d).toEqual([100, 520, 300, 700]);
+  });
+
+  it('should keep the more confident of two overlapping boxes', () => {
+    const [tile] = planTiles(1000, 1000, 1000, 0);
+    const merged = mergeTileDetections(
+      [{ tile, objects: [detection('car', [0, 0, 500, 500], 0.6), detection('car', [10, 10, 510, 510], 0.9)] }],
+      1000,
+      1000
+    );
+
+    expect(merged).toEqual([detection('car', [10, 10, 510, 510], 0.9)]);
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageLedger } from '../../../src/utils/usage-ledger';
+
+describe('UsageLedger', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-vision-usage-'));
+    filePath = path.join(tempDir, 'usage.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const request = (model: string, totalTokenCount: number, cost: number) => ({
+    provider: 'google',
+    model,
+    usage: { promptTokenCount: totalTokenCount - 10, candidatesTokenCount: 10, totalTokenCount, imageTokenCount: 258 },
+    cost: { currency: 'USD', input: 0, output: 0, image: 0, total: cost, pricedModel: model },
+  });
+
+  it('should accumulate requests per day, provider and model across ledger instances', () => {
+    new UsageLedger(filePath).record(request('gemini-2.5-flash', 300, 0.001), new Date(2025, 2, 30, 9));
+    new UsageLedger(filePath).record(request('gemini-2.5-flash', 500, 0.002), new Date(2025, 2, 30, 18));
+    new UsageLedger(filePath).record(request('gemini-2.5-pro', 400, 0.01), new Date(2025, 2, 31));
+
+    const entries = new UsageLedger(filePath).read();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      date: '2025-03-30',
+      model: 'gemini-2.5-flash',
+      requests: 2,
+      totalTokens: 800,
+      imageTokens: 516,
+    });
+    expect(entries[0].cost).toBeCloseTo(0.003);
+    expect(new UsageLedger(filePath).read({ since: '2025-03-31' })).toHaveLength(1);
+  });
+
+  it('should total the current day and month and check budgets against them', () => {
+    const ledger = new UsageLedger(filePath);
+    ledger.record(request('gemini-2.5-flash', 1000, 1.5), new Date(2025, 3, 1));
+    ledger.record(request('gemini-2.5-flash', 1000, 2.5), new Date(2025, 3, 15));
+    const now = new Date(2025, 3, 15, 12);
+
+    expect(ledger.getTotals('daily', now)).toEqual({ requests: 1, tokens: 1000, cost: 2.5 });
+    expect(ledger.getTotals('monthly', now)).toEqual({ requests: 2, tokens: 2000, cost: 4 });
+
+    const statuses = ledger.checkBudgets(
+      { enabled: true, action: 'block', warn_threshold: 0.8, daily: { requests: 10 }, monthly: { cost: 4 } },
+      now
+    );
+    expect(statuses).toEqual([
+      { period: 'daily', metric: 'requests', limit: 10, used: 1, ratio: 0.1, exceeded: false },
+      { period: 'monthly', metric: 'cost', limit: 4, used: 4, ratio: 1, exceeded: true },
+    ]);
+  });
+
+  it('should treat a corrupt ledger as empty', () => {
+    fs.writeFileSync(filePath, '{"version":1,"entr');
+
+    const ledger = new UsageLedger(filePath);
+    expect(ledger.read()).toEqual([]);
+
+    ledger.record(request('gemini-2.5-flash', 100, 0));
+    expect(ledger.read()).toHaveLength(1);
+  });
+});